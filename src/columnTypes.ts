@@ -0,0 +1,127 @@
+// CREATE TABLEで宣言されたデータ型の分類と、値が型に合っているかの判定
+// 拡張機能側とWebview側の両方から使うため、外部ライブラリに依存しない
+import type { SQLValue } from './sqlValue';
+
+export type TypeCategory =
+    | 'integer'
+    | 'decimal'
+    | 'boolean'
+    | 'date'
+    | 'datetime'
+    | 'time'
+    | 'string'
+    | 'json'
+    | 'other';
+
+export interface ColumnType {
+    // 宣言どおりの型(例: VARCHAR(100))
+    dataType: string;
+    category: TypeCategory;
+    // CHAR/VARCHARの最大長
+    maxLength?: number;
+    // NOT NULL制約があるか
+    notNull?: boolean;
+}
+
+const CATEGORY_PATTERNS: [RegExp, TypeCategory][] = [
+    [/^(tiny|small|medium|big)?int(eger)?\d*\b|^(small|big)?serial\d*\b/i, 'integer'],
+    [/^(decimal|numeric|float\d*|double|real|money|number|dec)\b/i, 'decimal'],
+    [/^bool(ean)?\b/i, 'boolean'],
+    [/^date$/i, 'date'],
+    [/^(datetime\d*|timestamp|timestamptz|smalldatetime)\b/i, 'datetime'],
+    [/^time(tz)?\b/i, 'time'],
+    [/^(n?var)?char|^character|^n?text|^(tiny|medium|long)text|^string|^clob|^uuid|^enum|^citext/i, 'string'],
+    [/^jsonb?\b/i, 'json']
+];
+
+export function classifyDataType(dataType: string): ColumnType {
+    const normalized = dataType.trim();
+    const category = CATEGORY_PATTERNS.find(([pattern]) => pattern.test(normalized))?.[1] ?? 'other';
+
+    const lengthMatch = /^(n?var)?char(acter)?(\s+varying)?\s*\(\s*(\d+)\s*\)/i.exec(normalized);
+    return {
+        dataType: normalized,
+        category,
+        maxLength: lengthMatch ? Number(lengthMatch[4]) : undefined
+    };
+}
+
+// 表示用の短い型名(例: VARCHAR(100) → VARCHAR(100), timestamp with time zone → TIMESTAMP)
+export function getTypeBadge(columnType: ColumnType): string {
+    const match = /^[A-Za-z_]+(\s*\([^)]*\))?/.exec(columnType.dataType);
+    return (match ? match[0] : columnType.dataType).replace(/\s+/g, '').toUpperCase();
+}
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([+-]\d{2}(:?\d{2})?|Z)?)?$/i;
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+// 値が宣言された型に合わない場合はその理由を返す。NULLと式は型チェックの対象外
+export function validateValueType(value: SQLValue, columnType: ColumnType): string | undefined {
+    if (value.kind === 'null' || value.kind === 'expression') {
+        return undefined;
+    }
+
+    const isBoolean = value.kind === 'boolean';
+    const text = value.kind === 'boolean' ? String(value.value) : value.value;
+    switch (columnType.category) {
+        case 'integer':
+            if (isBoolean || !INTEGER_PATTERN.test(text.trim())) {
+                return `${columnType.dataType} のカラムに整数でない値 '${text}' が入っています`;
+            }
+            break;
+        case 'decimal':
+            if (isBoolean || !DECIMAL_PATTERN.test(text.trim())) {
+                return `${columnType.dataType} のカラムに数値でない値 '${text}' が入っています`;
+            }
+            break;
+        case 'boolean':
+            if (!isBoolean && !/^(true|false|0|1|t|f)$/i.test(text.trim())) {
+                return `${columnType.dataType} のカラムに真偽値でない値 '${text}' が入っています`;
+            }
+            break;
+        case 'date': {
+            const match = DATE_PATTERN.exec(text);
+            if (!match || !isValidDate(Number(match[1]), Number(match[2]), Number(match[3]))) {
+                return `${columnType.dataType} のカラムに日付(YYYY-MM-DD)でない値 '${text}' が入っています`;
+            }
+            break;
+        }
+        case 'datetime':
+            if (!DATETIME_PATTERN.test(text)) {
+                return `${columnType.dataType} のカラムに日時(YYYY-MM-DD HH:MM:SS)でない値 '${text}' が入っています`;
+            }
+            break;
+        case 'time':
+            if (!TIME_PATTERN.test(text)) {
+                return `${columnType.dataType} のカラムに時刻(HH:MM:SS)でない値 '${text}' が入っています`;
+            }
+            break;
+        case 'string':
+            if (columnType.maxLength !== undefined && [...text].length > columnType.maxLength) {
+                return `${columnType.dataType} の最大長 ${columnType.maxLength} 文字を超えています(${[...text].length} 文字)`;
+            }
+            break;
+        case 'json':
+            try {
+                JSON.parse(text);
+            } catch {
+                return `${columnType.dataType} のカラムにJSONとして読めない値が入っています`;
+            }
+            break;
+    }
+
+    return undefined;
+}
+
+// 文字列としてクォートして書き出すべき型か
+export function isQuotedCategory(category: TypeCategory): boolean {
+    return category === 'string' || category === 'date' || category === 'datetime' || category === 'time' || category === 'json';
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+import { SQLParser, ParsedStatement } from './sqlParser';
+import { SchemaIndex } from './schemaIndex';
+import { resolveDialect } from './dialectResolver';
+import { SQLDialect, quoteIdentifier, formatSQLValue } from './sqlDialect';
+import { SQLValue } from './sqlValue';
+import { parseDelimited, detectDelimiter } from './delimitedText';
+import { ImportPlan, createImportPlan } from './csvMapping';
+
+// 取り込んだ行の書き込み先。insertIndexがなければファイルの末尾に新しいINSERT文を追加する
+interface ImportDestination {
+	tableName: string;
+	insertIndex?: number;
+}
+
+const DELIMITERS: { label: string; delimiter: string }[] = [
+	{ label: 'カンマ (,)', delimiter: ',' },
+	{ label: 'タブ', delimiter: '\t' },
+	{ label: 'セミコロン (;)', delimiter: ';' },
+	{ label: '縦棒 (|)', delimiter: '|' }
+];
+
+// プレビューに表示する行数
+const PREVIEW_ROWS = 5;
+
+// ワークスペースのCSV・TSVファイルを読み込み、SQLファイルのINSERT文として書き込む
+export class CsvImporter {
+	private _sqlParser = new SQLParser();
+
+	constructor(private readonly _schemaIndex: SchemaIndex) {}
+
+	public async run(target: vscode.Uri): Promise<void> {
+		const document = await vscode.workspace.openTextDocument(target);
+
+		const csvUri = await this._pickFile(target);
+		if (!csvUri) {
+			return;
+		}
+		// UTF-8として読み込み、先頭のBOMを除く
+		const text = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(csvUri)).replace(/^\uFEFF/, '');
+
+		const delimiter = await this._pickDelimiter(text);
+		if (delimiter === undefined) {
+			return;
+		}
+		const records = parseDelimited(text, delimiter);
+		if (records.length === 0) {
+			vscode.window.showWarningMessage('CSVファイルにデータがありません');
+			return;
+		}
+
+		const hasHeader = await this._pickHeader(records[0]);
+		if (hasHeader === undefined) {
+			return;
+		}
+
+		const sqlContent = document.getText();
+		const { dialect } = resolveDialect(document.uri, sqlContent);
+		const statements = this._sqlParser.parseSQL(sqlContent, dialect).statements;
+
+		const destination = await this._pickDestination(statements, this._defaultTableName(csvUri));
+		if (!destination) {
+			return;
+		}
+
+		let plan: ImportPlan;
+		try {
+			plan = this._createPlan(records, hasHeader, destination, statements, document.uri);
+		} catch (error) {
+			vscode.window.showErrorMessage(`CSVを取り込めません: ${error instanceof Error ? error.message : String(error)}`);
+			return;
+		}
+		if (plan.rows.length === 0) {
+			vscode.window.showWarningMessage('取り込む行がありません');
+			return;
+		}
+
+		if (!await this._confirm(plan, destination, statements, dialect)) {
+			return;
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		const insert = destination.insertIndex !== undefined ? statements[destination.insertIndex] : undefined;
+		if (insert?.rowRanges && insert.rowRanges.length > 0) {
+			// 既存の行と同じ区切り(改行やインデントを含む)で最後の行の後ろに追加する
+			const rowRanges = insert.rowRanges;
+			const lastRange = rowRanges[rowRanges.length - 1];
+			const separator = rowRanges.length > 1
+				? sqlContent.substring(rowRanges[rowRanges.length - 2].end, lastRange.start)
+				: ', ';
+			edit.insert(
+				document.uri,
+				document.positionAt(lastRange.end),
+				plan.rows.map(row => separator + this._formatRow(row, dialect)).join('')
+			);
+		} else {
+			const prefix = sqlContent.trim() === '' ? '' : sqlContent.endsWith('\n') ? '\n' : '\n\n';
+			edit.insert(
+				document.uri,
+				document.positionAt(sqlContent.length),
+				prefix + this._formatInsert(destination.tableName, plan, dialect) + '\n'
+			);
+		}
+		await vscode.workspace.applyEdit(edit);
+		vscode.window.showInformationMessage(`${plan.rows.length} 行を ${destination.tableName} に取り込みました`);
+	}
+
+	private async _pickFile(target: vscode.Uri): Promise<vscode.Uri | undefined> {
+		const uris = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			defaultUri: vscode.workspace.getWorkspaceFolder(target)?.uri,
+			filters: { 'CSV・TSV': ['csv', 'tsv', 'txt'] },
+			openLabel: '取り込む'
+		});
+		return uris?.[0];
+	}
+
+	// 区切り文字を選んでもらう。ファイルの1行目から推定したものを先頭に置く
+	private async _pickDelimiter(text: string): Promise<string | undefined> {
+		const detected = detectDelimiter(text);
+		const items = [...DELIMITERS]
+			.sort((a, b) => Number(b.delimiter === detected) - Number(a.delimiter === detected))
+			.map(item => ({ ...item, description: item.delimiter === detected ? '推定' : undefined }));
+		const picked = await vscode.window.showQuickPick(items, { placeHolder: '区切り文字を選んでください' });
+		return picked?.delimiter;
+	}
+
+	private async _pickHeader(firstRecord: string[]): Promise<boolean | undefined> {
+		const picked = await vscode.window.showQuickPick([
+			{ label: '1行目はカラム名', description: firstRecord.join(', '), hasHeader: true },
+			{ label: '1行目からデータ', hasHeader: false }
+		], { placeHolder: '1行目の扱いを選んでください' });
+		return picked?.hasHeader;
+	}
+
+	// テーブル名を入力してもらい、そのテーブルのINSERTがファイルにあれば追加先を選んでもらう
+	private async _pickDestination(statements: ParsedStatement[], defaultTableName: string): Promise<ImportDestination | undefined> {
+		const tableName = (await vscode.window.showInputBox({
+			prompt: '取り込み先のテーブル名',
+			value: defaultTableName,
+			validateInput: value => value.trim() ? undefined : 'テーブル名を入力してください'
+		}))?.trim();
+		if (!tableName) {
+			return undefined;
+		}
+
+		const inserts = statements
+			.map((statement, index) => ({ statement, index }))
+			.filter(({ statement }) => statement.type === 'insert' && statement.tableName?.toLowerCase() === tableName.toLowerCase());
+		if (inserts.length === 0) {
+			return { tableName };
+		}
+
+		const picked = await vscode.window.showQuickPick([
+			...inserts.map(({ statement, index }) => ({
+				label: `#${index + 1} のINSERTに行を追加`,
+				description: `${statement.values?.length ?? 0} 行`,
+				insertIndex: index as number | undefined
+			})),
+			{ label: '新しいINSERT文をファイルの末尾に追加', description: undefined, insertIndex: undefined }
+		], { placeHolder: `${tableName} のINSERT文がすでにあります。追加先を選んでください` });
+		return picked && { tableName: inserts[0].statement.tableName || tableName, insertIndex: picked.insertIndex };
+	}
+
+	// CSVのカラムを書き込み先のカラムに対応させ、各値をSQLの値にする
+	private _createPlan(
+		records: string[][],
+		hasHeader: boolean,
+		destination: ImportDestination,
+		statements: ParsedStatement[],
+		uri: vscode.Uri
+	): ImportPlan {
+		const insert = destination.insertIndex !== undefined ? statements[destination.insertIndex] : undefined;
+		const definitions = this._columnDefinitions(destination.tableName, statements, uri);
+		const nullToken = vscode.workspace.getConfiguration('visualSql', uri).get<string>('import.nullToken', '');
+		return createImportPlan(records, hasHeader, insert, definitions, nullToken);
+	}
+
+	// ファイル内のCREATE TABLEを優先し、なければワークスペースの定義を使う
+	private _columnDefinitions(tableName: string, statements: ParsedStatement[], uri: vscode.Uri) {
+		const key = tableName.toLowerCase();
+		const created = statements.find(statement => statement.type === 'create_table' && statement.tableName?.toLowerCase() === key);
+		return created?.columnDefinitions ?? this._schemaIndex.getTable(tableName, uri)?.columns;
+	}
+
+	// 取り込む内容をモーダルで表示し、書き込むかを確認する
+	private async _confirm(plan: ImportPlan, destination: ImportDestination, statements: ParsedStatement[], dialect: SQLDialect): Promise<boolean> {
+		const target = destination.insertIndex !== undefined
+			? `#${destination.insertIndex + 1} のINSERT(${statements[destination.insertIndex].values?.length ?? 0} 行)の後ろに追加`
+			: '新しいINSERT文をファイルの末尾に追加';
+		const previewRows = plan.rows.slice(0, PREVIEW_ROWS).map(row => this._formatRow(row, dialect));
+		if (plan.rows.length > PREVIEW_ROWS) {
+			previewRows.push(`…ほか ${plan.rows.length - PREVIEW_ROWS} 行`);
+		}
+		const detail = [
+			`書き込み先: ${target}`,
+			'',
+			'カラムの型:',
+			...plan.columnKinds.map(kind => `  ${kind}`),
+			...(plan.warnings.length > 0 ? ['', ...plan.warnings.map(warning => `⚠ ${warning}`)] : []),
+			'',
+			`${plan.columns.map(column => quoteIdentifier(column, dialect)).join(', ')}`,
+			...previewRows
+		].join('\n');
+
+		const answer = await vscode.window.showInformationMessage(
+			`${plan.rows.length} 行を ${destination.tableName} に取り込みます`,
+			{ modal: true, detail },
+			'取り込む'
+		);
+		return answer === '取り込む';
+	}
+
+	private _formatInsert(tableName: string, plan: ImportPlan, dialect: SQLDialect): string {
+		const columnList = plan.columns.map(column => quoteIdentifier(column, dialect)).join(', ');
+		const rows = plan.rows.map(row => `    ${this._formatRow(row, dialect)}`).join(',\n');
+		return `INSERT INTO ${quoteIdentifier(tableName, dialect)} (${columnList}) VALUES\n${rows};`;
+	}
+
+	private _formatRow(row: SQLValue[], dialect: SQLDialect): string {
+		return `(${row.map(value => formatSQLValue(value, dialect)).join(', ')})`;
+	}
+
+	// ファイル名(拡張子を除く)をテーブル名の初期値にする
+	private _defaultTableName(csvUri: vscode.Uri): string {
+		const fileName = csvUri.path.split('/').pop() || '';
+		return fileName.replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_]/g, '_');
+	}
+}
@@ -0,0 +1,147 @@
+// CSVの取り込みで、CSVの列を書き込み先のカラムに対応させ、各値をSQLの値にする
+// vscodeに依存しないため、拡張機能を起動せずにテストできる
+import type { ColumnDefinition, ParsedStatement } from './sqlParser';
+import { ColumnType, classifyDataType, getTypeBadge, isQuotedCategory } from './columnTypes';
+import { SQLValue, stringValue, numberValue, booleanValue, nullValue, parseInputValue } from './sqlValue';
+
+// 型が宣言されていないカラムについて、CSVの値から推定したリテラルの種類
+export type InferredKind = 'number' | 'boolean' | 'string';
+
+// 書き込む前にプレビューする取り込みの内容
+export interface ImportPlan {
+    columns: string[];
+    rows: SQLValue[][];
+    // 各カラムの型の説明(プレビュー用)
+    columnKinds: string[];
+    warnings: string[];
+}
+
+// 先頭が0の数字(郵便番号やコードなど)は文字列として扱う
+const NUMBER_PATTERN = /^[+-]?(0|[1-9]\d*)(\.\d+)?$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+
+const KIND_LABELS: Record<InferredKind, string> = {
+    number: '数値(推定)',
+    boolean: '真偽値(推定)',
+    string: '文字列(推定)'
+};
+
+// CSVのカラムを書き込み先のカラムに対応させ、各値をSQLの値にする
+// insertは追加先の既存のINSERT文、definitionsは書き込み先のテーブルのカラム定義
+export function createImportPlan(
+    records: string[][],
+    hasHeader: boolean,
+    insert: Pick<ParsedStatement, 'columns' | 'values'> | undefined,
+    definitions: Pick<ColumnDefinition, 'name' | 'dataType'>[] | undefined,
+    nullToken: string
+): ImportPlan {
+    const header = hasHeader ? records[0].map(name => name.trim()) : undefined;
+    const dataRecords = hasHeader ? records.slice(1) : records;
+    const width = dataRecords.reduce((max, record) => Math.max(max, record.length), header?.length ?? 0);
+    const warnings: string[] = [];
+
+    // columns: 書き込むカラム, positions: 各カラムに入れるCSVの列(-1ならNULL)
+    let columns: string[];
+    let positions: number[];
+    if (insert) {
+        columns = insert.columns && insert.columns.length > 0
+            ? insert.columns
+            : definitions?.map(definition => definition.name) ?? [];
+        const insertWidth = columns.length > 0 ? columns.length : insert.values?.[0]?.length ?? 0;
+        if (header && columns.length > 0) {
+            const keys = header.map(name => name.toLowerCase());
+            positions = columns.map(column => keys.indexOf(column.toLowerCase()));
+            if (positions.every(position => position === -1)) {
+                throw new Error('CSVの見出しにINSERTのカラムと同じ名前がありません');
+            }
+            const missing = columns.filter((_, index) => positions[index] === -1);
+            if (missing.length > 0) {
+                warnings.push(`CSVにないカラムはNULLにします: ${missing.join(', ')}`);
+            }
+            const unused = header.filter((_, index) => !positions.includes(index));
+            if (unused.length > 0) {
+                warnings.push(`INSERTにないCSVの列は取り込みません: ${unused.join(', ')}`);
+            }
+        } else {
+            if (width !== insertWidth) {
+                throw new Error(`CSVの列数(${width})がINSERTのカラム数(${insertWidth})と一致しません`);
+            }
+            positions = Array.from({ length: width }, (_, index) => index);
+        }
+    } else {
+        const definitionNames = definitions?.map(definition => definition.name);
+        columns = header
+            ?? (definitionNames?.length === width ? definitionNames : Array.from({ length: width }, (_, index) => `column${index + 1}`));
+        positions = columns.map((_, index) => index);
+        if (width > columns.length) {
+            warnings.push(`見出しより後ろの列は取り込みません(${width - columns.length} 列)`);
+        }
+    }
+
+    const shortRecords = dataRecords.filter(record => record.length < width).length;
+    if (shortRecords > 0) {
+        warnings.push(`列が足りない ${shortRecords} 行は、足りない値を空欄として扱います`);
+    }
+
+    const fieldsByColumn = positions.map(position => position === -1 ? [] : dataRecords.map(record => record[position] ?? ''));
+    const converters = columns.map((column, index) => {
+        const definition = definitions?.find(candidate => candidate.name.toLowerCase() === column.toLowerCase());
+        const columnType = definition?.dataType ? classifyDataType(definition.dataType) : undefined;
+        const kind = inferKind(fieldsByColumn[index].filter(field => field !== '' && field !== nullToken));
+        return {
+            description: columnType ? `${getTypeBadge(columnType)}(CREATE TABLEの型)` : KIND_LABELS[kind],
+            convert: (field: string) => toSQLValue(field, nullToken, columnType, kind)
+        };
+    });
+
+    return {
+        columns,
+        rows: dataRecords.map((_, rowIndex) => converters.map(({ convert }, index) =>
+            positions[index] === -1 ? nullValue() : convert(fieldsByColumn[index][rowIndex])
+        )),
+        columnKinds: converters.map(({ description }, index) => `${columns[index]}: ${description}`),
+        warnings
+    };
+}
+
+// 空欄とNULLを除くすべての値が数値なら数値、true/falseなら真偽値、それ以外は文字列とみなす
+export function inferKind(fields: string[]): InferredKind {
+    if (fields.length === 0) {
+        return 'string';
+    }
+    if (fields.every(field => NUMBER_PATTERN.test(field.trim()))) {
+        return 'number';
+    }
+    if (fields.every(field => BOOLEAN_PATTERN.test(field.trim()))) {
+        return 'boolean';
+    }
+    return 'string';
+}
+
+// NULLを表す文字列と一致する値はNULLにする。空欄は文字列のカラムでは空文字列、それ以外ではNULLにする
+export function toSQLValue(field: string, nullToken: string, columnType: ColumnType | undefined, kind: InferredKind): SQLValue {
+    if (field === nullToken) {
+        return nullValue();
+    }
+    if (columnType) {
+        if (isQuotedCategory(columnType.category)) {
+            // NULLはnullTokenだけで表す(文字列のカラムの 'NULL' という値は文字列のまま取り込む)
+            return stringValue(field);
+        }
+        if (field === '') {
+            return nullValue();
+        }
+        return parseInputValue(field, undefined, columnType);
+    }
+    if (field === '') {
+        return kind === 'string' ? stringValue('') : nullValue();
+    }
+    switch (kind) {
+        case 'number':
+            return numberValue(field.trim());
+        case 'boolean':
+            return booleanValue(field.trim().toLowerCase() === 'true');
+        case 'string':
+            return stringValue(field);
+    }
+}
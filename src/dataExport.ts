@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import { SQLParser, ParsedStatement } from './sqlParser';
+import { SchemaIndex } from './schemaIndex';
+import { resolveDialect } from './dialectResolver';
+import { SQLValue, nullValue, sqlValueToText } from './sqlValue';
+import { formatDelimited } from './delimitedText';
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'markdown' | 'yaml';
+
+// statement: 1つのINSERT文、table: ファイル内の同じテーブルのすべてのINSERT文
+export type ExportScope = 'statement' | 'table';
+
+const FORMATS: { format: ExportFormat; label: string; language: string }[] = [
+	{ format: 'csv', label: 'CSV', language: 'plaintext' },
+	{ format: 'tsv', label: 'TSV', language: 'plaintext' },
+	{ format: 'json', label: 'JSON(オブジェクトの配列)', language: 'json' },
+	{ format: 'markdown', label: 'Markdownの表', language: 'markdown' },
+	{ format: 'yaml', label: 'YAML(フィクスチャ)', language: 'yaml' }
+];
+
+// 書き出す表(複数のINSERT文をまとめたもの)
+export interface ExportTable {
+	tableName: string;
+	columns: string[];
+	rows: SQLValue[][];
+}
+
+// INSERT文の行をCSV・TSV・JSON・Markdown・YAMLに変換し、クリップボードにコピーする
+export class DataExporter {
+	private _sqlParser = new SQLParser();
+
+	constructor(private readonly _schemaIndex: SchemaIndex) {}
+
+	// コマンドパレットから: 書き出すINSERT文(またはテーブル)と形式を選んでもらう
+	public async run(target: vscode.Uri): Promise<void> {
+		const document = await vscode.workspace.openTextDocument(target);
+		const sqlContent = document.getText();
+		const statements = this._sqlParser.parseSQL(sqlContent, resolveDialect(document.uri, sqlContent).dialect).statements;
+
+		const inserts = statements
+			.map((statement, index) => ({ statement, index }))
+			.filter(({ statement }) => statement.type === 'insert' && statement.tableName && statement.values);
+		if (inserts.length === 0) {
+			vscode.window.showWarningMessage('書き出せるINSERT文がありません');
+			return;
+		}
+
+		const tableNames = new Map<string, string>();
+		inserts.forEach(({ statement }) => tableNames.set(statement.tableName!.toLowerCase(), statement.tableName!));
+		const picked = await vscode.window.showQuickPick([
+			...Array.from(tableNames.values()).map(tableName => ({
+				label: `${tableName} のすべてのINSERT`,
+				description: `${inserts.filter(({ statement }) => statement.tableName!.toLowerCase() === tableName.toLowerCase()).length} 文`,
+				statementIndex: inserts.find(({ statement }) => statement.tableName!.toLowerCase() === tableName.toLowerCase())!.index,
+				scope: 'table' as ExportScope
+			})),
+			...inserts.map(({ statement, index }) => ({
+				label: `#${index + 1} INSERT - ${statement.tableName}`,
+				description: `${statement.values!.length} 行`,
+				statementIndex: index,
+				scope: 'statement' as ExportScope
+			}))
+		], { placeHolder: '書き出すINSERT文を選んでください' });
+		if (!picked) {
+			return;
+		}
+
+		const format = await vscode.window.showQuickPick(FORMATS, { placeHolder: '形式を選んでください' });
+		if (!format) {
+			return;
+		}
+
+		await this.export(document, statements, picked.statementIndex, picked.scope, format.format);
+	}
+
+	// 表の「書き出し」メニューやコマンドから: 変換してクリップボードにコピーし、エディタで開けるようにする
+	public async export(
+		document: vscode.TextDocument,
+		statements: ParsedStatement[],
+		statementIndex: number,
+		scope: ExportScope,
+		format: ExportFormat
+	): Promise<void> {
+		const table = this._collectTable(document.uri, statements, statementIndex, scope);
+		if (!table) {
+			vscode.window.showWarningMessage('書き出せるINSERT文がありません');
+			return;
+		}
+
+		const nullText = vscode.workspace.getConfiguration('visualSql', document.uri).get<string>('import.nullToken', '');
+		const text = formatExport(table, format, nullText);
+		await vscode.env.clipboard.writeText(text);
+
+		const formatInfo = FORMATS.find(candidate => candidate.format === format)!;
+		const answer = await vscode.window.showInformationMessage(
+			`${table.tableName} の ${table.rows.length} 行を${formatInfo.label}としてクリップボードにコピーしました`,
+			'エディタで開く'
+		);
+		if (answer === 'エディタで開く') {
+			const exported = await vscode.workspace.openTextDocument({ content: text, language: formatInfo.language });
+			await vscode.window.showTextDocument(exported, { preview: false });
+		}
+	}
+
+	// scopeがtableなら、同じテーブルのINSERT文の行を上から順につなげる(カラムは出てきた順にまとめる)
+	private _collectTable(uri: vscode.Uri, statements: ParsedStatement[], statementIndex: number, scope: ExportScope): ExportTable | undefined {
+		const selected = statements[statementIndex];
+		if (selected?.type !== 'insert' || !selected.tableName || !selected.values) {
+			return undefined;
+		}
+		const key = selected.tableName.toLowerCase();
+		const sources = scope === 'statement'
+			? [selected]
+			: statements.filter(statement => statement.type === 'insert' && statement.tableName?.toLowerCase() === key && statement.values);
+
+		const columns: string[] = [];
+		const rows: SQLValue[][] = [];
+		sources.forEach(statement => {
+			const statementColumns = this._insertColumns(uri, statements, statement);
+			const positions = statementColumns.map(column => {
+				const position = columns.findIndex(existing => existing.toLowerCase() === column.toLowerCase());
+				if (position !== -1) {
+					return position;
+				}
+				columns.push(column);
+				rows.forEach(row => row.push(nullValue()));
+				return columns.length - 1;
+			});
+			statement.values!.forEach(valueRow => {
+				const row = columns.map(() => nullValue());
+				positions.forEach((position, index) => {
+					row[position] = valueRow[index] ?? nullValue();
+				});
+				rows.push(row);
+			});
+		});
+		return { tableName: selected.tableName, columns, rows };
+	}
+
+	// カラムリストを省略したINSERTは、CREATE TABLEのカラム(なければcolumn1, column2, ...)を使う
+	private _insertColumns(uri: vscode.Uri, statements: ParsedStatement[], statement: ParsedStatement): string[] {
+		if (statement.columns && statement.columns.length > 0) {
+			return statement.columns;
+		}
+		const key = statement.tableName!.toLowerCase();
+		const definitions = statements.find(candidate => candidate.type === 'create_table' && candidate.tableName?.toLowerCase() === key)?.columnDefinitions
+			?? this._schemaIndex.getTable(statement.tableName!, uri)?.columns;
+		const width = statement.values?.[0]?.length ?? 0;
+		return definitions && definitions.length === width
+			? definitions.map(definition => definition.name)
+			: Array.from({ length: width }, (_, index) => `column${index + 1}`);
+	}
+}
+
+// nullText: CSV・TSVでNULLを表す文字列(取り込みのvisualSql.import.nullTokenと同じ)
+export function formatExport(table: ExportTable, format: ExportFormat, nullText: string): string {
+	switch (format) {
+		case 'csv':
+		case 'tsv':
+			return formatDelimited([
+				table.columns,
+				...table.rows.map(row => row.map(value => value.kind === 'null' ? nullText : sqlValueToText(value)))
+			], format === 'csv' ? ',' : '\t') + '\n';
+		case 'json':
+			return JSON.stringify(table.rows.map(row => toObject(table.columns, row)), null, 2) + '\n';
+		case 'markdown':
+			return [
+				markdownRow(table.columns),
+				markdownRow(table.columns.map(() => '---')),
+				...table.rows.map(row => markdownRow(row.map(sqlValueToText)))
+			].join('\n') + '\n';
+		case 'yaml':
+			return formatYaml(table);
+	}
+}
+
+function toObject(columns: string[], row: SQLValue[]): Record<string, string | number | boolean | null> {
+	const object: Record<string, string | number | boolean | null> = {};
+	columns.forEach((column, index) => {
+		object[column] = toJSONValue(row[index]);
+	});
+	return object;
+}
+
+// 数値は精度が落ちない場合だけJSONの数値にし、SQL式は元のテキストを文字列として書き出す
+function toJSONValue(value: SQLValue): string | number | boolean | null {
+	switch (value.kind) {
+		case 'string':
+			return value.value;
+		case 'number': {
+			// 有効数字が15桁を超える値(大きなIDなど)は、JSONの数値にすると丸められるため文字列にする
+			const digits = value.value.replace(/^[+-]?0*|\.|e.*$/gi, '').length;
+			const number = Number(value.value);
+			return Number.isFinite(number) && digits <= 15 ? number : value.value;
+		}
+		case 'boolean':
+			return value.value;
+		case 'null':
+			return null;
+		case 'expression':
+			return value.sql;
+	}
+}
+
+// 区切りの縦棒をエスケープし、改行は<br>にする
+function markdownRow(cells: string[]): string {
+	return `| ${cells.map(cell => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')).join(' | ')} |`;
+}
+
+// テーブル名をキーにした行の配列。文字列はJSONと同じ書き方(YAMLのダブルクォート文字列として読める)で囲む
+function formatYaml(table: ExportTable): string {
+	const lines = [`${yamlKey(table.tableName)}:`];
+	table.rows.forEach(row => {
+		table.columns.forEach((column, index) => {
+			const value = toJSONValue(row[index]);
+			lines.push(`${index === 0 ? '  - ' : '    '}${yamlKey(column)}: ${value === null ? 'null' : JSON.stringify(value)}`);
+		});
+	});
+	if (table.rows.length === 0) {
+		lines[0] += ' []';
+	}
+	return lines.join('\n') + '\n';
+}
+
+function yamlKey(name: string): string {
+	return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : JSON.stringify(name);
+}
@@ -0,0 +1,82 @@
+// CSV・TSVの読み書き。表計算ソフトからの貼り付けやCSVの取り込みに使う
+// 拡張機能側とWebview側の両方から使うため、外部ライブラリに依存しない
+
+// ダブルクォートで囲んだフィールド(区切り文字・改行・"" を含められる)に対応して行とフィールドに分ける。空の行は含めない
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    // フィールドが始まったか(空の行と、空のフィールドが1つだけの行を区別するため)
+    let hasField = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"' && field === '') {
+            inQuotes = true;
+            hasField = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+            hasField = true;
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            if (hasField || field !== '') {
+                row.push(field);
+            }
+            // 空の行は読み飛ばす
+            if (row.length > 0) {
+                rows.push(row);
+            }
+            row = [];
+            field = '';
+            hasField = false;
+        } else {
+            field += char;
+            hasField = true;
+        }
+    }
+
+    if (hasField || field !== '') {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+// 1行目にタブがあればTSV、なければ一番多く出てくる区切り文字(カンマ・セミコロン)とみなす
+export function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    if (firstLine.includes('\t')) {
+        return '\t';
+    }
+    const commas = firstLine.split(',').length;
+    const semicolons = firstLine.split(';').length;
+    return semicolons > commas ? ';' : ',';
+}
+
+// 区切り文字・改行・ダブルクォートを含むフィールドだけを囲む(表計算ソフトにそのまま貼り付けられる形)
+export function formatDelimited(rows: string[][], delimiter: string): string {
+    return rows
+        .map(row => row.map(field => /["\r\n]/.test(field) || field.includes(delimiter)
+            ? `"${field.replace(/"/g, '""')}"`
+            : field
+        ).join(delimiter))
+        .join('\n');
+}
@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import {
+	SQLDialect,
+	DialectSource,
+	DEFAULT_DIALECT,
+	detectDialectFromHeader,
+	normalizeDialect
+} from './sqlDialect';
+
+// ファイルのSQL方言を決める(ヘッダーコメント > 拡張子の対応表 > 設定 > 既定値)
+export function resolveDialect(uri: vscode.Uri, sqlContent: string): { dialect: SQLDialect; source: DialectSource } {
+	const headerDialect = detectDialectFromHeader(sqlContent);
+	if (headerDialect) {
+		return { dialect: headerDialect, source: 'header' };
+	}
+
+	const config = vscode.workspace.getConfiguration('visualSql', uri);
+	const extensionMap = config.get<Record<string, string>>('dialectByExtension', {});
+	const fileName = uri.path.toLowerCase();
+	for (const [extension, name] of Object.entries(extensionMap)) {
+		const dialect = normalizeDialect(name);
+		if (dialect && fileName.endsWith(extension.toLowerCase())) {
+			return { dialect, source: 'extension' };
+		}
+	}
+
+	const configured = normalizeDialect(config.get<string>('dialect'));
+	const inspected = config.inspect<string>('dialect');
+	const isUserSet = inspected?.globalValue !== undefined
+		|| inspected?.workspaceValue !== undefined
+		|| inspected?.workspaceFolderValue !== undefined;
+	if (configured) {
+		return { dialect: configured, source: isUserSet ? 'setting' : 'default' };
+	}
+
+	return { dialect: DEFAULT_DIALECT, source: 'default' };
+}
@@ -2,6 +2,12 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
 import { SQLViewerProvider } from './sqlViewerProvider';
+import { SQLEditorProvider } from './sqlEditorProvider';
+import { SchemaIndex } from './schemaIndex';
+import { ParsedDocuments } from './parsedDocuments';
+import { CsvImporter } from './csvImport';
+import { DataExporter } from './dataExport';
+import { SQLDiagnostics } from './sqlDiagnostics';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -11,12 +17,100 @@ export function activate(context: vscode.ExtensionContext) {
 	// This line of code will only be executed once when your extension is activated
 	console.log('Congratulations, your extension "visual-sql" is now active!');
 
+	// ワークスペースのCREATE TABLE定義とINSERTされた行を収集する
+	const schemaIndex = new SchemaIndex();
+	context.subscriptions.push(schemaIndex);
+
+	// 開いているSQLファイルの解析結果(表示と問題パネルの検査で共有する)
+	const parsedDocuments = new ParsedDocuments();
+	context.subscriptions.push(parsedDocuments);
+
 	// SQL Viewer Providerを登録
-	const provider = new SQLViewerProvider(context.extensionUri);
+	const provider = new SQLViewerProvider(context.extensionUri, schemaIndex, parsedDocuments);
 	context.subscriptions.push(
 		vscode.window.registerWebviewViewProvider('visual-sql-viewer', provider)
 	);
 
+	// エディタのタブで表形式に開くカスタムエディタを登録
+	context.subscriptions.push(
+		vscode.window.registerCustomEditorProvider(
+			SQLEditorProvider.viewType,
+			new SQLEditorProvider(context.extensionUri, schemaIndex, parsedDocuments),
+			{ webviewOptions: { retainContextWhenHidden: true } }
+		)
+	);
+
+	// テキストと表の表示を切り替えるコマンド(エディタのタイトルバーにも表示する)
+	const activeSQLUri = (uri?: vscode.Uri): vscode.Uri | undefined => {
+		return uri ?? vscode.window.activeTextEditor?.document.uri ?? activeCustomEditorUri();
+	};
+	context.subscriptions.push(
+		vscode.commands.registerCommand('visual-sql.openTableView', (uri?: vscode.Uri) => {
+			const target = activeSQLUri(uri);
+			if (target) {
+				vscode.commands.executeCommand('vscode.openWith', target, SQLEditorProvider.viewType);
+			}
+		}),
+		vscode.commands.registerCommand('visual-sql.openTableViewToSide', (uri?: vscode.Uri) => {
+			const target = activeSQLUri(uri);
+			if (target) {
+				vscode.commands.executeCommand('vscode.openWith', target, SQLEditorProvider.viewType, vscode.ViewColumn.Beside);
+			}
+		}),
+		vscode.commands.registerCommand('visual-sql.openTextView', (uri?: vscode.Uri) => {
+			const target = activeSQLUri(uri);
+			if (target) {
+				vscode.commands.executeCommand('vscode.openWith', target, 'default');
+			}
+		}),
+		vscode.commands.registerCommand('visual-sql.openTextViewToSide', (uri?: vscode.Uri) => {
+			const target = activeSQLUri(uri);
+			if (target) {
+				vscode.commands.executeCommand('vscode.openWith', target, 'default', vscode.ViewColumn.Beside);
+			}
+		})
+	);
+
+	// CSV・TSVファイルをINSERT文として取り込むコマンド
+	const csvImporter = new CsvImporter(schemaIndex);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('visual-sql.importCsv', async (uri?: vscode.Uri) => {
+			const target = activeSQLUri(uri);
+			if (!target) {
+				vscode.window.showWarningMessage('取り込み先のSQLファイルを開いてから実行してください');
+				return;
+			}
+			await csvImporter.run(target);
+		})
+	);
+
+	// INSERT文の行をCSV・TSV・JSON・Markdown・YAMLとして書き出すコマンド
+	const dataExporter = new DataExporter(schemaIndex);
+	context.subscriptions.push(
+		vscode.commands.registerCommand('visual-sql.exportData', async (uri?: vscode.Uri) => {
+			const target = activeSQLUri(uri);
+			if (!target) {
+				vscode.window.showWarningMessage('書き出すSQLファイルを開いてから実行してください');
+				return;
+			}
+			await dataExporter.run(target);
+		})
+	);
+
+	// INSERTのカラム数と値の数の不一致を問題パネルに表示し、クイックフィックスを提供する
+	const diagnostics = new SQLDiagnostics(schemaIndex, parsedDocuments);
+	context.subscriptions.push(
+		diagnostics,
+		vscode.languages.registerCodeActionsProvider({ language: 'sql' }, diagnostics, {
+			providedCodeActionKinds: SQLDiagnostics.providedCodeActionKinds
+		})
+	);
+	diagnostics.checkAll();
+
+	// 他のファイルのテーブル定義や行が変わったら、型やWHERE句に一致する行の表示を更新する
+	context.subscriptions.push(schemaIndex.onDidChange(() => provider.refresh()));
+	schemaIndex.initialize();
+
 	// アクティブなエディタが変更されたときの処理
 	context.subscriptions.push(
 		vscode.window.onDidChangeActiveTextEditor(editor => {
@@ -30,7 +124,25 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(
 		vscode.workspace.onDidChangeTextDocument(event => {
 			if (event.document.languageId === 'sql') {
-				provider.updateWebview(event.document);
+				provider.scheduleUpdate(event.document);
+			}
+		})
+	);
+
+	// テキストエディタのカーソル位置を表に反映する
+	context.subscriptions.push(
+		vscode.window.onDidChangeTextEditorSelection(event => {
+			if (event.textEditor.document.languageId === 'sql') {
+				provider.updateSelection(event.textEditor.document, event.selections[0].active);
+			}
+		})
+	);
+
+	// SQL方言の設定が変更されたときの処理
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('visualSql')) {
+				provider.refresh();
 			}
 		})
 	);
@@ -42,5 +154,11 @@ export function activate(context: vscode.ExtensionContext) {
 	}
 }
 
+// アクティブなタブがカスタムエディタ(表形式)で開いたファイルなら、そのURIを返す
+function activeCustomEditorUri(): vscode.Uri | undefined {
+	const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+	return input instanceof vscode.TabInputCustom ? input.uri : undefined;
+}
+
 // This method is called when your extension is deactivated
 export function deactivate() {}
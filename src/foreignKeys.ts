@@ -0,0 +1,66 @@
+// CREATE TABLEのREFERENCES(カラムの指定とテーブル制約のFOREIGN KEY)から外部キーを求める
+// 拡張機能側(親テーブルの行を集める)とWebview側(セルの選択肢)の両方から使うため、外部ライブラリに依存しない
+import { unquoteIdentifier } from './sqlDialect';
+
+// テーブル名・カラム名1つ分(引用符で囲まれた名前を含む)
+const IDENTIFIER = /\s*("(?:[^"]|"")*"|`(?:[^`]|``)*`|\[[^\]]*\]|[^\s."`[\](),]+)\s*/y;
+
+// 1つのカラムから別のテーブルの1つのカラムへの参照(複合キーの外部キーは対象外)
+export interface ForeignKey {
+    column: string;
+    referencedTable: string;
+    // 省略されていれば(REFERENCES users)参照先の主キー
+    referencedColumn?: string;
+}
+
+// sqlParser.tsとwebview/types.tsのどちらの型も渡せるよう、使う項目だけを定義する
+interface ForeignKeySource {
+    columns: { name: string; references?: string }[];
+    constraints: { kind: string; columns: string[]; references?: string }[];
+}
+
+export function foreignKeysOf(table: ForeignKeySource): ForeignKey[] {
+    const foreignKeys: ForeignKey[] = [];
+    table.columns.forEach(column => {
+        const reference = column.references ? parseReference(column.references) : undefined;
+        if (reference && reference.columns.length <= 1) {
+            foreignKeys.push({ column: column.name, referencedTable: reference.table, referencedColumn: reference.columns[0] });
+        }
+    });
+    table.constraints.forEach(constraint => {
+        const reference = constraint.kind === 'foreign_key' && constraint.references ? parseReference(constraint.references) : undefined;
+        if (reference && constraint.columns.length === 1 && reference.columns.length <= 1) {
+            foreignKeys.push({ column: constraint.columns[0], referencedTable: reference.table, referencedColumn: reference.columns[0] });
+        }
+    });
+    return foreignKeys;
+}
+
+// REFERENCESの後ろの部分(例: users(id) ON DELETE CASCADE, "app"."users" ("id"))からテーブル名とカラム名を取り出す。
+// スキーマ名は除き、カラムが省略されていれば空の配列(参照先の主キーを指す)
+export function parseReference(text: string): { table: string; columns: string[] } | undefined {
+    const names: string[] = [];
+    let index = 0;
+    for (;;) {
+        IDENTIFIER.lastIndex = index;
+        const match = IDENTIFIER.exec(text);
+        if (!match) {
+            break;
+        }
+        names.push(unquoteIdentifier(match[1]));
+        index = IDENTIFIER.lastIndex;
+        if (text[index] !== '.') {
+            break;
+        }
+        index++;
+    }
+    if (names.length === 0) {
+        return undefined;
+    }
+
+    const columnList = /^\s*\(([^)]*)\)/.exec(text.slice(index));
+    return {
+        table: names[names.length - 1],
+        columns: columnList ? columnList[1].split(',').map(column => unquoteIdentifier(column.trim())).filter(Boolean) : []
+    };
+}
@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { SQLParser, ParsedSQLData } from './sqlParser';
+import { resolveDialect } from './dialectResolver';
+import { SQLDialect, DialectSource } from './sqlDialect';
+
+export interface ParsedDocument {
+	parsedData: ParsedSQLData;
+	dialect: SQLDialect;
+	source: DialectSource;
+}
+
+interface CacheEntry extends ParsedDocument {
+	version: number;
+}
+
+// 開いているSQLファイルの解析結果をドキュメントのバージョンごとに1つだけ持つ。
+// サイドバー、エディタのタブ、問題パネルの検査が同じ変更をそれぞれ解析し直さないようにする。
+// 解析結果は共有するので、使う側で書き換えてはいけない(編集するときはSQLParserで解析し直す)
+export class ParsedDocuments implements vscode.Disposable {
+	private _sqlParser = new SQLParser();
+	private _entries = new Map<string, CacheEntry>();
+	private _disposables: vscode.Disposable[] = [];
+
+	constructor() {
+		this._disposables.push(
+			vscode.workspace.onDidCloseTextDocument(document => this._entries.delete(document.uri.toString()))
+		);
+	}
+
+	public get(document: vscode.TextDocument): ParsedDocument {
+		const sqlContent = document.getText();
+		const { dialect, source } = resolveDialect(document.uri, sqlContent);
+		const key = document.uri.toString();
+		const cached = this._entries.get(key);
+		// 設定で方言が変わった場合は、同じバージョンでも解析し直す
+		if (cached && cached.version === document.version && cached.dialect === dialect) {
+			return { ...cached, source };
+		}
+
+		const parsedData = this._sqlParser.parseSQL(sqlContent, dialect);
+		this._entries.set(key, { version: document.version, parsedData, dialect, source });
+		return { parsedData, dialect, source };
+	}
+
+	public dispose(): void {
+		this._entries.clear();
+		this._disposables.forEach(disposable => disposable.dispose());
+	}
+}
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { ParsedStatement, ColumnDefinition } from './sqlParser';
+import { quoteIdentifier, formatStringLiteral } from './sqlDialect';
+import { SchemaIndex } from './schemaIndex';
+import { SQLValue, stringValue, numberValue, nullValue, expressionValue } from './sqlValue';
+
+export interface QueryPreviewResult {
+	columns: string[];
+	rows: SQLValue[][];
+	// MAX_PREVIEW_ROWSを超えた行を省略したか
+	truncated: boolean;
+	// 読み込めなかったCREATE TABLEやINSERTの説明
+	warnings: string[];
+	error?: string;
+}
+
+// Webviewに送る結果の最大行数
+const MAX_PREVIEW_ROWS = 1000;
+
+// ファイル内のCREATE TABLEとINSERTをSQLite(WASM)のメモリ上のデータベースに読み込み、SELECTを実行する
+export class QueryPreview {
+	private _engine: Promise<SqlJsStatic> | undefined;
+
+	constructor(
+		private readonly _extensionUri: vscode.Uri,
+		private readonly _schemaIndex: SchemaIndex
+	) {}
+
+	// selectIndexより前にあるCREATE TABLEとINSERTを順に読み込んでから、そのSELECTを実行する
+	public async run(uri: vscode.Uri, statements: ParsedStatement[], selectIndex: number): Promise<QueryPreviewResult> {
+		const engine = await this._loadEngine();
+		const db = new engine.Database();
+		const warnings: string[] = [];
+
+		try {
+			const createdTables = new Set<string>();
+			const createTable = (tableName: string, columns: ColumnDefinition[]) => {
+				this._execute(db, this._createTableSQL(tableName, columns), warnings, `CREATE TABLE ${tableName}`);
+				createdTables.add(tableName.toLowerCase());
+			};
+
+			db.run('BEGIN');
+			for (const statement of statements.slice(0, selectIndex)) {
+				if (statement.type === 'create_table' && statement.tableName) {
+					createTable(statement.tableName, statement.columnDefinitions || []);
+				} else if (statement.type === 'insert' && statement.tableName && statement.values) {
+					// ファイル内にCREATE TABLEがなければ、ワークスペースの定義かINSERTのカラムからテーブルを作る
+					if (!createdTables.has(statement.tableName.toLowerCase())) {
+						const schema = this._schemaIndex.getTable(statement.tableName, uri);
+						createTable(statement.tableName, schema?.columns
+							?? (statement.columns || []).map(name => ({ name, dataType: '', nullable: null, primaryKey: false, unique: false })));
+					}
+					this._insertRows(db, statement, warnings);
+				}
+			}
+			db.run('COMMIT');
+
+			const results = db.exec(statements[selectIndex].sql || '');
+			const result = results[results.length - 1];
+			if (!result) {
+				return { columns: [], rows: [], truncated: false, warnings };
+			}
+			return {
+				columns: result.columns,
+				rows: result.values.slice(0, MAX_PREVIEW_ROWS).map(row => row.map(value => this._toSQLValue(value))),
+				truncated: result.values.length > MAX_PREVIEW_ROWS,
+				warnings
+			};
+		} catch (error) {
+			return {
+				columns: [],
+				rows: [],
+				truncated: false,
+				warnings,
+				error: error instanceof Error ? error.message : String(error)
+			};
+		} finally {
+			db.close();
+		}
+	}
+
+	private _loadEngine(): Promise<SqlJsStatic> {
+		if (!this._engine) {
+			this._engine = (async () => {
+				const wasmUri = vscode.Uri.joinPath(this._extensionUri, 'node_modules', 'sql.js', 'dist', 'sql-wasm.wasm');
+				const wasm = await vscode.workspace.fs.readFile(wasmUri);
+				return initSqlJs({ wasmBinary: wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength) as ArrayBuffer });
+			})();
+			// 読み込みに失敗した場合は次回やり直す
+			this._engine.catch(() => {
+				this._engine = undefined;
+			});
+		}
+		return this._engine;
+	}
+
+	// 型名はSQLiteが受け付ける形(名前と数値の引数)だけを残し、制約は付けない
+	private _createTableSQL(tableName: string, columns: ColumnDefinition[]): string {
+		const columnDefinitions = columns.map(column => {
+			const dataType = column.dataType
+				.replace(/\(([^)]*)\)/g, (match, args: string) => /^\s*\d+\s*(,\s*\d+\s*)?$/.test(args) ? match : '')
+				.replace(/[^\w\s(),]/g, '')
+				.trim();
+			return `${quoteIdentifier(column.name, 'sqlite')}${dataType ? ` ${dataType}` : ''}`;
+		});
+		return `CREATE TABLE ${quoteIdentifier(tableName, 'sqlite')} (${columnDefinitions.join(', ')})`;
+	}
+
+	// 1行ずつ挿入し、失敗した行があっても残りの行は読み込む
+	private _insertRows(db: Database, statement: ParsedStatement, warnings: string[]): void {
+		const columnList = statement.columns && statement.columns.length > 0
+			? ` (${statement.columns.map(column => quoteIdentifier(column, 'sqlite')).join(', ')})`
+			: '';
+		const prefix = `INSERT INTO ${quoteIdentifier(statement.tableName!, 'sqlite')}${columnList} VALUES `;
+		statement.values!.forEach((row, rowIndex) => {
+			const values = row.map(value => this._formatValue(value)).join(', ');
+			this._execute(db, `${prefix}(${values})`, warnings, `INSERT INTO ${statement.tableName} の ${rowIndex + 1} 行目`);
+		});
+	}
+
+	private _execute(db: Database, sql: string, warnings: string[], description: string): void {
+		try {
+			db.run(sql);
+		} catch (error) {
+			warnings.push(`${description}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	private _formatValue(value: SQLValue): string {
+		switch (value.kind) {
+			case 'string':
+				return formatStringLiteral(value.value, 'sqlite');
+			case 'number':
+				return value.value;
+			case 'boolean':
+				return value.value ? '1' : '0';
+			case 'null':
+				return 'NULL';
+			case 'expression':
+				// SQLiteにはVALUES内のDEFAULTがないため、NULLとして読み込む
+				return /^default$/i.test(value.sql) ? 'NULL' : value.sql;
+		}
+	}
+
+	private _toSQLValue(value: SqlValue): SQLValue {
+		if (value === null) {
+			return nullValue();
+		}
+		if (typeof value === 'number') {
+			return numberValue(value);
+		}
+		if (typeof value === 'string') {
+			return stringValue(value);
+		}
+		return expressionValue(`X'${Array.from(value, byte => byte.toString(16).padStart(2, '0')).join('')}'`);
+	}
+}
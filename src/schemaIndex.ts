@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { SQLParser, ParsedStatement, ColumnDefinition, TableConstraint } from './sqlParser';
+import { resolveDialect } from './dialectResolver';
+import { SQLValue } from './sqlValue';
+
+// ワークスペース内のCREATE TABLEから集めたテーブル定義
+export interface TableSchema {
+	name: string;
+	columns: ColumnDefinition[];
+	constraints: TableConstraint[];
+	// 定義されているファイル
+	uri: string;
+}
+
+// ワークスペース内のINSERTから集めた行(1つのINSERT文ごと)
+export interface InsertedRows {
+	tableName: string;
+	// INSERTのカラムリスト。省略されていればテーブル定義のカラム
+	columns: string[];
+	rows: SQLValue[][];
+	// INSERTがあるファイル
+	uri: string;
+}
+
+// ワークスペースの.sqlファイルからCREATE TABLE定義とINSERTされた行を収集し、テーブル名で引けるようにする
+export class SchemaIndex implements vscode.Disposable {
+	private _tablesByFile = new Map<string, TableSchema[]>();
+	private _rowsByFile = new Map<string, InsertedRows[]>();
+	private _sqlParser = new SQLParser();
+	private _onDidChange = new vscode.EventEmitter<void>();
+	private _disposables: vscode.Disposable[] = [];
+
+	// 他のファイルの変更でテーブル定義や行が変わったときに通知する
+	public readonly onDidChange = this._onDidChange.event;
+
+	constructor() {
+		const watcher = vscode.workspace.createFileSystemWatcher('**/*.sql');
+		this._disposables.push(
+			watcher,
+			this._onDidChange,
+			watcher.onDidCreate(uri => this._indexFile(uri)),
+			watcher.onDidChange(uri => this._indexFile(uri)),
+			watcher.onDidDelete(uri => {
+				const hadTables = this._tablesByFile.delete(uri.toString());
+				const hadRows = this._rowsByFile.delete(uri.toString());
+				if (hadTables || hadRows) {
+					this._onDidChange.fire();
+				}
+			})
+		);
+	}
+
+	public async initialize(): Promise<void> {
+		const uris = await vscode.workspace.findFiles('**/*.sql', '**/node_modules/**');
+		await Promise.all(uris.map(uri => this._indexFile(uri, false)));
+		this._onDidChange.fire();
+	}
+
+	// 開いているドキュメントの解析結果で更新する(未保存の変更も反映するため)
+	public updateFromStatements(uri: vscode.Uri, statements: ParsedStatement[]): void {
+		this._tablesByFile.set(uri.toString(), this._toTableSchemas(uri, statements));
+		this._rowsByFile.set(uri.toString(), this._toInsertedRows(uri, statements));
+	}
+
+	// テーブル名(大文字小文字は区別しない)から定義を探す。同名の定義があれば指定したファイルのものを優先する
+	public getTable(tableName: string, preferredUri?: vscode.Uri): TableSchema | undefined {
+		const key = tableName.toLowerCase();
+		const preferred = preferredUri && this._tablesByFile.get(preferredUri.toString());
+		const found = preferred?.find(table => table.name.toLowerCase() === key);
+		if (found) {
+			return found;
+		}
+
+		for (const tables of this._tablesByFile.values()) {
+			const table = tables.find(candidate => candidate.name.toLowerCase() === key);
+			if (table) {
+				return table;
+			}
+		}
+		return undefined;
+	}
+
+	// テーブルにINSERTされた行を集める。excludeUriのファイルの行は含めない
+	public getInsertedRows(tableName: string, excludeUri?: vscode.Uri): InsertedRows[] {
+		const key = tableName.toLowerCase();
+		const excluded = excludeUri?.toString();
+		const result: InsertedRows[] = [];
+		for (const [uri, inserts] of this._rowsByFile) {
+			if (uri === excluded) {
+				continue;
+			}
+			inserts
+				.filter(insert => insert.tableName.toLowerCase() === key)
+				.forEach(insert => result.push(insert.columns.length > 0
+					? insert
+					: { ...insert, columns: this.getTable(insert.tableName, vscode.Uri.parse(uri))?.columns.map(column => column.name) || [] }));
+		}
+		return result;
+	}
+
+	public dispose(): void {
+		this._disposables.forEach(disposable => disposable.dispose());
+	}
+
+	private async _indexFile(uri: vscode.Uri, notify: boolean = true): Promise<void> {
+		try {
+			const content = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+			const { dialect } = resolveDialect(uri, content);
+			const statements = this._sqlParser.parseCreateTables(content, dialect);
+			this._tablesByFile.set(uri.toString(), this._toTableSchemas(uri, statements));
+			this._rowsByFile.set(uri.toString(), this._toInsertedRows(uri, this._sqlParser.parseInserts(content, dialect)));
+			if (notify) {
+				this._onDidChange.fire();
+			}
+		} catch (error) {
+			console.error('Failed to index SQL file:', uri.toString(), error);
+		}
+	}
+
+	private _toTableSchemas(uri: vscode.Uri, statements: ParsedStatement[]): TableSchema[] {
+		return statements
+			.filter(statement => statement.type === 'create_table' && statement.tableName)
+			.map(statement => ({
+				name: statement.tableName!,
+				columns: statement.columnDefinitions || [],
+				constraints: statement.tableConstraints || [],
+				uri: uri.toString()
+			}));
+	}
+
+	private _toInsertedRows(uri: vscode.Uri, statements: ParsedStatement[]): InsertedRows[] {
+		return statements
+			.filter(statement => statement.type === 'insert' && statement.tableName && statement.values)
+			.map(statement => ({
+				tableName: statement.tableName!,
+				columns: statement.columns || [],
+				rows: statement.values!,
+				uri: uri.toString()
+			}));
+	}
+}
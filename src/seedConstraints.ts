@@ -0,0 +1,300 @@
+// CREATE TABLEの主キー・UNIQUE・NOT NULLを使って、INSERTするデータ(シードデータ)の制約違反を探す
+// 拡張機能側(問題パネル)とWebview側(表の赤いセル)の両方から使うため、外部ライブラリに依存しない
+import { SQLValue, sqlValueToText } from './sqlValue';
+import { SQLExpression, EvaluationOptions, evaluateCondition } from './sqlExpression';
+import { SQLDialect, DEFAULT_DIALECT, comparesCaseInsensitively } from './sqlDialect';
+
+// 検査に使うカラム定義とテーブル定義(sqlParser.tsとwebview/types.tsのどちらの型も渡せるよう、使う項目だけを定義する)
+export interface ConstraintColumn {
+    name: string;
+    dataType?: string;
+    nullable: boolean | null;
+    primaryKey: boolean;
+    unique: boolean;
+    // AUTO_INCREMENT、IDENTITY、GENERATEDなどの指定
+    extra?: string;
+}
+
+export interface ConstraintTable {
+    columns: ConstraintColumn[];
+    constraints: { kind: string; columns: string[] }[];
+}
+
+export interface ConstraintStatement {
+    type: string;
+    tableName?: string;
+    columns?: string[];
+    values?: SQLValue[][];
+    columnDefinitions?: ConstraintColumn[];
+    tableConstraints?: { kind: string; columns: string[] }[];
+    // update/delete: WHERE句(conditionがなくwhereがあれば、WHERE句を解析できなかった)
+    where?: unknown;
+    condition?: SQLExpression;
+    // update: SET句のカラム名と値
+    data?: unknown[][];
+}
+
+export type ConstraintViolationKind = 'duplicate_key' | 'not_null' | 'unknown_column';
+
+export interface ConstraintViolation {
+    kind: ConstraintViolationKind;
+    // INSERTの文の番号
+    statementIndex: number;
+    // 行の番号(unknown_columnはカラムリストの問題なので未設定)
+    rowIndex?: number;
+    // INSERTのカラムリストでの番号(複合キーの重複では複数)
+    columnIndexes: number[];
+    message: string;
+}
+
+// 主キーまたはUNIQUE制約のカラムの組
+interface UniqueKey {
+    label: string;
+    columns: string[];
+}
+
+// これまでにINSERTされた行(後のDELETE・UPDATEで、重複の判定から外すため行の値も持つ)
+interface InsertedRow {
+    statementIndex: number;
+    rowIndex: number;
+    columns: string[];
+    values: SQLValue[];
+    // 主キー・UNIQUEごとの値(キーの値が決まらない場合は未設定)
+    keys: (string | undefined)[];
+}
+
+// テーブルごとの、INSERTされた行とキーの値から行を引く表
+interface TableState {
+    uniqueKeys: UniqueKey[];
+    rows: InsertedRow[];
+    keyIndex: Map<string, InsertedRow>;
+}
+
+// getTable: ファイル内にCREATE TABLEがないテーブルの定義を返す(ワークスペースの他のファイルなど)
+export function findConstraintViolations(
+    statements: ConstraintStatement[],
+    getTable: (tableName: string) => ConstraintTable | undefined,
+    dialect: SQLDialect = DEFAULT_DIALECT
+): ConstraintViolation[] {
+    const options: EvaluationOptions = { ignoreCase: comparesCaseInsensitively(dialect) };
+    const violations: ConstraintViolation[] = [];
+    const states = new Map<string, TableState>();
+
+    // 同じファイルのCREATE TABLEを優先する
+    const findTable = (tableName: string): ConstraintTable | undefined => {
+        const key = tableName.toLowerCase();
+        const created = statements.find(statement => statement.type === 'create_table' && statement.tableName?.toLowerCase() === key);
+        return created
+            ? { columns: created.columnDefinitions || [], constraints: created.tableConstraints || [] }
+            : getTable(tableName);
+    };
+
+    const getState = (tableName: string, table: ConstraintTable): TableState => {
+        const key = tableName.toLowerCase();
+        let state = states.get(key);
+        if (!state) {
+            state = { uniqueKeys: uniqueKeysOf(table), rows: [], keyIndex: new Map() };
+            states.set(key, state);
+        }
+        return state;
+    };
+
+    statements.forEach((statement, statementIndex) => {
+        if (!statement.tableName) {
+            return;
+        }
+        const tableName = statement.tableName;
+        if (statement.type === 'create_table') {
+            // 作り直したテーブルは空から数え直す
+            states.delete(tableName.toLowerCase());
+            return;
+        }
+        const state = states.get(tableName.toLowerCase());
+        if (statement.type === 'delete' && state) {
+            forgetRows(state, statement, options);
+            return;
+        }
+        if (statement.type === 'update' && state) {
+            // キーのカラムを変更するUPDATEは新しい値が分からないため、対象の行を重複の判定から外す
+            const assigned = new Set((statement.data || []).map(([column]) => String(column).toLowerCase()));
+            if (state.uniqueKeys.some(uniqueKey => uniqueKey.columns.some(column => assigned.has(column.toLowerCase())))) {
+                forgetRows(state, statement, options);
+            }
+            return;
+        }
+        if (statement.type !== 'insert' || !statement.values) {
+            return;
+        }
+
+        const table = findTable(tableName);
+        if (!table || table.columns.length === 0) {
+            return;
+        }
+        violations.push(...checkInsert(statement, statementIndex, table, getState(tableName, table)));
+    });
+
+    return violations;
+}
+
+function checkInsert(statement: ConstraintStatement, statementIndex: number, table: ConstraintTable, state: TableState): ConstraintViolation[] {
+    const violations: ConstraintViolation[] = [];
+    const definedColumns = new Map(table.columns.map(column => [column.name.toLowerCase(), column]));
+    const hasColumnList = !!statement.columns && statement.columns.length > 0;
+    const columns = hasColumnList ? statement.columns! : table.columns.map(column => column.name);
+
+    if (hasColumnList) {
+        columns.forEach((column, columnIndex) => {
+            if (!definedColumns.has(column.toLowerCase())) {
+                violations.push({
+                    kind: 'unknown_column',
+                    statementIndex,
+                    columnIndexes: [columnIndex],
+                    message: `テーブル ${statement.tableName} にカラム ${column} がありません`
+                });
+            }
+        });
+    }
+
+    const notNull = columns.map(column => {
+        const definition = definedColumns.get(column.toLowerCase());
+        return !!definition && rejectsNull(definition, table);
+    });
+    const keyPositions = state.uniqueKeys.map(uniqueKey => uniqueKey.columns.map(column => columns.findIndex(candidate => candidate.toLowerCase() === column.toLowerCase())));
+
+    statement.values!.forEach((row, rowIndex) => {
+        // 値の数がカラム数と合わない行は、どの値がどのカラムか分からないため比べない(別の診断で報告する)
+        if (row.length !== columns.length) {
+            return;
+        }
+        row.forEach((value, columnIndex) => {
+            if (notNull[columnIndex] && value.kind === 'null') {
+                violations.push({
+                    kind: 'not_null',
+                    statementIndex,
+                    rowIndex,
+                    columnIndexes: [columnIndex],
+                    message: `カラム ${columns[columnIndex]} は NOT NULL ですが、NULL が入っています`
+                });
+            }
+        });
+
+        const inserted: InsertedRow = { statementIndex, rowIndex, columns, values: row, keys: [] };
+        state.uniqueKeys.forEach((uniqueKey, keyIndex) => {
+            const positions = keyPositions[keyIndex];
+            const key = keyText(keyIndex, positions.map(position => position === -1 ? undefined : row[position]));
+            if (key === undefined) {
+                return;
+            }
+            const existing = state.keyIndex.get(key);
+            if (existing) {
+                violations.push({
+                    kind: 'duplicate_key',
+                    statementIndex,
+                    rowIndex,
+                    columnIndexes: positions,
+                    message: `${uniqueKey.label} (${uniqueKey.columns.join(', ')}) の値 ${positions.map(position => sqlValueToText(row[position])).join(', ')} が重複しています`
+                        + `(#${existing.statementIndex + 1} の ${existing.rowIndex + 1} 行目と同じ)`
+                });
+                return;
+            }
+            inserted.keys[keyIndex] = key;
+            state.keyIndex.set(key, inserted);
+        });
+        state.rows.push(inserted);
+    });
+
+    return violations;
+}
+
+// 値が自動で決まるカラムの指定と型(NULLを入れると採番される)
+const AUTO_GENERATED_PATTERN = /\b(AUTO_INCREMENT|AUTOINCREMENT|IDENTITY|GENERATED)\b/i;
+const SERIAL_TYPE_PATTERN = /^(small|big)?serial\d*$/i;
+
+// NULLを入れられないカラムか(NOT NULLと主キー)。自動採番のカラム(AUTO_INCREMENT、IDENTITY、SERIAL、
+// SQLiteのINTEGER PRIMARY KEY)は、NULLを入れると値が決まるので除く
+export function rejectsNull(column: ConstraintColumn, table: ConstraintTable): boolean {
+    const name = column.name.toLowerCase();
+    const primaryKey = column.primaryKey
+        ? [column.name]
+        : table.constraints.find(constraint => constraint.kind === 'primary_key' && constraint.columns.some(key => key.toLowerCase() === name))?.columns;
+    const dataType = column.dataType?.trim() ?? '';
+    const autoGenerated = AUTO_GENERATED_PATTERN.test(column.extra ?? '') || AUTO_GENERATED_PATTERN.test(dataType)
+        || SERIAL_TYPE_PATTERN.test(dataType)
+        || (primaryKey?.length === 1 && /^integer$/i.test(dataType));
+    return !autoGenerated && (column.nullable === false || !!primaryKey);
+}
+
+// カラム定義の PRIMARY KEY・UNIQUE と、テーブル制約の PRIMARY KEY (a, b)・UNIQUE (a, b)
+function uniqueKeysOf(table: ConstraintTable): UniqueKey[] {
+    const uniqueKeys: UniqueKey[] = [];
+    const primaryKey = table.columns.filter(column => column.primaryKey).map(column => column.name);
+    if (primaryKey.length > 0) {
+        uniqueKeys.push({ label: '主キー', columns: primaryKey });
+    }
+    table.columns
+        .filter(column => column.unique && !column.primaryKey)
+        .forEach(column => uniqueKeys.push({ label: 'UNIQUE', columns: [column.name] }));
+    table.constraints.forEach(constraint => {
+        if ((constraint.kind === 'primary_key' || constraint.kind === 'unique') && constraint.columns.length > 0) {
+            uniqueKeys.push({ label: constraint.kind === 'primary_key' ? '主キー' : 'UNIQUE', columns: constraint.columns });
+        }
+    });
+    return uniqueKeys;
+}
+
+// 重複を比べるためのキーの値。カラムが省略された行(DEFAULTや自動採番)・NULL・SQL式を含む行は比べない
+function keyText(keyIndex: number, values: (SQLValue | undefined)[]): string | undefined {
+    const parts: string[] = [];
+    for (const value of values) {
+        const part = value && valueKey(value);
+        if (part === undefined) {
+            return undefined;
+        }
+        parts.push(part);
+    }
+    return JSON.stringify([keyIndex, ...parts]);
+}
+
+// キーとして比べるための値の文字列(外部キーの親の行を探すときにも使う)。NULLとSQL式は比べられないためundefined
+export function valueKey(value: SQLValue): string | undefined {
+    switch (value.kind) {
+        case 'null':
+        case 'expression':
+            return undefined;
+        case 'number': {
+            // 1 と 1.0 や 01 を同じ値として扱う(精度が落ちる大きな値は書かれたとおりに比べる)
+            const number = Number(value.value);
+            return Number.isFinite(number) && Math.abs(number) <= Number.MAX_SAFE_INTEGER ? `n:${number}` : `n:${value.value}`;
+        }
+        case 'boolean':
+            return `n:${value.value ? 1 : 0}`;
+        case 'string':
+            return `s:${value.value}`;
+    }
+}
+
+// DELETE(またはキーを変更するUPDATE)の対象の行を、重複の判定から外す。WHERE句を評価できない行も外す(誤って重複としないように)
+function forgetRows(state: TableState, statement: ConstraintStatement, options: EvaluationOptions): void {
+    const condition = statement.condition;
+    // WHERE句がない(または解析できなかった)文は、すべての行を対象にする
+    const remaining = !condition
+        ? []
+        : state.rows.filter(row => {
+            try {
+                return !evaluateCondition(condition, column => {
+                    const position = row.columns.findIndex(candidate => candidate.toLowerCase() === column.toLowerCase());
+                    return position === -1 ? undefined : row.values[position];
+                }, options);
+            } catch {
+                return false;
+            }
+        });
+
+    state.rows = remaining;
+    state.keyIndex = new Map();
+    remaining.forEach(row => row.keys.forEach(key => {
+        if (key !== undefined) {
+            state.keyIndex.set(key, row);
+        }
+    }));
+}
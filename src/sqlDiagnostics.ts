@@ -0,0 +1,250 @@
+import * as vscode from 'vscode';
+import { ParsedStatement, SourceRange } from './sqlParser';
+import { SchemaIndex } from './schemaIndex';
+import { ParsedDocuments } from './parsedDocuments';
+import { ConstraintViolation, ConstraintViolationKind, findConstraintViolations } from './seedConstraints';
+
+// 診断のcode。クイックフィックスの種類を選ぶために使う
+export const COLUMN_COUNT_MISMATCH = 'column-count-mismatch';
+const CONSTRAINT_CODES: Record<ConstraintViolationKind, string> = {
+	duplicate_key: 'duplicate-key',
+	not_null: 'not-null',
+	unknown_column: 'unknown-column'
+};
+
+// この文字数を超えるファイルは、入力が落ち着いてから検査し直す
+const LARGE_DOCUMENT_LENGTH = 200_000;
+const LARGE_DOCUMENT_DELAY_MS = 500;
+
+// INSERTの行の値の数がカラム数と合わない箇所と、修正に必要な位置
+interface ColumnCountMismatch {
+	diagnostic: vscode.Diagnostic;
+	// カラム数(カラムリストを省略したINSERTではテーブル定義のカラム数)と、行の値の数
+	expected: number;
+	actual: number;
+	// 行の括弧を含む範囲と、各値の範囲
+	rowRange: SourceRange;
+	valueRanges: SourceRange[];
+	// カラムリストの括弧を含む範囲(カラムリストを省略したINSERTでは未設定)
+	columnsRange?: SourceRange;
+	columns: string[];
+}
+
+// 最後に検査したときのドキュメントのバージョンと、見つかった不一致
+interface DocumentCheck {
+	version: number;
+	mismatches: ColumnCountMismatch[];
+}
+
+// SQLファイルのINSERTを検査し、問題パネルに表示する(値の数の不一致と、主キー・UNIQUE・NOT NULLの違反、ないカラム)。
+// 値を補ったり削ったりはせず、クイックフィックスで選んでもらう
+export class SQLDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+	public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+	private _collection = vscode.languages.createDiagnosticCollection('visual-sql');
+	private _checks = new Map<string, DocumentCheck>();
+	private _timers = new Map<string, ReturnType<typeof setTimeout>>();
+	private _disposables: vscode.Disposable[] = [];
+
+	constructor(
+		private readonly _schemaIndex: SchemaIndex,
+		private readonly _parsedDocuments: ParsedDocuments
+	) {
+		this._disposables.push(
+			this._collection,
+			vscode.workspace.onDidOpenTextDocument(document => this._schedule(document)),
+			vscode.workspace.onDidChangeTextDocument(event => this._schedule(event.document)),
+			vscode.workspace.onDidCloseTextDocument(document => {
+				this._cancel(document.uri);
+				this._collection.delete(document.uri);
+				this._checks.delete(document.uri.toString());
+			}),
+			// カラムリストを省略したINSERTは、他のファイルのテーブル定義と比べるため
+			this._schemaIndex.onDidChange(() => this.checkAll())
+		);
+	}
+
+	// 開いているすべてのSQLファイルを検査する
+	public checkAll(): void {
+		vscode.workspace.textDocuments.forEach(document => this._schedule(document));
+	}
+
+	public provideCodeActions(
+		document: vscode.TextDocument,
+		_range: vscode.Range | vscode.Selection,
+		context: vscode.CodeActionContext
+	): vscode.CodeAction[] {
+		const check = this._checks.get(document.uri.toString());
+		if (!check || check.version !== document.version) {
+			return [];
+		}
+
+		const actions: vscode.CodeAction[] = [];
+		context.diagnostics
+			.filter(diagnostic => diagnostic.code === COLUMN_COUNT_MISMATCH)
+			.forEach(diagnostic => {
+				const mismatch = check.mismatches.find(candidate => candidate.diagnostic.range.isEqual(diagnostic.range));
+				if (mismatch) {
+					actions.push(...this._createFixes(document, mismatch));
+				}
+			});
+		return actions;
+	}
+
+	public dispose(): void {
+		this._timers.forEach(timer => clearTimeout(timer));
+		this._disposables.forEach(disposable => disposable.dispose());
+	}
+
+	private _schedule(document: vscode.TextDocument): void {
+		if (document.languageId !== 'sql') {
+			return;
+		}
+		this._cancel(document.uri);
+		if (document.getText().length <= LARGE_DOCUMENT_LENGTH) {
+			this._check(document);
+			return;
+		}
+		this._timers.set(document.uri.toString(), setTimeout(() => {
+			this._timers.delete(document.uri.toString());
+			this._check(document);
+		}, LARGE_DOCUMENT_DELAY_MS));
+	}
+
+	private _cancel(uri: vscode.Uri): void {
+		const timer = this._timers.get(uri.toString());
+		if (timer) {
+			clearTimeout(timer);
+			this._timers.delete(uri.toString());
+		}
+	}
+
+	private _check(document: vscode.TextDocument): void {
+		if (document.isClosed) {
+			return;
+		}
+		const { parsedData } = this._parsedDocuments.get(document);
+		const mismatches = parsedData.statements.flatMap(statement => this._findColumnCountMismatches(document, statement, parsedData.statements));
+		const violations = findConstraintViolations(parsedData.statements, tableName => this._schemaIndex.getTable(tableName, document.uri), parsedData.dialect)
+			.map(violation => this._toDiagnostic(document, parsedData.statements[violation.statementIndex], violation))
+			.filter((diagnostic): diagnostic is vscode.Diagnostic => !!diagnostic);
+
+		this._checks.set(document.uri.toString(), { version: document.version, mismatches });
+		this._collection.set(document.uri, [...mismatches.map(mismatch => mismatch.diagnostic), ...violations]);
+	}
+
+	// 違反した値(複合キーでは行全体、ないカラムはカラム名)に診断を付ける
+	private _toDiagnostic(document: vscode.TextDocument, statement: ParsedStatement, violation: ConstraintViolation): vscode.Diagnostic | undefined {
+		const range = violation.rowIndex === undefined
+			? statement.columnRanges?.[violation.columnIndexes[0]]
+			: violation.columnIndexes.length === 1
+				? statement.valueRanges?.[violation.rowIndex]?.[violation.columnIndexes[0]]
+				: statement.rowRanges?.[violation.rowIndex];
+		if (!range) {
+			return undefined;
+		}
+		const diagnostic = new vscode.Diagnostic(
+			new vscode.Range(document.positionAt(range.start), document.positionAt(range.end)),
+			violation.message,
+			vscode.DiagnosticSeverity.Error
+		);
+		diagnostic.source = 'Visual SQL';
+		diagnostic.code = CONSTRAINT_CODES[violation.kind];
+		return diagnostic;
+	}
+
+	// カラムリスト(省略されていればテーブル定義のカラム)と値の数が合わない行を探す
+	private _findColumnCountMismatches(document: vscode.TextDocument, statement: ParsedStatement, statements: ParsedStatement[]): ColumnCountMismatch[] {
+		if (statement.type !== 'insert' || !statement.values || !statement.rowRanges || !statement.valueRanges) {
+			return [];
+		}
+
+		let columns = statement.columns || [];
+		if (columns.length === 0 && statement.tableName) {
+			const key = statement.tableName.toLowerCase();
+			const definitions = statements.find(candidate => candidate.type === 'create_table' && candidate.tableName?.toLowerCase() === key)?.columnDefinitions
+				?? this._schemaIndex.getTable(statement.tableName, document.uri)?.columns;
+			columns = definitions?.map(definition => definition.name) ?? [];
+		}
+		if (columns.length === 0) {
+			return [];
+		}
+
+		const mismatches: ColumnCountMismatch[] = [];
+		statement.values.forEach((row, rowIndex) => {
+			if (row.length === columns.length) {
+				return;
+			}
+			const rowRange = statement.rowRanges![rowIndex];
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(document.positionAt(rowRange.start), document.positionAt(rowRange.end)),
+				row.length > columns.length
+					? `値が ${row.length} 個ありますが、カラムは ${columns.length} 個です(${row.length - columns.length} 個多い)`
+					: `値が ${row.length} 個しかありませんが、カラムは ${columns.length} 個です(${columns.length - row.length} 個足りない)`,
+				vscode.DiagnosticSeverity.Error
+			);
+			diagnostic.source = 'Visual SQL';
+			diagnostic.code = COLUMN_COUNT_MISMATCH;
+			mismatches.push({
+				diagnostic,
+				expected: columns.length,
+				actual: row.length,
+				rowRange,
+				valueRanges: statement.valueRanges![rowIndex],
+				columnsRange: statement.columnsRange,
+				columns
+			});
+		});
+		return mismatches;
+	}
+
+	// 足りない行はNULL・DEFAULTで埋め、多い行は余分な値を削除するか、カラムリストにカラムを追加する
+	private _createFixes(document: vscode.TextDocument, mismatch: ColumnCountMismatch): vscode.CodeAction[] {
+		const { expected, actual, rowRange, valueRanges, columnsRange, columns } = mismatch;
+		const createFix = (title: string, edit: (edit: vscode.WorkspaceEdit) => void, isPreferred = false) => {
+			const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+			action.diagnostics = [mismatch.diagnostic];
+			action.edit = new vscode.WorkspaceEdit();
+			action.isPreferred = isPreferred;
+			edit(action.edit);
+			return action;
+		};
+		// 最後の値の直後(値の範囲が分からなければ行の閉じ括弧の直前)
+		const rowEnd = document.positionAt(valueRanges.length === actual ? valueRanges[actual - 1].end : rowRange.end - 1);
+
+		if (actual < expected) {
+			const missing = expected - actual;
+			return ['NULL', 'DEFAULT'].map((keyword, index) => createFix(
+				`足りない ${missing} 個の値を ${keyword} で埋める`,
+				edit => edit.insert(document.uri, rowEnd, `, ${keyword}`.repeat(missing)),
+				index === 0
+			));
+		}
+
+		const fixes: vscode.CodeAction[] = [];
+		if (valueRanges.length === actual) {
+			fixes.push(createFix(
+				`余分な ${actual - expected} 個の値を削除する`,
+				edit => edit.delete(document.uri, new vscode.Range(
+					document.positionAt(valueRanges[expected - 1].end),
+					document.positionAt(valueRanges[actual - 1].end)
+				))
+			));
+		}
+		if (columnsRange) {
+			// 新しいカラム名は表の「+ カラム」と同じく column1, column2, ... から使われていないものを選ぶ
+			const used = new Set(columns.map(column => column.toLowerCase()));
+			const names: string[] = [];
+			for (let counter = 1; names.length < actual - expected; counter++) {
+				if (!used.has(`column${counter}`)) {
+					names.push(`column${counter}`);
+				}
+			}
+			fixes.push(createFix(
+				`カラムリストにカラムを ${names.length} 個追加する(${names.join(', ')})`,
+				edit => edit.insert(document.uri, document.positionAt(columnsRange.end - 1), names.map(name => `, ${name}`).join(''))
+			));
+		}
+		return fixes;
+	}
+}
@@ -0,0 +1,172 @@
+import type { SQLValue } from './sqlValue';
+
+// node-sql-parserのdatabaseオプションに対応するSQL方言
+export type SQLDialect =
+    | 'mysql'
+    | 'mariadb'
+    | 'postgresql'
+    | 'sqlite'
+    | 'bigquery'
+    | 'transactsql'
+    | 'snowflake'
+    | 'redshift';
+
+// 方言がどこで決まったか
+export type DialectSource = 'header' | 'extension' | 'setting' | 'default';
+
+export const DEFAULT_DIALECT: SQLDialect = 'mysql';
+
+interface DialectDefinition {
+    label: string;
+    // 識別子を囲む引用符(開き, 閉じ)
+    identifierQuotes: [string, string];
+    // 文字列リテラル内でバックスラッシュをエスケープ文字として扱うか
+    backslashEscapes: boolean;
+    // TRUE/FALSEリテラルがない方言では1/0で書き出す
+    booleanLiterals: boolean;
+    // 引用符なしの識別子を小文字にそろえる方言では、大文字を含む名前は引用符なしだと別の名前になる。
+    // (Snowflakeは大文字にそろえるが、小文字で書いた名前まで引用符で囲むと読みにくいので対象にしない)
+    foldsToLowerCase?: boolean;
+    // 既定の照合順序で文字列を大文字小文字を区別せずに比べる(=、IN、LIKEなど)
+    ignoresCase?: boolean;
+}
+
+const DIALECTS: Record<SQLDialect, DialectDefinition> = {
+    mysql: { label: 'MySQL', identifierQuotes: ['`', '`'], backslashEscapes: true, booleanLiterals: true, ignoresCase: true },
+    mariadb: { label: 'MariaDB', identifierQuotes: ['`', '`'], backslashEscapes: true, booleanLiterals: true, ignoresCase: true },
+    postgresql: { label: 'PostgreSQL', identifierQuotes: ['"', '"'], backslashEscapes: false, booleanLiterals: true, foldsToLowerCase: true },
+    sqlite: { label: 'SQLite', identifierQuotes: ['"', '"'], backslashEscapes: false, booleanLiterals: true },
+    bigquery: { label: 'BigQuery', identifierQuotes: ['`', '`'], backslashEscapes: true, booleanLiterals: true },
+    transactsql: { label: 'SQL Server', identifierQuotes: ['[', ']'], backslashEscapes: false, booleanLiterals: false, ignoresCase: true },
+    snowflake: { label: 'Snowflake', identifierQuotes: ['"', '"'], backslashEscapes: true, booleanLiterals: true },
+    redshift: { label: 'Redshift', identifierQuotes: ['"', '"'], backslashEscapes: false, booleanLiterals: true, foldsToLowerCase: true }
+};
+
+// ヘッダーコメントで使える別名
+const DIALECT_ALIASES: Record<string, SQLDialect> = {
+    postgres: 'postgresql',
+    pg: 'postgresql',
+    psql: 'postgresql',
+    sqlite3: 'sqlite',
+    mssql: 'transactsql',
+    sqlserver: 'transactsql',
+    tsql: 'transactsql'
+};
+
+// 引用符なしで書ける識別子として扱わない予約語
+const RESERVED_WORDS = new Set([
+    'all', 'and', 'as', 'between', 'by', 'case', 'check', 'column', 'constraint', 'create', 'default',
+    'delete', 'desc', 'distinct', 'drop', 'else', 'end', 'exists', 'foreign', 'from', 'group', 'having',
+    'in', 'index', 'insert', 'into', 'is', 'join', 'key', 'like', 'limit', 'not', 'null', 'on', 'or',
+    'order', 'primary', 'references', 'select', 'set', 'table', 'then', 'to', 'union', 'unique',
+    'update', 'user', 'using', 'values', 'when', 'where', 'with'
+]);
+
+export const SUPPORTED_DIALECTS = Object.keys(DIALECTS) as SQLDialect[];
+
+// 方言名(別名を含む)を正規化する。未知の名前はundefined
+export function normalizeDialect(name: string | undefined): SQLDialect | undefined {
+    if (!name) {
+        return undefined;
+    }
+
+    const key = name.trim().toLowerCase();
+    if (key in DIALECTS) {
+        return key as SQLDialect;
+    }
+    return DIALECT_ALIASES[key];
+}
+
+// ファイル先頭のコメント1つ分(前の空白や空行を含む)
+const LEADING_COMMENT = /\s*(--[^\n]*|\/\*[\s\S]*?(?:\*\/|$))/y;
+const DIALECT_DIRECTIVE = /^(?:--|\/\*)[ \t]*visual-sql:[ \t]*dialect[ \t]*=[ \t]*([\w-]+)/i;
+
+// `-- visual-sql: dialect=postgresql` のようなヘッダーコメントから方言を読み取る
+// 最初の文より前のコメントだけを見る(文の間や文字列の中にある同じ形の行は指定とみなさない)
+export function detectDialectFromHeader(sql: string): SQLDialect | undefined {
+    let index = 0;
+    for (;;) {
+        LEADING_COMMENT.lastIndex = index;
+        const comment = LEADING_COMMENT.exec(sql);
+        if (!comment) {
+            return undefined;
+        }
+        const match = DIALECT_DIRECTIVE.exec(comment[1]);
+        if (match) {
+            return normalizeDialect(match[1]);
+        }
+        index = LEADING_COMMENT.lastIndex;
+    }
+}
+
+export function getDialectLabel(dialect: SQLDialect): string {
+    return DIALECTS[dialect].label;
+}
+
+export function usesBackslashEscapes(dialect: SQLDialect): boolean {
+    return DIALECTS[dialect].backslashEscapes;
+}
+
+// WHERE句を評価するときに文字列を大文字小文字を区別せずに比べるか(カラムごとの照合順序の指定は見ない)
+export function comparesCaseInsensitively(dialect: SQLDialect): boolean {
+    return DIALECTS[dialect].ignoresCase === true;
+}
+
+// DELIMITERディレクティブはMySQLクライアント(MariaDBを含む)の構文
+export function usesDelimiterDirective(dialect: SQLDialect): boolean {
+    return dialect === 'mysql' || dialect === 'mariadb';
+}
+
+// 必要な場合だけ識別子を方言の引用符で囲む。alwaysなら(元のSQLで引用符付きだった識別子など)常に囲む
+export function quoteIdentifier(name: string, dialect: SQLDialect, always = false): string {
+    const folded = DIALECTS[dialect].foldsToLowerCase ? name.toLowerCase() : name;
+    if (!always && name === folded && /^[A-Za-z_][A-Za-z0-9_$]*$/.test(name) && !RESERVED_WORDS.has(name.toLowerCase())) {
+        return name;
+    }
+
+    const [open, close] = DIALECTS[dialect].identifierQuotes;
+    return `${open}${name.split(close).join(close + close)}${close}`;
+}
+
+// 引用符で囲まれた識別子("name", `name`, [name])から引用符を外す
+export function unquoteIdentifier(text: string): string {
+    const pairs: Record<string, string> = { '"': '"', '`': '`', '[': ']' };
+    const close = pairs[text[0]];
+    if (close && text.length >= 2 && text.endsWith(close)) {
+        return text.slice(1, -1).split(close + close).join(close);
+    }
+    return text;
+}
+
+// 文字列リテラルを書き出す。バックスラッシュをエスケープ文字として扱う方言ではバックスラッシュもエスケープする
+export function formatStringLiteral(value: string, dialect: SQLDialect): string {
+    const escaped = DIALECTS[dialect].backslashEscapes ? value.replace(/\\/g, '\\\\') : value;
+    return `'${escaped.replace(/'/g, "''")}'`;
+}
+
+export function formatBooleanLiteral(value: boolean, dialect: SQLDialect): string {
+    if (!DIALECTS[dialect].booleanLiterals) {
+        return value ? '1' : '0';
+    }
+    return value ? 'TRUE' : 'FALSE';
+}
+
+// 値をSQLのリテラルとして書き出す。元のテキストがある値(編集されていない値)はそのまま書き戻す
+export function formatSQLValue(value: SQLValue, dialect: SQLDialect): string {
+    if (value.sql !== undefined) {
+        return value.sql;
+    }
+
+    switch (value.kind) {
+        case 'string':
+            return formatStringLiteral(value.value, dialect);
+        case 'number':
+            return value.value;
+        case 'boolean':
+            return formatBooleanLiteral(value.value, dialect);
+        case 'null':
+            return 'NULL';
+        case 'expression':
+            return value.sql;
+    }
+}
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { SQLViewerProvider } from './sqlViewerProvider';
+import { SchemaIndex } from './schemaIndex';
+import { ParsedDocuments } from './parsedDocuments';
+
+// 「Open With… Visual SQL」で.sqlファイルをエディタのタブに表形式で開く。
+// 表示と編集はサイドバーと同じSQLViewerProviderが行い、同じTextDocumentに書き込む
+export class SQLEditorProvider implements vscode.CustomTextEditorProvider {
+	public static readonly viewType = 'visual-sql.tableEditor';
+
+	constructor(
+		private readonly _extensionUri: vscode.Uri,
+		private readonly _schemaIndex: SchemaIndex,
+		private readonly _parsedDocuments: ParsedDocuments
+	) {}
+
+	public resolveCustomTextEditor(
+		document: vscode.TextDocument,
+		webviewPanel: vscode.WebviewPanel,
+		_token: vscode.CancellationToken
+	): void {
+		const viewer = new SQLViewerProvider(this._extensionUri, this._schemaIndex, this._parsedDocuments, document);
+
+		const disposables: vscode.Disposable[] = [
+			viewer.resolveWebview(webviewPanel.webview),
+			// テキストエディタでの変更やUndoを表に反映する
+			vscode.workspace.onDidChangeTextDocument(event => {
+				if (event.document.uri.toString() === document.uri.toString()) {
+					viewer.scheduleUpdate(event.document);
+				}
+			}),
+			// テキストエディタ(横に開いたものなど)のカーソル位置を表に反映する
+			vscode.window.onDidChangeTextEditorSelection(event => {
+				if (event.textEditor.document.uri.toString() === document.uri.toString()) {
+					viewer.updateSelection(event.textEditor.document, event.selections[0].active);
+				}
+			}),
+			this._schemaIndex.onDidChange(() => viewer.refresh()),
+			vscode.workspace.onDidChangeConfiguration(event => {
+				if (event.affectsConfiguration('visualSql')) {
+					viewer.refresh();
+				}
+			})
+		];
+
+		webviewPanel.onDidDispose(() => {
+			disposables.forEach(disposable => disposable.dispose());
+		});
+	}
+}
@@ -0,0 +1,311 @@
+// WHERE句やSET句の式の木。SQLParserがnode-sql-parserのASTをこの形に変換する
+// 拡張機能側とWebview側の両方で評価に使うため、外部ライブラリに依存しない
+import { SQLValue, stringValue, numberValue, booleanValue, nullValue } from './sqlValue';
+
+export type SQLExpression =
+    // quoted: 元のSQLで引用符付きだったか(わからなければundefined)
+    | { kind: 'column'; table?: string; name: string; quoted?: boolean }
+    | { kind: 'value'; value: SQLValue }
+    // operatorは大文字(AND, =, IS NOT, NOT IN, BETWEEN, + など)
+    | { kind: 'binary'; operator: string; left: SQLExpression; right: SQLExpression }
+    | { kind: 'unary'; operator: string; operand: SQLExpression }
+    // IN (...) の値の並びやBETWEENの下限と上限
+    | { kind: 'list'; items: SQLExpression[] }
+    | { kind: 'function'; name: string; args: SQLExpression[] }
+    // 評価に対応していない式(サブクエリ、CASEなど)。元のSQLを持つ
+    | { kind: 'unsupported'; sql: string };
+
+// 評価中の値。SQLのNULLはnullで表す
+export type RuntimeValue = string | number | boolean | null;
+
+// 行の値をカラム名で引く関数。カラムがなければundefinedを返す
+export type RowLookup = (column: string) => SQLValue | undefined;
+
+// ignoreCase: 文字列を大文字小文字を区別せずに比べる(MySQLなどの既定の照合順序)
+export interface EvaluationOptions {
+    ignoreCase?: boolean;
+}
+
+export function sqlValueToRuntime(value: SQLValue): RuntimeValue {
+    switch (value.kind) {
+        case 'string':
+            return value.value;
+        case 'number':
+            return Number(value.value);
+        case 'boolean':
+            return value.value;
+        case 'null':
+            return null;
+        case 'expression':
+            throw new Error(`式 ${value.sql} の値は評価できません`);
+    }
+}
+
+export function runtimeToSQLValue(value: RuntimeValue): SQLValue {
+    if (value === null) {
+        return nullValue();
+    }
+    if (typeof value === 'number') {
+        return numberValue(value);
+    }
+    if (typeof value === 'boolean') {
+        return booleanValue(value);
+    }
+    return stringValue(value);
+}
+
+// 条件を評価する。SQLと同じく、結果がNULL(不明)の行は条件に合わないものとして扱う
+export function evaluateCondition(expression: SQLExpression, row: RowLookup, options: EvaluationOptions = {}): boolean {
+    return toBoolean(evaluateExpression(expression, row, options)) === true;
+}
+
+// 式を評価する。評価できない式やないカラムを参照している場合はErrorを投げる
+export function evaluateExpression(expression: SQLExpression, row: RowLookup, options: EvaluationOptions = {}): RuntimeValue {
+    switch (expression.kind) {
+        case 'column': {
+            const value = row(expression.name);
+            if (value === undefined) {
+                throw new Error(`カラム ${expression.name} がありません`);
+            }
+            return sqlValueToRuntime(value);
+        }
+        case 'value':
+            return sqlValueToRuntime(expression.value);
+        case 'unary':
+            return evaluateUnary(expression.operator, evaluateExpression(expression.operand, row, options));
+        case 'binary':
+            return evaluateBinary(expression, row, options);
+        case 'function':
+            return evaluateFunction(expression.name, expression.args.map(arg => evaluateExpression(arg, row, options)));
+        case 'list':
+            throw new Error('値の並びは IN または BETWEEN の右辺でだけ使えます');
+        case 'unsupported':
+            throw new Error(`式 ${expression.sql} の評価には対応していません`);
+    }
+}
+
+function evaluateUnary(operator: string, operand: RuntimeValue): RuntimeValue {
+    switch (operator) {
+        case 'NOT':
+        case '!': {
+            const value = toBoolean(operand);
+            return value === null ? null : !value;
+        }
+        case '-':
+            return operand === null ? null : -toNumber(operand);
+        case '+':
+            return operand === null ? null : toNumber(operand);
+    }
+    throw new Error(`演算子 ${operator} の評価には対応していません`);
+}
+
+function evaluateBinary(expression: Extract<SQLExpression, { kind: 'binary' }>, row: RowLookup, options: EvaluationOptions): RuntimeValue {
+    const { operator } = expression;
+    const evaluate = (part: SQLExpression) => evaluateExpression(part, row, options);
+    const compare = (a: RuntimeValue, b: RuntimeValue) => compareValues(a, b, options.ignoreCase === true);
+    const left = evaluate(expression.left);
+
+    // 3値論理(NULLは不明)
+    if (operator === 'AND' || operator === 'OR' || operator === '&&') {
+        const leftValue = toBoolean(left);
+        const isAnd = operator !== 'OR';
+        if (leftValue === !isAnd) {
+            return leftValue;
+        }
+        const rightValue = toBoolean(evaluate(expression.right));
+        if (rightValue === !isAnd) {
+            return rightValue;
+        }
+        return leftValue === null || rightValue === null ? null : isAnd;
+    }
+
+    if (operator === 'IN' || operator === 'NOT IN') {
+        const items = listItems(expression.right).map(evaluate);
+        if (left === null) {
+            return null;
+        }
+        let result: boolean | null = false;
+        for (const item of items) {
+            const equal = compare(left, item);
+            if (equal === 0) {
+                result = true;
+                break;
+            }
+            if (equal === null) {
+                result = null;
+            }
+        }
+        return result === null ? null : (operator === 'IN') === result;
+    }
+
+    if (operator === 'BETWEEN' || operator === 'NOT BETWEEN') {
+        const [low, high] = listItems(expression.right).map(evaluate);
+        const lower = compare(left, low);
+        const upper = compare(left, high);
+        if (lower === null || upper === null) {
+            return null;
+        }
+        return (operator === 'BETWEEN') === (lower >= 0 && upper <= 0);
+    }
+
+    const right = evaluate(expression.right);
+    switch (operator) {
+        case 'IS':
+            return right === null ? left === null : toBoolean(left) === toBoolean(right);
+        case 'IS NOT':
+            return right === null ? left !== null : toBoolean(left) !== toBoolean(right);
+        case 'LIKE':
+        case 'NOT LIKE':
+        case 'ILIKE':
+        case 'NOT ILIKE': {
+            if (left === null || right === null) {
+                return null;
+            }
+            const matched = likeToRegExp(String(right), operator.endsWith('ILIKE') || options.ignoreCase === true).test(String(left));
+            return operator.startsWith('NOT') ? !matched : matched;
+        }
+        case '=':
+        case '!=':
+        case '<>':
+        case '<':
+        case '>':
+        case '<=':
+        case '>=': {
+            const order = compare(left, right);
+            if (order === null) {
+                return null;
+            }
+            switch (operator) {
+                case '=':
+                    return order === 0;
+                case '<':
+                    return order < 0;
+                case '>':
+                    return order > 0;
+                case '<=':
+                    return order <= 0;
+                case '>=':
+                    return order >= 0;
+                default:
+                    return order !== 0;
+            }
+        }
+        case '||':
+            return left === null || right === null ? null : `${toText(left)}${toText(right)}`;
+        case '+':
+        case '-':
+        case '*':
+        case '/':
+        case '%':
+            return arithmetic(operator, left, right);
+    }
+    throw new Error(`演算子 ${operator} の評価には対応していません`);
+}
+
+function evaluateFunction(name: string, args: RuntimeValue[]): RuntimeValue {
+    switch (name.toUpperCase()) {
+        case 'NOT':
+            return evaluateUnary('NOT', args[0] ?? null);
+        case 'LOWER':
+        case 'LCASE':
+            return args[0] === null ? null : toText(args[0]).toLowerCase();
+        case 'UPPER':
+        case 'UCASE':
+            return args[0] === null ? null : toText(args[0]).toUpperCase();
+        case 'TRIM':
+            return args[0] === null ? null : toText(args[0]).trim();
+        case 'LENGTH':
+        case 'CHAR_LENGTH':
+            return args[0] === null ? null : toText(args[0]).length;
+        case 'ABS':
+            return args[0] === null ? null : Math.abs(toNumber(args[0]));
+        case 'COALESCE':
+        case 'IFNULL':
+        case 'NVL':
+            return args.find(arg => arg !== null) ?? null;
+        case 'CONCAT':
+            return args.some(arg => arg === null) ? null : args.map(arg => toText(arg!)).join('');
+    }
+    throw new Error(`関数 ${name} の評価には対応していません`);
+}
+
+function listItems(expression: SQLExpression): SQLExpression[] {
+    return expression.kind === 'list' ? expression.items : [expression];
+}
+
+function arithmetic(operator: string, left: RuntimeValue, right: RuntimeValue): RuntimeValue {
+    if (left === null || right === null) {
+        return null;
+    }
+    const a = toNumber(left);
+    const b = toNumber(right);
+    switch (operator) {
+        case '+':
+            return a + b;
+        case '-':
+            return a - b;
+        case '*':
+            return a * b;
+        case '/':
+            return b === 0 ? null : a / b;
+        default:
+            return b === 0 ? null : a % b;
+    }
+}
+
+// 大小を比べる(負: 左が小さい, 0: 等しい, 正: 左が大きい, null: NULLを含む)
+// 片方が数値ならもう片方も数値として比べる(真偽値は1と0として扱う)
+function compareValues(left: RuntimeValue, right: RuntimeValue, ignoreCase: boolean): number | null {
+    if (left === null || right === null) {
+        return null;
+    }
+    if (typeof left !== 'string' || typeof right !== 'string') {
+        const a = toNumber(left);
+        const b = toNumber(right);
+        if (!Number.isNaN(a) && !Number.isNaN(b)) {
+            return a === b ? 0 : a < b ? -1 : 1;
+        }
+    }
+    const a = ignoreCase ? toText(left).toLowerCase() : toText(left);
+    const b = ignoreCase ? toText(right).toLowerCase() : toText(right);
+    return a === b ? 0 : a < b ? -1 : 1;
+}
+
+function toBoolean(value: RuntimeValue): boolean | null {
+    if (value === null || typeof value === 'boolean') {
+        return value;
+    }
+    return toNumber(value) !== 0;
+}
+
+function toNumber(value: Exclude<RuntimeValue, null>): number {
+    if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+    }
+    return typeof value === 'number' ? value : Number(value.trim() || NaN);
+}
+
+function toText(value: Exclude<RuntimeValue, null>): string {
+    if (typeof value === 'boolean') {
+        return value ? 'TRUE' : 'FALSE';
+    }
+    return String(value);
+}
+
+// LIKEのパターン(% と _、\ でのエスケープ)を正規表現に変換する
+function likeToRegExp(pattern: string, ignoreCase: boolean): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\' && i + 1 < pattern.length) {
+            source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        } else if (char === '%') {
+            source += '[\\s\\S]*';
+        } else if (char === '_') {
+            source += '[\\s\\S]';
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
+}
@@ -0,0 +1,302 @@
+// ドキュメント内の位置(文字オフセット)。endは含まない
+export interface SourceRange {
+    start: number;
+    end: number;
+}
+
+export type TokenType =
+    | 'whitespace'
+    | 'lineComment'
+    | 'blockComment'
+    | 'string'
+    | 'quotedIdentifier'
+    | 'dollarString'
+    | 'number'
+    | 'word'
+    | 'parameter'
+    | 'variable'
+    | 'punctuation'
+    | 'operator'
+    | 'terminator'
+    | 'directive';
+
+export interface Token {
+    type: TokenType;
+    text: string;
+    start: number;
+    end: number;
+}
+
+export interface StatementSource {
+    // 解析用のテキスト(コメントは同じ長さの空白に置き換え済み。オフセットは元のテキストと一致する)
+    text: string;
+    // 文の本体(区切り文字は含まない)の範囲
+    range: SourceRange;
+    // 文の区切り文字(; や DELIMITER で指定したもの)の範囲
+    terminator?: SourceRange;
+    // 文を構成するトークン(空白とコメントを含む)
+    tokens: Token[];
+    leadingComments: string[];
+    trailingComments: string[];
+}
+
+export interface SQLLexerOptions {
+    // 文字列内のバックスラッシュをエスケープとして扱うか(MySQLなど)
+    backslashEscapes?: boolean;
+    // 文と文の間の DELIMITER ディレクティブ(MySQLクライアントの構文)を解釈するか
+    delimiterDirectives?: boolean;
+}
+
+// 2文字の演算子
+const TWO_CHAR_OPERATORS = ['<>', '<=', '>=', '!=', '::', '||', '->', '=>', ':='];
+
+// 位置を指定して照合する正規表現(yフラグ)。長いファイルでもsubstringを作らずに済む
+const DELIMITER_DIRECTIVE = /delimiter[ \t]+(\S+)[^\n]*/iy;
+const DOLLAR_QUOTE_TAG = /\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/y;
+const NUMBER = /0x[0-9a-f]+|\d*\.?\d+(?:e[+-]?\d+)?|\d+\./iy;
+const VARIABLE = /@@?[\w$.]*/y;
+
+const matchAt = (pattern: RegExp, text: string, index: number): RegExpExecArray | null => {
+    pattern.lastIndex = index;
+    return pattern.exec(text);
+};
+
+export class SQLLexer {
+    // SQLをトークンに分割する。DELIMITERディレクティブを解釈し、区切り文字はterminatorトークンになる
+    public tokenize(sql: string, options: SQLLexerOptions = {}): Token[] {
+        const backslashEscapes = options.backslashEscapes ?? true;
+        const delimiterDirectives = options.delimiterDirectives ?? true;
+        const tokens: Token[] = [];
+        let delimiter = ';';
+        let i = 0;
+        // 前の文の区切り文字の後に、まだ空白とコメントしかないか(DELIMITERは文の途中では解釈しない)
+        let betweenStatements = true;
+
+        const push = (type: TokenType, end: number) => {
+            tokens.push({ type, text: sql.substring(i, end), start: i, end });
+            i = end;
+            if (type === 'terminator' || type === 'directive') {
+                betweenStatements = true;
+            } else if (type !== 'whitespace' && type !== 'lineComment' && type !== 'blockComment') {
+                betweenStatements = false;
+            }
+        };
+
+        while (i < sql.length) {
+            const char = sql[i];
+            const next = sql[i + 1];
+
+            // 文と文の間の行頭にある DELIMITER ディレクティブ(MySQLクライアントの構文)
+            if (delimiterDirectives && betweenStatements && (char === 'd' || char === 'D') && this.isLineStart(sql, i)) {
+                const directive = matchAt(DELIMITER_DIRECTIVE, sql, i);
+                if (directive) {
+                    delimiter = directive[1];
+                    push('directive', i + directive[0].length);
+                    continue;
+                }
+            }
+
+            if (delimiter !== ';' && sql.startsWith(delimiter, i)) {
+                push('terminator', i + delimiter.length);
+                continue;
+            }
+
+            if (/\s/.test(char)) {
+                let end = i + 1;
+                while (end < sql.length && /\s/.test(sql[end])) {
+                    end++;
+                }
+                push('whitespace', end);
+            } else if (char === '-' && next === '-') {
+                const newline = sql.indexOf('\n', i);
+                push('lineComment', newline === -1 ? sql.length : newline);
+            } else if (char === '/' && next === '*') {
+                push('blockComment', this.scanBlockComment(sql, i));
+            } else if (char === '\'' || char === '"' || char === '`') {
+                push(char === '\'' ? 'string' : 'quotedIdentifier', this.scanQuoted(sql, i, char, backslashEscapes && char !== '`'));
+            } else if (char === '$' && /\d/.test(next || '')) {
+                let end = i + 1;
+                while (end < sql.length && /\d/.test(sql[end])) {
+                    end++;
+                }
+                push('parameter', end);
+            } else if (char === '$' && matchAt(DOLLAR_QUOTE_TAG, sql, i)) {
+                push('dollarString', this.scanDollarQuoted(sql, i));
+            } else if (/\d/.test(char) || (char === '.' && /\d/.test(next || ''))) {
+                const number = matchAt(NUMBER, sql, i);
+                push('number', i + (number ? number[0].length : 1));
+            } else if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+                let end = i + 1;
+                while (end < sql.length && /[\w$\u0080-\uffff]/.test(sql[end])) {
+                    end++;
+                }
+                // E'...' や N'...' のような接頭辞付きの文字列
+                if (end - i === 1 && /[EeNnXxBb]/.test(char) && sql[end] === '\'') {
+                    // PostgreSQLのE'...'は方言によらずバックスラッシュエスケープを使う
+                    push('string', this.scanQuoted(sql, end, '\'', backslashEscapes || char === 'E' || char === 'e'));
+                } else {
+                    push('word', end);
+                }
+            } else if (char === '@') {
+                const variable = matchAt(VARIABLE, sql, i);
+                push('variable', i + (variable ? variable[0].length : 1));
+            } else if (char === ';' && delimiter === ';') {
+                push('terminator', i + 1);
+            } else if ('(),;.'.includes(char)) {
+                push('punctuation', i + 1);
+            } else if (char === '?') {
+                push('parameter', i + 1);
+            } else if (TWO_CHAR_OPERATORS.includes(char + (next || ''))) {
+                push('operator', i + 2);
+            } else {
+                push('operator', i + 1);
+            }
+        }
+
+        return tokens;
+    }
+
+    // トークン列を文ごとに分割し、各文の範囲と前後のコメントを記録する
+    public splitStatements(sql: string, options: SQLLexerOptions = {}): StatementSource[] {
+        const tokens = this.tokenize(sql, options);
+        const statements: StatementSource[] = [];
+        let pending: Token[] = [];
+        let statementStarted = false;
+        let pendingComments: string[] = [];
+        let lastStatement: StatementSource | undefined;
+        // 直前の文の区切り文字と同じ行にいる間はtrue(行末コメントの判定用)
+        let onTerminatorLine = false;
+
+        const flush = (terminator?: Token) => {
+            const first = pending.findIndex(token => !this.isTrivia(token));
+            if (first === -1) {
+                // コメントだけのかたまりは次の文の前置きコメントとして残す
+                pending = [];
+                statementStarted = false;
+                return;
+            }
+
+            let last = pending.length - 1;
+            while (this.isTrivia(pending[last])) {
+                last--;
+            }
+
+            const bodyTokens = pending.slice(first, last + 1);
+            const start = bodyTokens[0].start;
+            const statement: StatementSource = {
+                text: bodyTokens.map(token => this.isComment(token) ? token.text.replace(/[^\n]/g, ' ') : token.text).join(''),
+                range: { start, end: bodyTokens[bodyTokens.length - 1].end },
+                terminator: terminator ? { start: terminator.start, end: terminator.end } : undefined,
+                tokens: bodyTokens,
+                leadingComments: pendingComments,
+                trailingComments: []
+            };
+            statements.push(statement);
+            lastStatement = statement;
+            pending = [];
+            statementStarted = false;
+            pendingComments = [];
+        };
+
+        for (const token of tokens) {
+            if (token.type === 'directive') {
+                flush();
+                onTerminatorLine = false;
+                continue;
+            }
+
+            if (token.type === 'terminator') {
+                flush(token);
+                onTerminatorLine = true;
+                continue;
+            }
+
+            if (this.isComment(token) && !statementStarted) {
+                if (onTerminatorLine && lastStatement) {
+                    lastStatement.trailingComments.push(token.text);
+                } else {
+                    pendingComments.push(token.text);
+                }
+                continue;
+            }
+
+            if (token.type !== 'whitespace' || token.text.includes('\n')) {
+                onTerminatorLine = false;
+            }
+            if (!this.isTrivia(token)) {
+                statementStarted = true;
+            }
+
+            pending.push(token);
+        }
+
+        flush();
+
+        return statements;
+    }
+
+    // コメントと空白
+    public isTrivia(token: Token): boolean {
+        return token.type === 'whitespace' || this.isComment(token);
+    }
+
+    public isComment(token: Token): boolean {
+        return token.type === 'lineComment' || token.type === 'blockComment';
+    }
+
+    private isLineStart(sql: string, index: number): boolean {
+        let i = index - 1;
+        while (i >= 0 && (sql[i] === ' ' || sql[i] === '\t')) {
+            i--;
+        }
+        return i < 0 || sql[i] === '\n';
+    }
+
+    // ネストしたブロックコメントに対応する
+    private scanBlockComment(sql: string, start: number): number {
+        let depth = 0;
+        let i = start;
+        while (i < sql.length) {
+            if (sql[i] === '/' && sql[i + 1] === '*') {
+                depth++;
+                i += 2;
+            } else if (sql[i] === '*' && sql[i + 1] === '/') {
+                depth--;
+                i += 2;
+                if (depth === 0) {
+                    return i;
+                }
+            } else {
+                i++;
+            }
+        }
+        return sql.length;
+    }
+
+    // クォートの連続('')とバックスラッシュによるエスケープに対応する
+    private scanQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+        let i = start + 1;
+        while (i < sql.length) {
+            const char = sql[i];
+            if (char === '\\' && backslashEscapes) {
+                i += 2;
+            } else if (char === quote) {
+                if (sql[i + 1] === quote) {
+                    i += 2;
+                } else {
+                    return i + 1;
+                }
+            } else {
+                i++;
+            }
+        }
+        return sql.length;
+    }
+
+    // PostgreSQLのドル引用符 ($$...$$ や $body$...$body$)
+    private scanDollarQuoted(sql: string, start: number): number {
+        const tag = matchAt(DOLLAR_QUOTE_TAG, sql, start)![0];
+        const end = sql.indexOf(tag, start + tag.length);
+        return end === -1 ? sql.length : end + tag.length;
+    }
+}
@@ -1,48 +1,203 @@
 import { Parser } from 'node-sql-parser';
+import { SQLLexer, SQLLexerOptions, SourceRange, StatementSource, Token } from './sqlLexer';
+import { SQLDialect, DEFAULT_DIALECT, usesBackslashEscapes, usesDelimiterDirective, unquoteIdentifier } from './sqlDialect';
+import { SQLValue, stringValue, numberValue, booleanValue, nullValue, expressionValue } from './sqlValue';
+import { SQLExpression } from './sqlExpression';
+
+export type { SourceRange } from './sqlLexer';
 
 export interface ParsedSQLData {
     success: boolean;
     statements: ParsedStatement[];
     error?: string;
     raw: string;
+    // 解析に使ったSQL方言
+    dialect: SQLDialect;
+}
+
+// CREATE TABLEのカラム定義
+export interface ColumnDefinition {
+    name: string;
+    dataType: string;
+    // true: NULL, false: NOT NULL, null: 指定なし
+    nullable: boolean | null;
+    // DEFAULTの式(SQLテキスト)
+    defaultValue?: string;
+    primaryKey: boolean;
+    unique: boolean;
+    // REFERENCESの後ろの部分(例: users(id) ON DELETE CASCADE)
+    references?: string;
+    // 上記以外の指定(AUTO_INCREMENT, CHECK, COMMENTなど)。書き戻すときに末尾に残す
+    extra?: string;
+}
+
+// CREATE TABLEのテーブル制約(PRIMARY KEY (a, b) など)
+export interface TableConstraint {
+    kind: 'primary_key' | 'unique' | 'foreign_key' | 'check' | 'other';
+    columns: string[];
+    references?: string;
+    text: string;
+}
+
+// SELECTの列(式と別名)
+export interface SelectColumn {
+    expression: string;
+    alias?: string;
+}
+
+// SELECTのJOIN
+export interface SelectJoin {
+    // LEFT JOIN, CROSS JOIN など(大文字にそろえる)
+    kind: string;
+    // 結合するテーブル(別名を含む、書かれたとおりのテキスト)
+    table: string;
+    // ON ... または USING (...)(キーワードを含む、書かれたとおりのテキスト)
+    condition?: string;
+}
+
+// SELECT文の各句。句の中身は書かれたとおりのテキストで保持し、書き戻しても失われないようにする
+export interface SelectQuery {
+    // DISTINCT, TOP 10 など
+    modifiers?: string;
+    columns: SelectColumn[];
+    from: string[];
+    joins: SelectJoin[];
+    where?: string;
+    groupBy: string[];
+    having?: string;
+    orderBy: string[];
+    // LIMIT / OFFSET / FETCH(キーワードを含む)
+    limit?: string;
+    // INTO, WINDOW, QUALIFY, FOR UPDATE など上記以外の句(キーワードを含む)
+    extraClauses: { keyword: string; text: string }[];
 }
 
 export interface ParsedStatement {
-    type: 'select' | 'insert' | 'update' | 'delete' | 'unknown';
+    type: 'select' | 'insert' | 'update' | 'delete' | 'create_table' | 'raw';
     tableName?: string;
     columns?: string[];
-    values?: any[][];
+    values?: SQLValue[][];
     where?: any;
     set?: any;
     data?: any[][];
+    // 文の本体(末尾のセミコロンは含まない)のソース上の範囲
+    range?: SourceRange;
+    // 文の元のSQLテキスト(コメントを含む)
+    sql?: string;
+    // raw: 文の先頭のキーワード(CREATE, ALTERなど)
+    keyword?: string;
+    // raw: 解析できなかった場合のエラーメッセージ
+    parseError?: string;
+    // 文の前にあるコメント(セクション見出しやライセンス表記など)
+    leadingComments?: string[];
+    // 文と同じ行の末尾にあるコメント
+    trailingComments?: string[];
+    // INSERTのカラムリスト(括弧を含む)の範囲
+    columnsRange?: SourceRange;
+    // INSERTのカラムリストの各カラム名の範囲。columnsと同じ順序
+    columnRanges?: SourceRange[];
+    // INSERTの各行(括弧を含む)の範囲。valuesと同じ順序
+    rowRanges?: SourceRange[];
+    // 表の各セルのソース上の範囲。insert: valuesと同じ形, update: dataと同じ形(カラム名と値)
+    valueRanges?: SourceRange[][];
+    // create_table: カラム定義とそのソース上の範囲(同じ順序)
+    columnDefinitions?: ColumnDefinition[];
+    definitionRanges?: SourceRange[];
+    // create_table: テーブル制約(読み取り専用で表示し、そのまま残す)
+    tableConstraints?: TableConstraint[];
+    // select: 句ごとの構造。WITHやUNIONを含む文では未設定(元のテキストのまま扱う)
+    select?: SelectQuery;
+    // update/delete/select: WHERE句の式の木(WHERE句がなければ未設定)
+    condition?: SQLExpression;
+    // update: SET句の各値の式の木(dataと同じ順序)
+    assignments?: SQLExpression[];
+    // update: SET句の代入の並び全体の範囲
+    setRange?: SourceRange;
+    // update/delete/select: WHERE句(キーワードを含む)の範囲。WHERE句がなければ、WHERE句を足す位置の空の範囲。
+    // 書き換えるときはSET句とWHERE句の範囲だけを置き換え、他の句(別名、JOIN、ORDER BY、LIMIT、RETURNINGなど)は書かれたとおりに残す
+    whereRange?: SourceRange;
 }
 
+// カラム定義の中で新しい指定の始まりとなるキーワード
+const COLUMN_CLAUSE_KEYWORDS = new Set([
+    'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK', 'AUTO_INCREMENT', 'AUTOINCREMENT',
+    'COLLATE', 'COMMENT', 'CONSTRAINT', 'GENERATED', 'ON', 'IDENTITY'
+]);
+
+// UPDATEのSET句の終わりを示すキーワード
+const UPDATE_SET_END_KEYWORDS = new Set(['WHERE', 'FROM', 'RETURNING', 'ORDER', 'LIMIT', 'OUTPUT']);
+
+// UPDATE・DELETEのWHERE句の後ろに続く句の先頭のキーワード
+const WHERE_END_KEYWORDS = new Set(['ORDER', 'LIMIT', 'RETURNING', 'OPTION']);
+
+// SELECT文の句の先頭のキーワード(GROUP/ORDERはBYと合わせて1つの句になる)
+const SELECT_CLAUSE_KEYWORDS = new Set([
+    'FROM', 'WHERE', 'GROUP', 'HAVING', 'WINDOW', 'QUALIFY', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'FOR', 'INTO'
+]);
+
+// 複数のSELECTを組み合わせる演算子。これらを含む文は句に分けずに扱う
+const SET_OPERATORS = new Set(['UNION', 'INTERSECT', 'EXCEPT', 'MINUS']);
+
+// JOINの種類を表すキーワード
+const JOIN_KEYWORDS = new Set(['NATURAL', 'LEFT', 'RIGHT', 'FULL', 'INNER', 'OUTER', 'CROSS', 'JOIN', 'STRAIGHT_JOIN', 'APPLY', 'LATERAL']);
+
+// テーブル制約の先頭のキーワード
+const TABLE_CONSTRAINT_KEYWORDS = new Set([
+    'CONSTRAINT', 'PRIMARY', 'UNIQUE', 'FOREIGN', 'CHECK', 'KEY', 'INDEX', 'FULLTEXT', 'SPATIAL', 'EXCLUDE'
+]);
+
 export class SQLParser {
     private parser: Parser;
+    private lexer: SQLLexer;
+    private dialect: SQLDialect = DEFAULT_DIALECT;
 
     constructor() {
         this.parser = new Parser();
+        this.lexer = new SQLLexer();
     }
 
-    public parseSQL(sqlContent: string): ParsedSQLData {
+    private lexerOptions(dialect: SQLDialect): SQLLexerOptions {
+        return {
+            backslashEscapes: usesBackslashEscapes(dialect),
+            delimiterDirectives: usesDelimiterDirective(dialect)
+        };
+    }
+
+    public parseSQL(sqlContent: string, dialect: SQLDialect = DEFAULT_DIALECT): ParsedSQLData {
+        this.dialect = dialect;
         try {
-            const statements = this.splitSQLStatements(sqlContent);
+            const statements = this.lexer.splitStatements(sqlContent, this.lexerOptions(dialect));
             const parsedStatements: ParsedStatement[] = [];
 
             for (let i = 0; i < statements.length; i++) {
                 const statement = statements[i];
-                if (statement.trim()) {
-                    const parsed = this.parseStatement(statement.trim());
-                    if (parsed) {
-                        parsedStatements.push(parsed);
-                    }
+                let parsed = this.parseStatement(this.maskDefaultValues(statement));
+                if (parsed.type === 'insert') {
+                    this.locateInsertParts(parsed, statement.tokens);
+                } else if (parsed.type === 'update') {
+                    this.locateUpdateValues(parsed, statement.tokens);
+                    this.locateWhereClause(parsed, statement.tokens);
+                } else if (parsed.type === 'delete') {
+                    this.locateWhereClause(parsed, statement.tokens);
+                } else if (parsed.type === 'select') {
+                    parsed.select = this.parseSelectQuery(parsed, statement.tokens);
+                } else if (parsed.type === 'create_table' && !this.parseColumnDefinitions(parsed, statement.tokens)) {
+                    // カラム定義が読み取れないCREATE TABLE(AS SELECTなど)はそのまま保持する
+                    parsed = this.createRawStatement(statement.text);
                 }
+
+                parsed.range = statement.range;
+                parsed.sql = sqlContent.substring(statement.range.start, statement.range.end);
+                parsed.leadingComments = statement.leadingComments;
+                parsed.trailingComments = statement.trailingComments;
+                parsedStatements.push(parsed);
             }
 
             return {
                 success: true,
                 statements: parsedStatements,
-                raw: sqlContent
+                raw: sqlContent,
+                dialect
             };
         } catch (error) {
             // エラー時のみログ出力
@@ -51,60 +206,266 @@ export class SQLParser {
                 success: false,
                 statements: [],
                 error: error instanceof Error ? error.message : 'Unknown error',
-                raw: sqlContent
+                raw: sqlContent,
+                dialect
             };
         }
     }
 
-    private splitSQLStatements(sql: string): string[] {
-        // ブロックコメント /* */ を除去
-        let cleanedSQL = sql.replace(/\/\*[\s\S]*?\*\//g, '');
-        
-        // 行ごとに分割して行コメントを除去
-        const lines = cleanedSQL.split('\n');
-        const cleanedLines = lines
-            .map(line => {
-                const commentIndex = line.indexOf('--');
-                return commentIndex !== -1 ? line.substring(0, commentIndex) : line;
-            })
-            .filter(line => line.trim());
-        
-        // 1つの文字列に結合
-        cleanedSQL = cleanedLines.join('\n');
-        
-        // セミコロンで分割
-        const statements = cleanedSQL
-            .split(';')
-            .map(stmt => stmt.trim())
-            .filter(stmt => stmt);
-        
-        return statements;
-    }
-
-    private parseStatement(statement: string): ParsedStatement | null {
+    // INSERT文のカラムリストと各行の範囲を特定する(文字列・括弧の内側は無視する)
+    private locateInsertParts(statement: ParsedStatement, tokens: Token[]): void {
+        const parenRanges: SourceRange[] = [];
+        let valuesIndex = -1;
+        let depth = 0;
+        let openStart = -1;
+
+        for (const token of tokens) {
+            if (token.type === 'punctuation' && token.text === '(') {
+                if (depth === 0) {
+                    openStart = token.start;
+                }
+                depth++;
+            } else if (token.type === 'punctuation' && token.text === ')') {
+                depth--;
+                if (depth === 0 && openStart !== -1) {
+                    parenRanges.push({ start: openStart, end: token.end });
+                    openStart = -1;
+                }
+            } else if (depth === 0 && valuesIndex === -1 && token.type === 'word' && token.text.toUpperCase() === 'VALUES') {
+                valuesIndex = parenRanges.length;
+            }
+        }
+
+        if (valuesIndex === -1) {
+            return;
+        }
+
+        const rowRanges = parenRanges.slice(valuesIndex);
+        if (rowRanges.length !== (statement.values?.length ?? 0)) {
+            return;
+        }
+
+        if (valuesIndex > 0) {
+            const columnsRange = parenRanges[valuesIndex - 1];
+            const inner = tokens.filter(token => token.start > columnsRange.start && token.end < columnsRange.end);
+            statement.columnsRange = columnsRange;
+            statement.columnRanges = this.splitByTopLevelComma(inner).map(part => this.tokensRange(part, columnsRange.start));
+        }
+        statement.rowRanges = rowRanges;
+
+        // 各値に元のテキストと範囲を記録する(行の範囲は順に並んでいるので、トークンを1回だけ走査する)
+        statement.valueRanges = [];
+        let tokenIndex = 0;
+        rowRanges.forEach((range, rowIndex) => {
+            while (tokenIndex < tokens.length && tokens[tokenIndex].start <= range.start) {
+                tokenIndex++;
+            }
+            const inner: Token[] = [];
+            while (tokenIndex < tokens.length && tokens[tokenIndex].end < range.end) {
+                inner.push(tokens[tokenIndex++]);
+            }
+            const parts = this.splitByTopLevelComma(inner);
+            this.attachSourceText(statement.values![rowIndex], parts);
+            statement.valueRanges!.push(parts.map(part => this.tokensRange(part, range.start)));
+        });
+    }
+
+    // UPDATEのSET句の各値に元のテキストを記録する
+    private locateUpdateValues(statement: ParsedStatement, tokens: Token[]): void {
+        const setIndex = tokens.findIndex(token => token.type === 'word' && token.text.toUpperCase() === 'SET');
+        if (setIndex === -1 || !statement.data) {
+            return;
+        }
+
+        const setTokens: Token[] = [];
+        let depth = 0;
+        for (const token of tokens.slice(setIndex + 1)) {
+            if (token.type === 'punctuation' && token.text === '(') {
+                depth++;
+            } else if (token.type === 'punctuation' && token.text === ')') {
+                depth--;
+            } else if (depth === 0 && token.type === 'word' && UPDATE_SET_END_KEYWORDS.has(token.text.toUpperCase())) {
+                break;
+            }
+            setTokens.push(token);
+        }
+
+        const assignments = this.splitByTopLevelComma(setTokens);
+        if (assignments.length !== statement.data.length) {
+            return;
+        }
+        statement.setRange = this.tokensRange(setTokens, tokens[setIndex].end);
+        const parts = assignments.map(assignment => {
+            const equals = assignment.findIndex(token => token.type === 'operator' && token.text === '=');
+            return equals === -1
+                ? { column: assignment, value: [] }
+                : { column: assignment.slice(0, equals), value: assignment.slice(equals + 1) };
+        });
+        statement.data.forEach((row, index) => {
+            row[1] = this.withSourceText(row[1], parts[index].value);
+        });
+        statement.valueRanges = parts.map(({ column, value }) => {
+            const columnRange = this.tokensRange(column, tokens[setIndex].end);
+            return [columnRange, this.tokensRange(value, columnRange.end)];
+        });
+    }
+
+    // UPDATE・DELETEのWHERE句を書かれたとおりのテキスト(コメントを含む)で保持し、その範囲を記録する
+    private locateWhereClause(statement: ParsedStatement, tokens: Token[]): void {
+        const whereIndex = this.findTopLevelWord(tokens, ['WHERE']);
+        const searchFrom = whereIndex === -1 ? 0 : whereIndex + 1;
+        const endOffset = this.findTopLevelWord(tokens.slice(searchFrom), [...WHERE_END_KEYWORDS]);
+        const endIndex = endOffset === -1 ? tokens.length : searchFrom + endOffset;
+
+        if (whereIndex === -1) {
+            // WHERE句は後ろに続く句の前(なければ文の末尾)に足す
+            const before = this.trimTrivia(tokens.slice(0, endIndex));
+            const insertAt = before.length > 0 ? before[before.length - 1].end : tokens[0]?.start ?? 0;
+            statement.whereRange = { start: insertAt, end: insertAt };
+            return;
+        }
+
+        const conditionTokens = tokens.slice(whereIndex + 1, endIndex);
+        statement.where = this.tokensToText(conditionTokens);
+        statement.whereRange = { start: tokens[whereIndex].start, end: this.tokensRange(conditionTokens, tokens[whereIndex].end).end };
+    }
+
+    private attachSourceText(row: SQLValue[], parts: Token[][]): void {
+        if (parts.length !== row.length) {
+            return;
+        }
+        parts.forEach((part, index) => {
+            row[index] = this.withSourceText(row[index], part);
+        });
+    }
+
+    private withSourceText(value: SQLValue, tokens: Token[]): SQLValue {
+        const text = this.tokensToText(tokens);
+        if (/^default$/i.test(text)) {
+            return expressionValue(text);
+        }
+        return text ? { ...value, sql: text } : value;
+    }
+
+    // 括弧の外側にあるカンマでトークン列を区切る
+    private splitByTopLevelComma(tokens: Token[]): Token[][] {
+        const parts: Token[][] = [[]];
+        let depth = 0;
+        for (const token of tokens) {
+            if (token.type === 'punctuation' && token.text === '(') {
+                depth++;
+            } else if (token.type === 'punctuation' && token.text === ')') {
+                depth--;
+            } else if (depth === 0 && token.type === 'punctuation' && token.text === ',') {
+                parts.push([]);
+                continue;
+            }
+            parts[parts.length - 1].push(token);
+        }
+        return parts;
+    }
+
+    // node-sql-parserはMySQLなどでVALUES内のDEFAULTを解析できないため、同じ長さのNULLに置き換えて解析する。
+    // 置き換えた値は元のテキスト(DEFAULT)を記録するときに式として扱い直す(withSourceText)
+    private maskDefaultValues(statement: StatementSource): string {
+        const words = statement.tokens.filter(token => !this.lexer.isTrivia(token));
+        if (words[0]?.text.toUpperCase() !== 'INSERT') {
+            return statement.text;
+        }
+
+        let text = statement.text;
+        words.forEach((token, index) => {
+            const before = words[index - 1]?.text;
+            const after = words[index + 1]?.text;
+            if (token.type === 'word' && token.text.toUpperCase() === 'DEFAULT'
+                && (before === '(' || before === ',') && (after === ')' || after === ',')) {
+                const offset = token.start - statement.range.start;
+                text = text.substring(0, offset) + 'NULL   ' + text.substring(offset + token.text.length);
+            }
+        });
+        return text;
+    }
+
+    // CREATE TABLE文だけを解析する(ワークスペース全体のスキーマ収集用に、他の文は解析しない)
+    public parseCreateTables(sqlContent: string, dialect: SQLDialect = DEFAULT_DIALECT): ParsedStatement[] {
+        this.dialect = dialect;
+        const statements = this.lexer.splitStatements(sqlContent, this.lexerOptions(dialect));
+
+        const createTables: ParsedStatement[] = [];
+        for (const statement of statements) {
+            const firstWord = statement.tokens.find(token => token.type === 'word');
+            if (!firstWord || firstWord.text.toUpperCase() !== 'CREATE') {
+                continue;
+            }
+
+            const parsed = this.parseStatement(statement.text);
+            if (parsed.type === 'create_table' && this.parseColumnDefinitions(parsed, statement.tokens)) {
+                parsed.range = statement.range;
+                createTables.push(parsed);
+            }
+        }
+        return createTables;
+    }
+
+    // INSERT文だけを解析する(ワークスペース全体の行の収集用)
+    public parseInserts(sqlContent: string, dialect: SQLDialect = DEFAULT_DIALECT): ParsedStatement[] {
+        this.dialect = dialect;
+        const statements = this.lexer.splitStatements(sqlContent, this.lexerOptions(dialect));
+
+        const inserts: ParsedStatement[] = [];
+        for (const statement of statements) {
+            const firstWord = statement.tokens.find(token => token.type === 'word');
+            if (!firstWord || firstWord.text.toUpperCase() !== 'INSERT') {
+                continue;
+            }
+
+            const parsed = this.parseStatement(this.maskDefaultValues(statement));
+            if (parsed.type === 'insert' && parsed.tableName) {
+                this.locateInsertParts(parsed, statement.tokens);
+                parsed.range = statement.range;
+                inserts.push(parsed);
+            }
+        }
+        return inserts;
+    }
+
+    // テーブル表示できない文は、元のテキストのまま保持するrawブロックとして返す
+    private parseStatement(statement: string): ParsedStatement {
         try {
-            const ast = this.parser.astify(statement);
+            const ast = this.parser.astify(statement, { database: this.dialect });
             
             if (Array.isArray(ast)) {
-                return this.parseAST(ast[0]);
+                return this.parseAST(ast[0], statement);
             } else {
-                return this.parseAST(ast);
+                return this.parseAST(ast, statement);
             }
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             
             // カラム数と値の数の不一致エラーの場合、特別な処理を行う
             if (errorMessage.includes('column count doesn\'t match value count')) {
-                return this.handleColumnCountMismatchError(statement, errorMessage);
+                const parsed = this.handleColumnCountMismatchError(statement);
+                if (parsed) {
+                    return parsed;
+                }
             }
             
-            return null;
+            return this.createRawStatement(statement, errorMessage);
         }
     }
 
-    private parseAST(ast: any): ParsedStatement | null {
+    private createRawStatement(statement: string, parseError?: string): ParsedStatement {
+        const keywordMatch = statement.match(/^[A-Za-z_]+/);
+        return {
+            type: 'raw',
+            keyword: keywordMatch ? keywordMatch[0].toUpperCase() : 'SQL',
+            parseError
+        };
+    }
+
+    private parseAST(ast: any, statement: string): ParsedStatement {
         if (!ast || typeof ast !== 'object') {
-            return null;
+            return this.createRawStatement(statement);
         }
 
         const type = ast.type?.toLowerCase();
@@ -118,14 +479,257 @@ export class SQLParser {
                 return this.parseUpdateStatement(ast);
             case 'delete':
                 return this.parseDeleteStatement(ast);
+            case 'create':
+                if (String(ast.keyword).toLowerCase() === 'table' && Array.isArray(ast.create_definitions)) {
+                    return this.parseCreateTableStatement(ast);
+                }
+                return this.createRawStatement(statement);
             default:
-                return {
-                    type: 'unknown',
-                    data: [['Type', type || 'unknown']]
-                };
+                return this.createRawStatement(statement);
         }
     }
 
+    // SELECT文をトップレベル(括弧の外)のキーワードで句に分ける
+    private parseSelectQuery(statement: ParsedStatement, tokens: Token[]): SelectQuery | undefined {
+        const clauses: { keyword: string; keywordTokens: Token[]; tokens: Token[] }[] = [];
+        let depth = 0;
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            const upper = token.type === 'word' ? token.text.toUpperCase() : '';
+            if (token.type === 'punctuation' && token.text === '(') {
+                depth++;
+            } else if (token.type === 'punctuation' && token.text === ')') {
+                depth--;
+            } else if (depth === 0 && upper) {
+                if (upper === 'WITH' && clauses.length === 0) {
+                    return undefined;
+                }
+                if (SET_OPERATORS.has(upper)) {
+                    return undefined;
+                }
+                if ((upper === 'SELECT' && clauses.length === 0) || SELECT_CLAUSE_KEYWORDS.has(upper)) {
+                    const keywordTokens = [token];
+                    // GROUP BY / ORDER BY
+                    if (upper === 'GROUP' || upper === 'ORDER') {
+                        const next = this.nextSignificant(tokens, i);
+                        if (next === -1 || tokens[next].text.toUpperCase() !== 'BY') {
+                            clauses[clauses.length - 1]?.tokens.push(token);
+                            continue;
+                        }
+                        keywordTokens.push(...tokens.slice(i + 1, next + 1));
+                        i = next;
+                    }
+                    clauses.push({ keyword: upper === 'GROUP' || upper === 'ORDER' ? `${upper} BY` : upper, keywordTokens, tokens: [] });
+                    continue;
+                }
+            }
+            clauses[clauses.length - 1]?.tokens.push(token);
+        }
+
+        if (clauses[0]?.keyword !== 'SELECT') {
+            return undefined;
+        }
+
+        const query: SelectQuery = {
+            columns: [],
+            from: [],
+            joins: [],
+            groupBy: [],
+            orderBy: [],
+            extraClauses: []
+        };
+        const limitTokens: Token[] = [];
+
+        for (const clause of clauses) {
+            const text = this.tokensToText(clause.tokens);
+            switch (clause.keyword) {
+                case 'SELECT':
+                    this.parseSelectColumns(query, clause.tokens, statement);
+                    break;
+                case 'FROM':
+                    this.parseSelectFrom(query, clause.tokens);
+                    break;
+                case 'WHERE':
+                    query.where = text;
+                    break;
+                case 'GROUP BY':
+                    query.groupBy = this.splitByTopLevelComma(clause.tokens).map(part => this.tokensToText(part));
+                    break;
+                case 'HAVING':
+                    query.having = text;
+                    break;
+                case 'ORDER BY':
+                    query.orderBy = this.splitByTopLevelComma(clause.tokens).map(part => this.tokensToText(part));
+                    break;
+                case 'LIMIT':
+                case 'OFFSET':
+                case 'FETCH':
+                    limitTokens.push(...clause.keywordTokens, ...clause.tokens);
+                    break;
+                default:
+                    query.extraClauses.push({ keyword: clause.keyword, text: this.tokensToText([...clause.keywordTokens, ...clause.tokens]) });
+            }
+        }
+
+        if (limitTokens.length > 0) {
+            query.limit = this.tokensToText(limitTokens);
+        }
+
+        // WHERE句がなければ、SELECT・INTO・FROM(JOINを含む)の後ろに足す
+        const whereClause = clauses.find(clause => clause.keyword === 'WHERE');
+        if (whereClause) {
+            const keywordEnd = whereClause.keywordTokens[whereClause.keywordTokens.length - 1].end;
+            statement.whereRange = { start: whereClause.keywordTokens[0].start, end: this.tokensRange(whereClause.tokens, keywordEnd).end };
+        } else {
+            const following = clauses.findIndex(clause => !['SELECT', 'INTO', 'FROM'].includes(clause.keyword));
+            const previous = clauses[(following === -1 ? clauses.length : following) - 1];
+            const insertAt = this.tokensRange([...previous.keywordTokens, ...previous.tokens], previous.keywordTokens[0].end).end;
+            statement.whereRange = { start: insertAt, end: insertAt };
+        }
+        if (query.where !== undefined) {
+            statement.where = query.where;
+        }
+        return query;
+    }
+
+    // SELECT句を修飾子(DISTINCT, TOP n)と列に分ける。別名の判定にはASTを使う
+    private parseSelectColumns(query: SelectQuery, tokens: Token[], statement: ParsedStatement): void {
+        const significant = tokens.filter(token => !this.lexer.isTrivia(token));
+        let columnStart = 0;
+        while (columnStart < significant.length) {
+            const upper = significant[columnStart].text.toUpperCase();
+            if (upper === 'DISTINCT' || upper === 'ALL' || upper === 'DISTINCTROW' || upper === 'SQL_CALC_FOUND_ROWS') {
+                columnStart++;
+                // DISTINCT ON (...)
+                if (upper === 'DISTINCT' && significant[columnStart]?.text.toUpperCase() === 'ON') {
+                    columnStart = this.skipParentheses(significant, columnStart + 1);
+                }
+            } else if (upper === 'TOP') {
+                columnStart = significant[columnStart + 1]?.text === '('
+                    ? this.skipParentheses(significant, columnStart + 1)
+                    : columnStart + 2;
+                if (['PERCENT', 'WITH'].includes(significant[columnStart]?.text.toUpperCase())) {
+                    columnStart += significant[columnStart].text.toUpperCase() === 'WITH' ? 2 : 1;
+                }
+            } else {
+                break;
+            }
+        }
+
+        if (columnStart > 0) {
+            const firstColumn = significant[columnStart];
+            const modifierTokens = firstColumn ? tokens.filter(token => token.start < firstColumn.start) : tokens;
+            query.modifiers = this.tokensToText(modifierTokens);
+        }
+
+        const columnTokens = significant[columnStart] ? tokens.filter(token => token.start >= significant[columnStart].start) : [];
+        const parts = this.splitByTopLevelComma(columnTokens);
+        // parseSelectStatementがASTから読み取った別名(列の数が合う場合だけ使う)
+        const astColumns = statement.select?.columns || [];
+        const aliases = parts.length === astColumns.length ? astColumns.map(column => column.alias) : [];
+
+        query.columns = parts.map((part, index) => {
+            const alias = aliases[index];
+            const partTokens = this.trimTrivia(part);
+            if (alias) {
+                const words = partTokens.filter(token => !this.lexer.isTrivia(token));
+                const last = words[words.length - 1];
+                if (words.length > 1 && last && unquoteIdentifier(last.text).toLowerCase() === alias.toLowerCase()) {
+                    const beforeAlias = words[words.length - 2];
+                    const expressionEnd = beforeAlias.text.toUpperCase() === 'AS' && words.length > 2 ? beforeAlias.start : last.start;
+                    return {
+                        expression: this.tokensToText(partTokens.filter(token => token.end <= expressionEnd)),
+                        alias: last.text
+                    };
+                }
+            }
+            return { expression: this.tokensToText(partTokens) };
+        });
+    }
+
+    // FROM句をテーブルの並びとJOINに分ける
+    private parseSelectFrom(query: SelectQuery, tokens: Token[]): void {
+        const segments: { kind: Token[]; body: Token[] }[] = [{ kind: [], body: [] }];
+        let depth = 0;
+        let readingKind = false;
+
+        for (const token of tokens) {
+            const upper = token.type === 'word' ? token.text.toUpperCase() : '';
+            if (token.type === 'punctuation' && token.text === '(') {
+                depth++;
+            } else if (token.type === 'punctuation' && token.text === ')') {
+                depth--;
+            } else if (depth === 0 && JOIN_KEYWORDS.has(upper)) {
+                if (!readingKind) {
+                    segments.push({ kind: [], body: [] });
+                    readingKind = true;
+                }
+                segments[segments.length - 1].kind.push(token);
+                // JOIN / APPLY で種類の指定が終わる
+                if (upper === 'JOIN' || upper === 'STRAIGHT_JOIN' || upper === 'APPLY') {
+                    readingKind = false;
+                }
+                continue;
+            }
+
+            if (readingKind && !this.lexer.isTrivia(token)) {
+                readingKind = false;
+            }
+            if (readingKind) {
+                continue;
+            }
+            segments[segments.length - 1].body.push(token);
+        }
+
+        const [first, ...joins] = segments;
+        query.from = this.splitByTopLevelComma(first.body).map(part => this.tokensToText(part)).filter(text => text !== '');
+        query.joins = joins.map(segment => {
+            const conditionIndex = this.findTopLevelWord(segment.body, ['ON', 'USING']);
+            return {
+                kind: segment.kind.map(token => token.text.toUpperCase()).join(' '),
+                table: this.tokensToText(conditionIndex === -1 ? segment.body : segment.body.slice(0, conditionIndex)),
+                condition: conditionIndex === -1 ? undefined : this.tokensToText(segment.body.slice(conditionIndex))
+            };
+        });
+    }
+
+    private nextSignificant(tokens: Token[], index: number): number {
+        for (let i = index + 1; i < tokens.length; i++) {
+            if (!this.lexer.isTrivia(tokens[i])) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    // 括弧の開始位置から、対応する閉じ括弧の次の位置を返す(空白・コメントを除いたトークン列用)
+    private skipParentheses(tokens: Token[], openIndex: number): number {
+        let depth = 0;
+        for (let i = openIndex; i < tokens.length; i++) {
+            if (tokens[i].text === '(') {
+                depth++;
+            } else if (tokens[i].text === ')') {
+                depth--;
+                if (depth === 0) {
+                    return i + 1;
+                }
+            }
+        }
+        return tokens.length;
+    }
+
+    private findTopLevelWord(tokens: Token[], words: string[]): number {
+        let depth = 0;
+        return tokens.findIndex(token => {
+            if (token.type === 'punctuation' && token.text === '(') {
+                depth++;
+            } else if (token.type === 'punctuation' && token.text === ')') {
+                depth--;
+            }
+            return depth === 0 && token.type === 'word' && words.includes(token.text.toUpperCase());
+        });
+    }
+
     private parseSelectStatement(ast: any): ParsedStatement {
         const columns: string[] = [];
 
@@ -157,13 +761,26 @@ export class SQLParser {
         return {
             type: 'select',
             tableName,
-            columns
+            columns,
+            condition: ast.where ? this.toExpression(ast.where) : undefined,
+            // 別名だけをparseSelectQueryに渡す。式のテキストはトークンから読み取る
+            select: {
+                columns: (Array.isArray(ast.columns) ? ast.columns : []).map((col: any) => ({
+                    expression: '',
+                    alias: col?.as ? this.toColumnName(col.as) : undefined
+                })),
+                from: [],
+                joins: [],
+                groupBy: [],
+                orderBy: [],
+                extraClauses: []
+            }
         };
     }
 
     private parseInsertStatement(ast: any): ParsedStatement {
         const columns: string[] = [];
-        const values: any[][] = [];
+        const values: SQLValue[][] = [];
 
         // INSERT INTO句の解析
         let tableName = '';
@@ -180,10 +797,9 @@ export class SQLParser {
         // カラム名の解析
         if (ast.columns) {
             ast.columns.forEach((col: any) => {
-                if (typeof col === 'string') {
-                    columns.push(col);
-                } else if (col.column) {
-                    columns.push(col.column);
+                const name = this.toColumnName(col);
+                if (name) {
+                    columns.push(name);
                 }
             });
         }
@@ -195,23 +811,23 @@ export class SQLParser {
                 
                 if (singleValues.type === 'values' && singleValues.values && Array.isArray(singleValues.values)) {
                     singleValues.values.forEach((valueSet: any) => {
-                        const row: any[] = [];
+                        const row: SQLValue[] = [];
                         
                         if (valueSet.value && Array.isArray(valueSet.value)) {
                             valueSet.value.forEach((val: any) => {
-                                this.extractValue(val, row);
+                                row.push(this.toSQLValue(val));
                             });
                         } else if (valueSet.expr && Array.isArray(valueSet.expr)) {
                             valueSet.expr.forEach((val: any) => {
-                                this.extractValue(val, row);
+                                row.push(this.toSQLValue(val));
                             });
                         } else if (Array.isArray(valueSet)) {
                             valueSet.forEach((val: any) => {
-                                this.extractValue(val, row);
+                                row.push(this.toSQLValue(val));
                             });
                         } else if (valueSet.type === 'expr_list' && valueSet.value) {
                             valueSet.value.forEach((val: any) => {
-                                this.extractValue(val, row);
+                                row.push(this.toSQLValue(val));
                             });
                         }
                         
@@ -220,9 +836,9 @@ export class SQLParser {
                         }
                     });
                 } else if (singleValues.value && Array.isArray(singleValues.value)) {
-                    const row: any[] = [];
+                    const row: SQLValue[] = [];
                     singleValues.value.forEach((val: any) => {
-                        this.extractValue(val, row);
+                        row.push(this.toSQLValue(val));
                     });
                     if (row.length > 0) {
                         values.push(row);
@@ -230,23 +846,23 @@ export class SQLParser {
                 }
             } else {
                 ast.values.forEach((valueSet: any) => {
-                    const row: any[] = [];
+                    const row: SQLValue[] = [];
                     
                     if (valueSet.value && Array.isArray(valueSet.value)) {
                         valueSet.value.forEach((val: any) => {
-                            this.extractValue(val, row);
+                            row.push(this.toSQLValue(val));
                         });
                     } else if (valueSet.expr && Array.isArray(valueSet.expr)) {
                         valueSet.expr.forEach((val: any) => {
-                            this.extractValue(val, row);
+                            row.push(this.toSQLValue(val));
                         });
                     } else if (Array.isArray(valueSet)) {
                         valueSet.forEach((val: any) => {
-                            this.extractValue(val, row);
+                            row.push(this.toSQLValue(val));
                         });
                     } else if (valueSet.type === 'expr_list' && valueSet.value) {
                         valueSet.value.forEach((val: any) => {
-                            this.extractValue(val, row);
+                            row.push(this.toSQLValue(val));
                         });
                     }
                     
@@ -257,186 +873,171 @@ export class SQLParser {
             }
         }
 
-        // データの整合性をチェックして修正
-        const validatedValues = this.validateAndFixInsertData(columns, values);
-
+        // カラム数と値の数が合わない行もそのまま返す(不一致はsqlDiagnostics.tsで知らせる)
         return {
             type: 'insert',
             tableName,
             columns,
-            values: validatedValues
+            values
         };
     }
 
-    // 値を抽出するヘルパーメソッド
-    private extractValue(val: any, row: any[]): void {
-        if (val === null || val === undefined) {
-            row.push(null);
-        } else if (val.type === 'bool') {
-            // boolean型の処理
-            const boolValue = val.value === true || val.value === 'true' || val.value === 'TRUE' || val.value === 1;
-            row.push(boolValue);
-        } else if (val.value !== undefined) {
-            row.push(val.value);
-        } else if (val.type === 'single_quote_string' || val.type === 'double_quote_string') {
-            row.push(val.value || '');
-        } else if (val.type === 'number') {
-            row.push(val.value);
-        } else if (val.type === 'null') {
-            row.push(null);
-        } else if (typeof val === 'string' || typeof val === 'number') {
-            row.push(val);
-        } else if (typeof val === 'boolean') {
-            row.push(val);
-        } else {
-            row.push(String(val));
+    // カラム名を取り出す。方言によって文字列、{ column }、{ expr: { value } } のいずれかで表される
+    private toColumnName(col: any): string {
+        if (typeof col === 'string') {
+            return col;
         }
-    }
-
-    // INSERT文のデータ整合性をチェックして修正する
-    private validateAndFixInsertData(columns: string[], values: any[][]): any[][] {
-        const expectedColumnCount = columns.length;
-        
-        const validatedValues = values.map((row) => {
-            const currentValueCount = row.length;
-            
-            if (currentValueCount === expectedColumnCount) {
-                return row;
-            } else if (currentValueCount > expectedColumnCount) {
-                return row.slice(0, expectedColumnCount);
-            } else {
-                const paddedRow = [...row];
-                while (paddedRow.length < expectedColumnCount) {
-                    paddedRow.push('');
-                }
-                return paddedRow;
-            }
-        });
-        
-        return validatedValues;
-    }
-
-    // カラム数不一致エラーを処理する
-    private handleColumnCountMismatchError(statement: string, errorMessage: string): ParsedStatement | null {
-        try {
-            const insertMatch = statement.match(/INSERT\s+INTO\s+(\w+)\s*\(([^)]+)\)\s*VALUES\s*(.+)/is);
-            if (!insertMatch) {
-                return null;
-            }
-
-            const tableName = insertMatch[1];
-            const columnsStr = insertMatch[2];
-            const valuesStr = insertMatch[3];
-
-            const columns = columnsStr.split(',').map(col => col.trim().replace(/['"]/g, ''));
-            const values = this.extractValuesFromString(valuesStr);
-            const validatedValues = this.validateAndFixInsertData(columns, values);
-
-            return {
-                type: 'insert',
-                tableName,
-                columns,
-                values: validatedValues
-            };
-        } catch (error) {
-            return null;
+        if (!col || typeof col !== 'object') {
+            return '';
+        }
+        if (col.column !== undefined) {
+            return this.toColumnName(col.column);
+        }
+        if (col.expr !== undefined) {
+            return this.toColumnName(col.expr);
         }
+        return col.value !== undefined ? String(col.value) : '';
     }
 
-    // VALUES句の文字列から行データを抽出する
-    private extractValuesFromString(valuesStr: string): any[][] {
-        const rows: any[][] = [];
-        
-        const rowMatches = valuesStr.match(/\([^)]+\)/g);
-        if (!rowMatches) {
-            return rows;
+    // ASTの値を型付きの値に変換する。リテラル以外(関数呼び出しなど)は式として扱う
+    private toSQLValue(val: any): SQLValue {
+        if (val === null || val === undefined || val.type === 'null') {
+            return nullValue();
         }
 
-        rowMatches.forEach((rowStr) => {
-            const cleanRowStr = rowStr.slice(1, -1);
-            const values = this.splitValueString(cleanRowStr);
-            rows.push(values);
-        });
+        switch (val.type) {
+            case 'bool':
+                return booleanValue(val.value === true || String(val.value).toLowerCase() === 'true');
+            case 'number':
+                return numberValue(val.value);
+            case 'double_quote_string':
+                return stringValue(this.unescapeString(String(val.value ?? ''), '"'));
+            case 'single_quote_string':
+            case 'natural_string':
+            case 'var_string':
+            case 'string':
+                return stringValue(this.unescapeString(String(val.value ?? ''), '\''));
+        }
 
-        return rows;
+        try {
+            return expressionValue(this.parser.exprToSQL(val, { database: this.dialect }));
+        } catch {
+            return expressionValue(String(val.value ?? val));
+        }
     }
 
-    // 値の文字列を分割する(文字列内のカンマを考慮)
-    private splitValueString(valueStr: string): any[] {
-        const values: any[] = [];
-        let currentValue = '';
-        let inString = false;
-        let stringChar = '';
-        let i = 0;
+    // node-sql-parserの式のASTを評価用の式の木に変換する。対応していない式は元のSQLのまま残す
+    private toExpression(ast: any): SQLExpression {
+        if (ast === null || ast === undefined) {
+            return { kind: 'value', value: nullValue() };
+        }
 
-        while (i < valueStr.length) {
-            const char = valueStr[i];
-
-            if (!inString) {
-                if (char === '\'' || char === '"') {
-                    inString = true;
-                    stringChar = char;
-                    currentValue += char;
-                } else if (char === ',') {
-                    values.push(this.cleanValue(currentValue.trim()));
-                    currentValue = '';
-                } else {
-                    currentValue += char;
+        switch (ast.type) {
+            case 'column_ref': {
+                const name = this.toColumnName(ast);
+                if (name && name !== '*') {
+                    // PostgreSQLなどのASTは引用符の有無を column.expr.type に残している
+                    const quoteType = ast.column?.expr?.type;
+                    const quoted = quoteType === undefined ? undefined : quoteType !== 'default';
+                    return { kind: 'column', table: ast.table || undefined, name, quoted };
                 }
-            } else {
-                currentValue += char;
-                if (char === stringChar) {
-                    if (i + 1 < valueStr.length && valueStr[i + 1] === stringChar) {
-                        currentValue += valueStr[i + 1];
-                        i++;
-                    } else {
-                        inString = false;
-                        stringChar = '';
-                    }
+                break;
+            }
+            case 'null':
+            case 'bool':
+            case 'number':
+            case 'double_quote_string':
+            case 'single_quote_string':
+            case 'natural_string':
+            case 'var_string':
+            case 'string':
+                return { kind: 'value', value: this.toSQLValue(ast) };
+            case 'expr_list':
+                return { kind: 'list', items: (ast.value || []).map((item: any) => this.toExpression(item)) };
+            case 'binary_expr':
+                return {
+                    kind: 'binary',
+                    operator: String(ast.operator).toUpperCase(),
+                    left: this.toExpression(ast.left),
+                    right: this.toExpression(ast.right)
+                };
+            case 'unary_expr':
+                return { kind: 'unary', operator: String(ast.operator).toUpperCase(), operand: this.toExpression(ast.expr) };
+            case 'function': {
+                const name = (ast.name?.name || []).map((part: any) => part.value).join('.');
+                const args = (ast.args?.value || []).map((arg: any) => this.toExpression(arg));
+                // MySQLではNOT (...) が関数として解析される
+                if (name.toUpperCase() === 'NOT' && args.length === 1) {
+                    return { kind: 'unary', operator: 'NOT', operand: args[0] };
+                }
+                if (name) {
+                    return { kind: 'function', name, args };
                 }
+                break;
             }
-            i++;
         }
 
-        if (currentValue.trim()) {
-            values.push(this.cleanValue(currentValue.trim()));
+        let sql: string;
+        try {
+            sql = this.parser.exprToSQL(ast, { database: this.dialect });
+        } catch {
+            sql = String(ast.value ?? ast.type);
         }
-
-        return values;
+        return { kind: 'unsupported', sql };
     }
 
-    // 値をクリーンアップする(クォートの除去、型変換など)
-    private cleanValue(value: string): any {
-        if (!value) {
-            return '';
-        }
-
-        // 文字列値(シングルクォートまたはダブルクォートで囲まれている)
-        if ((value.startsWith('\'') && value.endsWith('\'')) || 
-            (value.startsWith('"') && value.endsWith('"'))) {
-            return value.slice(1, -1);
-        }
-
-        // Boolean値の処理
-        const lowerValue = value.toLowerCase();
-        if (lowerValue === 'true') {
-            return true;
-        }
-        if (lowerValue === 'false') {
-            return false;
+    // node-sql-parserは文字列内のエスケープ('' や \')をそのまま残すので、実際の文字列に戻す
+    private unescapeString(text: string, quote: string): string {
+        const backslashEscapes = usesBackslashEscapes(this.dialect);
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', b: '\b', Z: '\x1a' };
+        let result = '';
+        let i = 0;
+        while (i < text.length) {
+            const char = text[i];
+            if (char === '\\' && backslashEscapes && i + 1 < text.length) {
+                result += escapes[text[i + 1]] ?? text[i + 1];
+                i += 2;
+            } else if (char === quote && text[i + 1] === quote) {
+                result += quote;
+                i += 2;
+            } else {
+                result += char;
+                i++;
+            }
         }
+        return result;
+    }
 
-        // 数値
-        if (!isNaN(Number(value)) && value.trim() !== '') {
-            return Number(value);
+    // カラム数と値の数が合わない行があると、node-sql-parserはINSERT全体を解析できない。
+    // カラムリストを空白に置き換えれば行ごとに値の数が違っても解析できるため、カラム名は元のリストから取り出す
+    private handleColumnCountMismatchError(statement: string): ParsedStatement | null {
+        const tokens = this.lexer.tokenize(statement, this.lexerOptions(this.dialect))
+            .filter(token => !this.lexer.isTrivia(token));
+        const isPunctuation = (token: Token, text: string) => token.type === 'punctuation' && token.text === text;
+        const valuesIndex = tokens.findIndex(token => token.type === 'word' && token.text.toUpperCase() === 'VALUES');
+        const open = tokens.findIndex(token => isPunctuation(token, '('));
+        const close = tokens.findIndex((token, index) => index > open && isPunctuation(token, ')'));
+        if (valuesIndex === -1 || open === -1 || close === -1 || close > valuesIndex) {
+            return null;
         }
 
-        // NULL
-        if (value.toUpperCase() === 'NULL') {
+        const columns = this.splitByTopLevelComma(tokens.slice(open + 1, close))
+            .map(part => unquoteIdentifier(part.map(token => token.text).join('')));
+        const columnList = { start: tokens[open].start, end: tokens[close].end };
+        const masked = statement.substring(0, columnList.start)
+            + ' '.repeat(columnList.end - columnList.start)
+            + statement.substring(columnList.end);
+        try {
+            const ast = this.parser.astify(masked, { database: this.dialect });
+            const parsed = this.parseAST(Array.isArray(ast) ? ast[0] : ast, statement);
+            if (parsed.type !== 'insert') {
+                return null;
+            }
+            parsed.columns = columns;
+            return parsed;
+        } catch {
             return null;
         }
-
-        return value;
     }
 
     private parseUpdateStatement(ast: any): ParsedStatement {
@@ -454,31 +1055,256 @@ export class SQLParser {
         }
 
         // SET句の解析
+        const assignments: SQLExpression[] = [];
         if (ast.set) {
             ast.set.forEach((setItem: any) => {
-                if (setItem.column) {
-                    columns.push(setItem.column);
-                    const value = setItem.value?.value !== undefined ? setItem.value.value : setItem.value;
-                    data.push([setItem.column, value]);
+                const name = this.toColumnName(setItem.column);
+                if (name) {
+                    columns.push(name);
+                    data.push([name, this.toSQLValue(setItem.value)]);
+                    assignments.push(this.toExpression(setItem.value));
                 }
             });
         }
 
-        // WHERE句を文字列化
-        let whereClause = '';
-        if (ast.where) {
-            whereClause = this.whereToString(ast.where);
-        }
+        // WHERE句はlocateWhereClauseで書かれたとおりのテキストに置き換える。ここではパーサーが出力するSQLにしておく
+        const whereClause = ast.where ? this.parser.exprToSQL(ast.where, { database: this.dialect }) : '';
 
         return {
             type: 'update',
             tableName,
             columns,
             data,
-            where: whereClause
+            where: whereClause,
+            condition: ast.where ? this.toExpression(ast.where) : undefined,
+            assignments
         };
     }
 
+    private parseCreateTableStatement(ast: any): ParsedStatement {
+        let tableName = '';
+        if (Array.isArray(ast.table)) {
+            tableName = ast.table[0]?.table || '';
+        } else if (ast.table) {
+            tableName = ast.table.table || '';
+        }
+
+        // カラム定義の詳細は元のテキストを保つため、トークンから読み取る(parseColumnDefinitions)
+        return {
+            type: 'create_table',
+            tableName,
+            columns: [],
+            columnDefinitions: [],
+            definitionRanges: [],
+            tableConstraints: []
+        };
+    }
+
+    // CREATE TABLEの括弧の中をトップレベルのカンマで区切り、カラム定義とテーブル制約に分ける
+    private parseColumnDefinitions(statement: ParsedStatement, tokens: Token[]): boolean {
+        const entries: Token[][] = [];
+        let current: Token[] = [];
+        let depth = 0;
+        let started = false;
+        let finished = false;
+
+        for (const token of tokens) {
+            const isPunctuation = token.type === 'punctuation';
+            if (!started) {
+                if (isPunctuation && token.text === '(') {
+                    started = true;
+                    depth = 1;
+                }
+                continue;
+            }
+
+            if (isPunctuation && token.text === '(') {
+                depth++;
+            } else if (isPunctuation && token.text === ')') {
+                depth--;
+                if (depth === 0) {
+                    entries.push(current);
+                    finished = true;
+                    break;
+                }
+            } else if (isPunctuation && token.text === ',' && depth === 1) {
+                entries.push(current);
+                current = [];
+                continue;
+            }
+            current.push(token);
+        }
+
+        if (!finished) {
+            return false;
+        }
+
+        const columnDefinitions: ColumnDefinition[] = [];
+        const definitionRanges: SourceRange[] = [];
+        const tableConstraints: TableConstraint[] = [];
+
+        for (const entry of entries) {
+            const significant = this.trimTrivia(entry);
+            if (significant.length === 0) {
+                continue;
+            }
+
+            const first = significant[0];
+            if (first.type === 'word' && TABLE_CONSTRAINT_KEYWORDS.has(first.text.toUpperCase())) {
+                tableConstraints.push(this.parseTableConstraint(significant));
+            } else {
+                columnDefinitions.push(this.parseColumnDefinition(significant));
+                definitionRanges.push({ start: first.start, end: significant[significant.length - 1].end });
+            }
+        }
+
+        statement.columnDefinitions = columnDefinitions;
+        statement.definitionRanges = definitionRanges;
+        statement.tableConstraints = tableConstraints;
+        statement.columns = columnDefinitions.map(definition => definition.name);
+        return true;
+    }
+
+    // 1つのカラム定義を「名前・型・各指定」に分解する
+    private parseColumnDefinition(tokens: Token[]): ColumnDefinition {
+        const definition: ColumnDefinition = {
+            name: unquoteIdentifier(tokens[0].text),
+            dataType: '',
+            nullable: null,
+            primaryKey: false,
+            unique: false
+        };
+
+        const clauses: { keyword: string; tokens: Token[] }[] = [{ keyword: '', tokens: [] }];
+        let depth = 0;
+        for (const token of tokens.slice(1)) {
+            const clause = clauses[clauses.length - 1];
+            const keyword = token.type === 'word' ? token.text.toUpperCase() : '';
+            const clauseWords = clause.tokens.filter(clauseToken => !this.lexer.isTrivia(clauseToken)).length;
+            const startsClause = depth === 0
+                && COLUMN_CLAUSE_KEYWORDS.has(keyword)
+                // DEFAULT NULL や NOT NULL の NULL、REFERENCES ... ON DELETE の ON は直前の指定の一部
+                && !(clause.keyword === 'DEFAULT' && clauseWords === 1)
+                && !(clause.keyword === 'NOT' && clauseWords === 1)
+                && !(clause.keyword === 'REFERENCES' && keyword === 'ON');
+
+            if (startsClause) {
+                clauses.push({ keyword, tokens: [token] });
+            } else {
+                clause.tokens.push(token);
+            }
+
+            if (token.type === 'punctuation' && token.text === '(') {
+                depth++;
+            } else if (token.type === 'punctuation' && token.text === ')') {
+                depth--;
+            }
+        }
+
+        const extras: string[] = [];
+        for (const clause of clauses) {
+            const text = this.tokensToText(clause.tokens);
+            const body = this.tokensToText(this.trimTrivia(clause.tokens).slice(1));
+            switch (clause.keyword) {
+                case '':
+                    definition.dataType = text;
+                    break;
+                case 'NOT':
+                    if (body.toUpperCase() === 'NULL') {
+                        definition.nullable = false;
+                    } else {
+                        extras.push(text);
+                    }
+                    break;
+                case 'NULL':
+                    definition.nullable = true;
+                    break;
+                case 'DEFAULT':
+                    definition.defaultValue = body;
+                    break;
+                case 'PRIMARY':
+                    definition.primaryKey = true;
+                    break;
+                case 'UNIQUE':
+                    definition.unique = true;
+                    break;
+                case 'REFERENCES':
+                    definition.references = body;
+                    break;
+                default:
+                    extras.push(text);
+            }
+        }
+
+        if (extras.length > 0) {
+            definition.extra = extras.join(' ');
+        }
+        return definition;
+    }
+
+    private parseTableConstraint(tokens: Token[]): TableConstraint {
+        const text = this.tokensToText(tokens);
+        const words = tokens.filter(token => token.type === 'word').map(token => token.text.toUpperCase());
+        let kind: TableConstraint['kind'] = 'other';
+        if (words.includes('PRIMARY')) {
+            kind = 'primary_key';
+        } else if (words.includes('FOREIGN')) {
+            kind = 'foreign_key';
+        } else if (words.includes('UNIQUE')) {
+            kind = 'unique';
+        } else if (words.includes('CHECK')) {
+            kind = 'check';
+        }
+
+        // 最初の括弧の中のカラム名
+        const columns: string[] = [];
+        const openIndex = tokens.findIndex(token => token.type === 'punctuation' && token.text === '(');
+        if (openIndex !== -1 && kind !== 'check') {
+            for (const token of tokens.slice(openIndex + 1)) {
+                if (token.type === 'punctuation' && token.text === ')') {
+                    break;
+                }
+                if (token.type === 'word' || token.type === 'quotedIdentifier') {
+                    columns.push(unquoteIdentifier(token.text));
+                }
+            }
+        }
+
+        const referencesIndex = tokens.findIndex(token => token.type === 'word' && token.text.toUpperCase() === 'REFERENCES');
+        return {
+            kind,
+            columns,
+            references: referencesIndex !== -1 ? this.tokensToText(this.trimTrivia(tokens.slice(referencesIndex + 1))) : undefined,
+            text
+        };
+    }
+
+    // 前後の空白とコメントを取り除く
+    private trimTrivia(tokens: Token[]): Token[] {
+        let start = 0;
+        let end = tokens.length;
+        while (start < end && this.lexer.isTrivia(tokens[start])) {
+            start++;
+        }
+        while (end > start && this.lexer.isTrivia(tokens[end - 1])) {
+            end--;
+        }
+        return tokens.slice(start, end);
+    }
+
+    // 空白とコメントを除いたトークン列の範囲。トークンがなければfallbackの位置の空の範囲
+    private tokensRange(tokens: Token[], fallback: number): SourceRange {
+        const trimmed = this.trimTrivia(tokens);
+        if (trimmed.length === 0) {
+            return { start: fallback, end: fallback };
+        }
+        return { start: trimmed[0].start, end: trimmed[trimmed.length - 1].end };
+    }
+
+    private tokensToText(tokens: Token[]): string {
+        return this.trimTrivia(tokens).map(token => token.text).join('');
+    }
+
     private parseDeleteStatement(ast: any): ParsedStatement {
         let tableName = '';
         if (ast.from) {
@@ -489,30 +1315,33 @@ export class SQLParser {
             }
         }
 
-        // WHERE句を文字列化
-        let whereClause = '';
-        if (ast.where) {
-            whereClause = this.whereToString(ast.where);
-        }
+        // WHERE句はlocateWhereClauseで書かれたとおりのテキストに置き換える。ここではパーサーが出力するSQLにしておく
+        const whereClause = ast.where ? this.parser.exprToSQL(ast.where, { database: this.dialect }) : '';
 
         return {
             type: 'delete',
             tableName,
             where: whereClause,
+            condition: ast.where ? this.toExpression(ast.where) : undefined,
             data: [[]] // 空のデータ配列を追加(表示用)
         };
     }
 
     // WHERE句の構文をバリデーション
-    public validateWhereClause(tableName: string, whereClause: string): { valid: boolean; error?: string } {
+    public validateWhereClause(tableName: string, whereClause: string, dialect: SQLDialect = DEFAULT_DIALECT): { valid: boolean; error?: string } {
         if (!whereClause || whereClause.trim() === '') {
             return { valid: true }; // 空のWHERE句は有効
         }
 
+        const fragmentError = this.embeddedFragmentError(whereClause.trim(), dialect);
+        if (fragmentError) {
+            return { valid: false, error: `WHERE句の構文エラー: ${fragmentError}` };
+        }
+
         try {
             // ダミーのSELECT文を作成してWHERE句の構文をチェック
             const dummySQL = `SELECT * FROM ${tableName} WHERE ${whereClause}`;
-            this.parser.astify(dummySQL);
+            this.parser.astify(dummySQL, { database: dialect });
             return { valid: true };
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -523,58 +1352,58 @@ export class SQLParser {
         }
     }
 
-    // WHERE句をSQL文字列に変換
-    private whereToString(where: any): string {
-        if (!where) {
-            return '';
+    // セルに入力されたSQL式の構文をバリデーション
+    public validateExpression(expression: string, dialect: SQLDialect = DEFAULT_DIALECT): { valid: boolean; error?: string } {
+        if (!expression.trim()) {
+            return { valid: false, error: 'SQL式が空です' };
+        }
+        // DEFAULTはVALUESの中でだけ使えるキーワードなので、SELECTでは確かめられない
+        if (/^\s*default\s*$/i.test(expression)) {
+            return { valid: true };
+        }
+
+        const fragmentError = this.embeddedFragmentError(expression.trim(), dialect);
+        if (fragmentError) {
+            return { valid: false, error: `SQL式の構文エラー: ${fragmentError}` };
         }
 
         try {
-            if (where.type === 'binary_expr') {
-                const left = this.expressionToString(where.left);
-                const operator = where.operator;
-                const right = this.expressionToString(where.right);
-                return `${left} ${operator} ${right}`;
-            } else if (where.type === 'column_ref') {
-                return where.column;
+            const ast = this.parser.astify(`SELECT ${expression}`, { database: dialect });
+            // 「1 FROM t」や「1, 2」のようにSELECT文としては正しくても、1つの値にならない入力は受け付けない
+            const statements: any[] = Array.isArray(ast) ? ast : [ast];
+            const select = statements[0];
+            const hasClause = ['from', 'where', 'having', 'orderby', '_next'].some(key => select?.[key])
+                || select?.groupby?.columns?.length || (Array.isArray(select?.groupby) && select.groupby.length > 0)
+                || select?.limit?.value?.length;
+            if (statements.length !== 1 || select?.columns?.length !== 1 || select.columns[0].as || hasClause) {
+                return { valid: false, error: 'SQL式の構文エラー: 1つの値になる式を入力してください' };
             }
-            
-            return '';
+            return { valid: true };
         } catch (error) {
-            return '';
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            return {
+                valid: false,
+                error: `SQL式の構文エラー: ${errorMessage}`
+            };
         }
     }
 
-    // 式をSQL文字列に変換
-    private expressionToString(expr: any): string {
-        if (!expr) {
-            return '';
+    // 文の途中に埋め込む入力(SQL式やWHERE句)に、後ろに続くSQLをコメントにしたり文を区切ったりするトークンがないか確かめる。
+    // SELECTに埋め込んだ確認では、後ろに何も続かないためこれを見逃す。閉じているコメントは後ろに影響しないので残してよい
+    // (書き込むときは前後の空白を除くので、fragmentも除いたものを渡す)
+    private embeddedFragmentError(fragment: string, dialect: SQLDialect): string | undefined {
+        const tokens = this.lexer.tokenize(fragment, this.lexerOptions(dialect));
+        for (const token of tokens) {
+            if (token.type === 'terminator' || token.type === 'directive') {
+                return '文の区切りは入力できません';
+            }
+            const unclosed = token.type === 'lineComment'
+                ? !/[\r\n]/.test(fragment.charAt(token.end))
+                : token.type === 'blockComment' && (token.text.length < 4 || !token.text.endsWith('*/'));
+            if (unclosed) {
+                return '後ろに続くSQLをコメントにしてしまうため、閉じていないコメントは入力できません';
+            }
         }
-
-        if (expr.type === 'column_ref') {
-            if (expr.table) {
-                return `${expr.table}.${expr.column}`;
-            }
-            return expr.column;
-        } else if (expr.type === 'single_quote_string' || expr.type === 'double_quote_string') {
-            return `'${expr.value}'`;
-        } else if (expr.type === 'number') {
-            return String(expr.value);
-        } else if (expr.type === 'bool') {
-            return expr.value ? 'TRUE' : 'FALSE';
-        } else if (expr.type === 'null') {
-            return 'NULL';
-        } else if (expr.type === 'binary_expr') {
-            const left = this.expressionToString(expr.left);
-            const operator = expr.operator;
-            const right = this.expressionToString(expr.right);
-            return `(${left} ${operator} ${right})`;
-        } else if (typeof expr === 'string') {
-            return expr;
-        } else if (typeof expr === 'number') {
-            return String(expr);
-        }
-
-        return '';
+        return undefined;
     }
 }
\ No newline at end of file
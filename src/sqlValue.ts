@@ -0,0 +1,93 @@
+// セルの値。SQL上の型(文字列・数値・真偽値・NULL・式)を区別して、パーサー・Webview・SQL生成の間で受け渡す
+// 拡張機能側とWebview側の両方から使うため、外部ライブラリに依存しない
+import { ColumnType, isQuotedCategory } from './columnTypes';
+
+// sqlはファイルに書かれていた元のテキスト。編集されていない値はこのテキストのまま書き戻す
+export type SQLValue =
+    | { kind: 'string'; value: string; sql?: string }
+    // 1.50 や 1e3 の書き方を保つため、数値もテキストで持つ
+    | { kind: 'number'; value: string; sql?: string }
+    | { kind: 'boolean'; value: boolean; sql?: string }
+    | { kind: 'null'; sql?: string }
+    | { kind: 'expression'; sql: string };
+
+export const stringValue = (value: string): SQLValue => ({ kind: 'string', value });
+export const numberValue = (value: string | number): SQLValue => ({ kind: 'number', value: String(value) });
+export const booleanValue = (value: boolean): SQLValue => ({ kind: 'boolean', value });
+export const nullValue = (): SQLValue => ({ kind: 'null' });
+export const expressionValue = (sql: string): SQLValue => ({ kind: 'expression', sql });
+
+// 数値として書き出してよい入力(01234のような先頭の0は文字列として扱う)
+const PLAIN_NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+// 数値型のカラムで受け付ける入力
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const NULL_PATTERN = /^null$/i;
+
+// 表示・編集用のテキスト
+export function sqlValueToText(value: SQLValue): string {
+    switch (value.kind) {
+        case 'string':
+        case 'number':
+            return value.value;
+        case 'boolean':
+            return value.value ? 'TRUE' : 'FALSE';
+        case 'null':
+            return 'NULL';
+        case 'expression':
+            return value.sql;
+    }
+}
+
+// 入力されたテキストを値に変換する。
+// 宣言された型が分かればそれに従い、分からなければ編集前の値の種類を保つ('01234' や 'null' が数値やNULLに変わらないように)
+export function parseInputValue(text: string, previous?: SQLValue, columnType?: ColumnType): SQLValue {
+    const trimmed = text.trim();
+
+    if (columnType) {
+        // 文字列のカラムでもNULLと入力すればNULLにする(元の値が文字列のときは文字列の 'NULL' のまま)
+        if (NULL_PATTERN.test(trimmed) && previous?.kind !== 'string') {
+            return nullValue();
+        }
+        if (isQuotedCategory(columnType.category)) {
+            return stringValue(text);
+        }
+        if ((columnType.category === 'integer' || columnType.category === 'decimal') && NUMBER_PATTERN.test(trimmed)) {
+            return numberValue(trimmed);
+        }
+        if (columnType.category === 'boolean') {
+            if (BOOLEAN_PATTERN.test(trimmed)) {
+                return booleanValue(trimmed.toLowerCase() === 'true');
+            }
+            if (/^[01]$/.test(trimmed)) {
+                return numberValue(trimmed);
+            }
+        }
+        return stringValue(text);
+    }
+
+    if (previous?.kind === 'string') {
+        return stringValue(text);
+    }
+    if (NULL_PATTERN.test(trimmed)) {
+        return nullValue();
+    }
+
+    switch (previous?.kind) {
+        case 'number':
+            return NUMBER_PATTERN.test(trimmed) ? numberValue(trimmed) : stringValue(text);
+        case 'boolean':
+            if (BOOLEAN_PATTERN.test(trimmed)) {
+                return booleanValue(trimmed.toLowerCase() === 'true');
+            }
+            break;
+    }
+
+    if (BOOLEAN_PATTERN.test(trimmed)) {
+        return booleanValue(trimmed.toLowerCase() === 'true');
+    }
+    if (PLAIN_NUMBER_PATTERN.test(trimmed)) {
+        return numberValue(trimmed);
+    }
+    return stringValue(text);
+}
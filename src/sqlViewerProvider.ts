@@ -1,15 +1,71 @@
 import * as vscode from 'vscode';
-import { SQLParser, ParsedSQLData } from './sqlParser';
+import { SQLParser, ParsedSQLData, ParsedStatement, ColumnDefinition, SourceRange } from './sqlParser';
+import { SQLDialect, DEFAULT_DIALECT, getDialectLabel, quoteIdentifier, formatSQLValue } from './sqlDialect';
+import { resolveDialect } from './dialectResolver';
+import { SchemaIndex, TableSchema, InsertedRows } from './schemaIndex';
+import { ParsedDocuments } from './parsedDocuments';
+import { foreignKeysOf } from './foreignKeys';
+import { QueryPreview, QueryPreviewResult } from './queryPreview';
+import { DataExporter, ExportFormat, ExportScope } from './dataExport';
+import { SQLValue, stringValue, nullValue, expressionValue, sqlValueToText } from './sqlValue';
+import { TextEdit, applyTextEdits, keepsWhereClause, removeListItem, whereClauseEdit } from './textEdits';
+
+// この文字数を超えるファイルは、入力が落ち着いてから解析し直す
+const LARGE_DOCUMENT_LENGTH = 200_000;
+// 大きなファイルの解析を待つ時間
+const LARGE_DOCUMENT_UPDATE_DELAY_MS = 300;
+
+// Webviewから届くセルの変更
+interface CellEdit {
+	rowIndex: number;
+	columnIndex: number;
+	value: SQLValue;
+}
+
+// 前回送ったINSERT(base番目の文)から変わった行だけを送る形。Webviewは前回の文の行と組み合わせて使う
+interface StatementRowPatch {
+	base: number;
+	// values以外
+	statement: ParsedStatement;
+	rowCount: number;
+	rows: [number, SQLValue[]][];
+}
+
+// Webviewでは使わない、ソース上の範囲を表すフィールド(大きなINSERTでは行の数だけあるので送らない)
+const SOURCE_RANGE_FIELDS = ['range', 'columnsRange', 'columnRanges', 'rowRanges', 'valueRanges', 'definitionRanges', 'setRange', 'whereRange'] as const;
 
 export class SQLViewerProvider implements vscode.WebviewViewProvider {
 	public static readonly viewType = 'visual-sql-viewer';
-	private _view?: vscode.WebviewView;
+	private _webview?: vscode.Webview;
 	private _sqlParser: SQLParser;
 	private _currentDocument?: vscode.TextDocument;
 	private _lastSQLContent: string = '';
+	// 最後にWebviewに送った解析結果(カーソル位置から文やセルを探すために使う)
+	private _lastParsedData?: ParsedSQLData;
+	// 最後にWebviewに送った選択位置(同じ位置を何度も送らないため)
+	private _lastSelectionKey: string = '';
+	private _dialect: SQLDialect = DEFAULT_DIALECT;
+	// 最後にWebviewに送った各文のキー(変わっていない文は番号だけを送り、大きなINSERTを毎回送り直さないため)
+	private _sentStatementKeys = new Map<string, number>();
+	// 最後にWebviewに送った文(変わったINSERTの行を前回と比べるため)
+	private _sentStatements: ParsedStatement[] = [];
+	private _sentDialect: SQLDialect = DEFAULT_DIALECT;
+	private _updateTimer?: ReturnType<typeof setTimeout>;
+	private _queryPreview: QueryPreview;
+	private _dataExporter: DataExporter;
 
-	constructor(private readonly _extensionUri: vscode.Uri) {
+	// _boundDocument: エディタのタブ(SQLEditorProvider)で開いたときの対象ドキュメント。
+	// サイドバーでは未設定で、アクティブなエディタのドキュメントに追従する
+	constructor(
+		private readonly _extensionUri: vscode.Uri,
+		private readonly _schemaIndex: SchemaIndex,
+		private readonly _parsedDocuments: ParsedDocuments,
+		private readonly _boundDocument?: vscode.TextDocument
+	) {
 		this._sqlParser = new SQLParser();
+		this._queryPreview = new QueryPreview(_extensionUri, _schemaIndex);
+		this._dataExporter = new DataExporter(_schemaIndex);
+		this._currentDocument = _boundDocument;
 	}
 
 	public resolveWebviewView(
@@ -17,25 +73,40 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		context: vscode.WebviewViewResolveContext,
 		_token: vscode.CancellationToken,
 	) {
-		this._view = webviewView;
+		this.resolveWebview(webviewView.webview);
+
+		// Webviewが表示されたときに現在のドキュメントを送信
+		webviewView.onDidChangeVisibility(() => {
+			if (webviewView.visible) {
+				const activeEditor = vscode.window.activeTextEditor;
+				if (activeEditor && activeEditor.document.languageId === 'sql') {
+					this.updateWebview(activeEditor.document);
+				}
+			}
+		});
+	}
 
-		webviewView.webview.options = {
+	// Webviewに表示とメッセージの処理を設定する(サイドバーとエディタのタブで共通)
+	public resolveWebview(webview: vscode.Webview): vscode.Disposable {
+		this._webview = webview;
+
+		webview.options = {
 			enableScripts: true,
 			localResourceRoots: [
 				this._extensionUri
 			]
 		};
 
-		webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+		webview.html = this._getHtmlForWebview(webview);
 
 		// Webviewからのメッセージを処理
-		webviewView.webview.onDidReceiveMessage(
+		return webview.onDidReceiveMessage(
 			message => {
 				switch (message.type) {
-					case 'updateSQL':
-						this._updateSQLFile(message.sql);
-						return;
 					case 'ready':
+						// Webviewが読み込み直された場合も、内容が同じかどうかに関係なく送り直す
+						this._lastSQLContent = '';
+						this._clearSentStatements();
 						if (this._currentDocument) {
 							this.updateWebview(this._currentDocument);
 						} else {
@@ -48,6 +119,9 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 					case 'cellEdit':
 						this._handleCellEdit(message.statementIndex, message.rowIndex, message.columnIndex, message.value);
 						return;
+					case 'batchCellEdit':
+						this._handleBatchCellEdit(message.statementIndex, message.edits);
+						return;
 					case 'addRow':
 						this._handleAddRow(message.statementIndex);
 						return;
@@ -66,27 +140,58 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 					case 'editWhere':
 						this._handleEditWhere(message.statementIndex, message.whereClause);
 						return;
+					case 'editColumnDefinition':
+						this._handleEditColumnDefinition(message.statementIndex, message.columnIndex, message.definition);
+						return;
+					case 'addColumnDefinition':
+						this._handleAddColumnDefinition(message.statementIndex);
+						return;
+					case 'deleteColumnDefinition':
+						this._handleDeleteColumnDefinition(message.statementIndex, message.columnIndex);
+						return;
+					case 'moveColumnDefinition':
+						this._handleMoveColumnDefinition(message.statementIndex, message.columnIndex, message.offset);
+						return;
+					case 'previewSelect':
+						this._handlePreviewSelect(message.statementIndex);
+						return;
+					case 'revealCell':
+						this._handleRevealCell(message.statementIndex, message.rowIndex, message.columnIndex);
+						return;
+					case 'exportStatement':
+						this._handleExportStatement(message.statementIndex, message.scope, message.format);
+						return;
 				}
 			},
 			undefined,
 			[]
 		);
+	}
 
-		// Webviewが表示されたときに現在のドキュメントを送信
-		webviewView.onDidChangeVisibility(() => {
-			if (webviewView.visible) {
-				const activeEditor = vscode.window.activeTextEditor;
-				if (activeEditor && activeEditor.document.languageId === 'sql') {
-					this.updateWebview(activeEditor.document);
-				}
-			}
-		});
+	// ドキュメントの変更を反映する。大きなファイルは入力のたびに解析し直さず、入力が止まってから反映する
+	public scheduleUpdate(document: vscode.TextDocument) {
+		if (this._updateTimer) {
+			clearTimeout(this._updateTimer);
+			this._updateTimer = undefined;
+		}
+		if (document.getText().length <= LARGE_DOCUMENT_LENGTH) {
+			this.updateWebview(document);
+			return;
+		}
+		this._updateTimer = setTimeout(() => {
+			this._updateTimer = undefined;
+			this.updateWebview(document);
+		}, LARGE_DOCUMENT_UPDATE_DELAY_MS);
 	}
 
 	public updateWebview(document: vscode.TextDocument) {
+		// エディタのタブでは、開いているドキュメント以外は表示しない
+		if (this._boundDocument && document.uri.toString() !== this._boundDocument.uri.toString()) {
+			return;
+		}
 		this._currentDocument = document;
 		
-		if (this._view) {
+		if (this._webview) {
 			const sqlContent = document.getText();
 			
 			// 前回と同じ内容なら再解析しない
@@ -95,23 +200,240 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 			}
 			
 			this._lastSQLContent = sqlContent;
-			const parsedData = this._sqlParser.parseSQL(sqlContent);
+			const { parsedData, dialect, source } = this._parsedDocuments.get(document);
+			this._dialect = dialect;
+			this._lastParsedData = parsedData;
+			this._lastSelectionKey = '';
+			this._schemaIndex.updateFromStatements(document.uri, parsedData.statements);
 			
-			this._view.webview.postMessage({
+			this._webview.postMessage({
 				type: 'updateData',
-				data: parsedData,
-				fileName: document.fileName
+				// ファイル全体のテキストは、解析できなかったときの表示にだけ使う
+				data: { ...parsedData, statements: [], raw: parsedData.success ? '' : parsedData.raw },
+				statements: this._diffStatements(parsedData.statements, dialect),
+				fileName: document.fileName,
+				dialect: {
+					name: dialect,
+					label: getDialectLabel(dialect),
+					source
+				},
+				schema: this._collectSchema(document, parsedData),
+				workspaceRows: this._collectWorkspaceRows(document, parsedData)
+			}).then(delivered => {
+				// 届かなかった場合、Webviewは前回の文を持っていないため次は全部を送る
+				if (!delivered) {
+					this._clearSentStatements();
+				}
 			});
 		}
 	}
 
-	private _handleCellEdit(statementIndex: number, rowIndex: number, columnIndex: number, value: any) {
-		if (!this._currentDocument) {
+	// 前回送った文と同じ文(方言・テキスト・コメントが同じもの)は前回の番号に置き換える。
+	// 大きなINSERTの外側を編集したときに、その行のデータを送り直さないようにする。
+	// INSERTの中を編集したときは、前回の同じ位置の文から変わった行だけを送る
+	private _diffStatements(statements: ParsedStatement[], dialect: SQLDialect): (ParsedStatement | StatementRowPatch | number)[] {
+		// 方言が変わると同じテキストでも値が変わりうるので、前回の文とは比べない
+		if (dialect !== this._sentDialect) {
+			this._clearSentStatements();
+			this._sentDialect = dialect;
+		}
+		const keys = new Map<string, number>();
+		const entries = statements.map((statement, index) => {
+			const key = JSON.stringify([dialect, statement.type, statement.sql, statement.leadingComments, statement.trailingComments]);
+			keys.set(key, index);
+			const sentIndex = this._sentStatementKeys.get(key);
+			if (sentIndex !== undefined) {
+				return sentIndex;
+			}
+			return this._rowPatch(this._sentStatements[index], index, statement) ?? this._forWebview(statement);
+		});
+		this._sentStatementKeys = keys;
+		this._sentStatements = statements;
+		return entries;
+	}
+
+	// 同じテーブル・カラムのINSERTなら、行のテキストを前回と比べて変わった行だけを集める(変わった行が多ければ全体を送る)
+	private _rowPatch(previous: ParsedStatement | undefined, base: number, statement: ParsedStatement): StatementRowPatch | undefined {
+		if (!previous || previous.type !== 'insert' || statement.type !== 'insert'
+			|| previous.tableName !== statement.tableName || JSON.stringify(previous.columns) !== JSON.stringify(statement.columns)
+			|| !previous.rowRanges || !statement.rowRanges || !statement.values || !previous.range || !statement.range) {
+			return undefined;
+		}
+
+		const rowText = (target: ParsedStatement, rowIndex: number) => {
+			const range = target.rowRanges![rowIndex];
+			return target.sql!.slice(range.start - target.range!.start, range.end - target.range!.start);
+		};
+		const values = statement.values;
+		const rows: [number, SQLValue[]][] = [];
+		for (let rowIndex = 0; rowIndex < values.length; rowIndex++) {
+			if (rowIndex >= previous.rowRanges.length || rowText(previous, rowIndex) !== rowText(statement, rowIndex)) {
+				rows.push([rowIndex, values[rowIndex]]);
+				if (rows.length > values.length / 2) {
+					return undefined;
+				}
+			}
+		}
+
+		const { values: _values, ...rest } = this._forWebview(statement);
+		return { base, statement: rest, rowCount: values.length, rows };
+	}
+
+	private _forWebview(statement: ParsedStatement): ParsedStatement {
+		const result: ParsedStatement = { ...statement };
+		SOURCE_RANGE_FIELDS.forEach(field => delete result[field]);
+		// 元のテキストは表にできない文(rawや構造の分からないSELECT)の表示にだけ使う
+		if (statement.type !== 'raw' && statement.type !== 'select') {
+			delete result.sql;
+		}
+		return result;
+	}
+
+	private _clearSentStatements() {
+		this._sentStatementKeys.clear();
+		this._sentStatements = [];
+	}
+
+	// テキストエディタのカーソル位置にある文とセルをWebviewで強調する
+	public updateSelection(document: vscode.TextDocument, position: vscode.Position) {
+		if (!this._webview || !this._lastParsedData || document.uri.toString() !== this._currentDocument?.uri.toString()) {
+			return;
+		}
+
+		const location = this._locateOffset(this._lastParsedData, document.offsetAt(position));
+		const key = JSON.stringify(location);
+		if (key === this._lastSelectionKey) {
+			return;
+		}
+		this._lastSelectionKey = key;
+		this._webview.postMessage({
+			type: 'selectionChanged',
+			...location
+		});
+	}
+
+	// オフセットを含む文と、表のセル(INSERTの値、UPDATEのカラム名と値)を探す
+	private _locateOffset(parsedData: ParsedSQLData, offset: number): { statementIndex?: number; rowIndex?: number; columnIndex?: number } {
+		const statementIndex = parsedData.statements.findIndex(statement =>
+			statement.range && statement.range.start <= offset && offset <= statement.range.end
+		);
+		if (statementIndex === -1) {
+			return {};
+		}
+
+		const statement = parsedData.statements[statementIndex];
+		const contains = (range: SourceRange) => range.start <= offset && offset <= range.end;
+		const valueRanges = statement.valueRanges || [];
+		for (let rowIndex = 0; rowIndex < valueRanges.length; rowIndex++) {
+			const columnIndex = valueRanges[rowIndex].findIndex(contains);
+			if (columnIndex !== -1) {
+				return { statementIndex, rowIndex, columnIndex };
+			}
+		}
+		const rowIndex = statement.rowRanges?.findIndex(contains) ?? -1;
+		return rowIndex === -1 ? { statementIndex } : { statementIndex, rowIndex };
+	}
+
+	// Webviewでクリックされたセル(または文)をテキストエディタで選択して表示する
+	private async _handleRevealCell(statementIndex: number, rowIndex?: number, columnIndex?: number) {
+		const document = this._currentDocument;
+		if (!document) {
+			return;
+		}
+
+		const { parsedData } = this._parsedDocuments.get(document);
+		const statement = parsedData.statements[statementIndex];
+		const range = (rowIndex !== undefined && columnIndex !== undefined ? statement?.valueRanges?.[rowIndex]?.[columnIndex] : undefined)
+			?? (rowIndex !== undefined ? statement?.rowRanges?.[rowIndex] : undefined)
+			?? statement?.range;
+		if (!range) {
+			return;
+		}
+
+		const selection = new vscode.Selection(document.positionAt(range.start), document.positionAt(range.end));
+		// 選択を変えたことで届くカーソル移動を、Webviewに送り返さない
+		this._lastSelectionKey = JSON.stringify(this._locateOffset(parsedData, range.start));
+
+		const editor = vscode.window.visibleTextEditors.find(candidate => candidate.document.uri.toString() === document.uri.toString());
+		if (editor) {
+			editor.selection = selection;
+			editor.revealRange(selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+		} else {
+			// エディタのタブで表だけを開いている場合は、テキストを横に開く(フォーカスは表に残す)
+			await vscode.window.showTextDocument(document, {
+				viewColumn: vscode.ViewColumn.Beside,
+				preserveFocus: true,
+				selection
+			});
+		}
+	}
+
+	// 設定が変わったときなど、内容が同じでも再解析して表示し直す
+	public refresh() {
+		this._lastSQLContent = '';
+		if (this._currentDocument) {
+			this.updateWebview(this._currentDocument);
+		}
+	}
+
+	// ファイル内の文が参照しているテーブルと、その外部キーの参照先のテーブルの定義を集める(キーは小文字のテーブル名)
+	private _collectSchema(document: vscode.TextDocument, parsedData: ParsedSQLData): Record<string, TableSchema> {
+		const schema: Record<string, TableSchema> = {};
+		const addTable = (tableName: string) => {
+			const table = this._schemaIndex.getTable(tableName, document.uri);
+			if (table) {
+				schema[tableName.toLowerCase()] = table;
+			}
+			return table;
+		};
+		parsedData.statements.forEach(statement => {
+			if (!statement.tableName) {
+				return;
+			}
+			const table = addTable(statement.tableName);
+			if (statement.type === 'insert' && table) {
+				foreignKeysOf(table).forEach(foreignKey => addTable(foreignKey.referencedTable));
+			}
+		});
+		return schema;
+	}
+
+	// UPDATE・DELETEの対象テーブルと、INSERTの外部キーの参照先のテーブルに、他のファイルでINSERTされた行を集める(キーは小文字のテーブル名)
+	private _collectWorkspaceRows(document: vscode.TextDocument, parsedData: ParsedSQLData): Record<string, InsertedRows[]> {
+		const rows: Record<string, InsertedRows[]> = {};
+		const addRows = (tableName: string) => {
+			rows[tableName.toLowerCase()] = this._schemaIndex.getInsertedRows(tableName, document.uri);
+		};
+		parsedData.statements.forEach(statement => {
+			if ((statement.type === 'update' || statement.type === 'delete') && statement.tableName) {
+				addRows(statement.tableName);
+			}
+			const table = statement.type === 'insert' && statement.tableName ? this._schemaIndex.getTable(statement.tableName, document.uri) : undefined;
+			if (table) {
+				foreignKeysOf(table).forEach(foreignKey => addRows(foreignKey.referencedTable));
+			}
+		});
+		return rows;
+	}
+
+	// 編集用に解析し直す(返した文は書き換えてよい。表示だけならParsedDocumentsの共有の結果を使う)
+	private _parseDocument(document: vscode.TextDocument, sqlContent: string = document.getText()): ParsedSQLData {
+		this._dialect = resolveDialect(document.uri, sqlContent).dialect;
+		return this._sqlParser.parseSQL(sqlContent, this._dialect);
+	}
+
+	private _handleCellEdit(statementIndex: number, rowIndex: number, columnIndex: number, value: SQLValue) {
+		this._handleBatchCellEdit(statementIndex, [{ rowIndex, columnIndex, value }]);
+	}
+
+	// 複数のセルの変更(範囲への一括入力など)を1回の編集(1回のUndo)として書き込む
+	private _handleBatchCellEdit(statementIndex: number, edits: CellEdit[]) {
+		if (!this._currentDocument || edits.length === 0) {
 			return;
 		}
 
 		const sqlContent = this._currentDocument.getText();
-		const parsedData = this._sqlParser.parseSQL(sqlContent);
+		const parsedData = this._parseDocument(this._currentDocument, sqlContent);
 		
 		if (!parsedData.success || !parsedData.statements[statementIndex]) {
 			return;
@@ -119,18 +441,94 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 
 		const statement = parsedData.statements[statementIndex];
 
-		if (statement.type === 'insert' && statement.values) {
-			if (statement.values[rowIndex]) {
-				statement.values[rowIndex][columnIndex] = value;
+		// SQL式として入力された値は、構文が正しい場合だけ書き込む(1つでも誤りがあれば何も書き込まない)
+		const values: SQLValue[] = [];
+		for (const { columnIndex, value } of edits) {
+			if (value.kind === 'expression' && !(statement.type === 'update' && columnIndex === 0)) {
+				const validation = this._sqlParser.validateExpression(value.sql, this._dialect);
+				if (!validation.valid) {
+					vscode.window.showErrorMessage(validation.error || 'SQL式の構文が正しくありません');
+					return;
+				}
+				values.push(expressionValue(value.sql.trim()));
+			} else {
+				values.push(value);
+			}
+		}
+
+		if (statement.type === 'insert' && statement.values && statement.columns) {
+			const rows = statement.values;
+			const existingRowCount = rows.length;
+			// 値の範囲が分かるセルは値だけを置き換え、行の中のコメントや改行を残す。それ以外の行は行全体を書き直す
+			const cellEdits = new Map<string, { rowIndex: number; range: SourceRange; value: SQLValue }>();
+			const rewrittenRows = new Set<number>();
+			edits.forEach(({ rowIndex, columnIndex }, index) => {
+				// 貼り付けなどで最後の行より後ろを指定された場合は、NULLの行を足す
+				while (rows.length <= rowIndex) {
+					rows.push(statement.columns!.map(() => nullValue()));
+				}
+				// 値の足りない行で、最後の値より後ろのセルを指定された場合は、間をNULLで埋めてから入れる(値を飛ばした行にしない)
+				while (rows[rowIndex].length < columnIndex) {
+					rows[rowIndex].push(nullValue());
+				}
+				rows[rowIndex][columnIndex] = values[index];
+				const range = this._cellRange(statement, rowIndex, columnIndex);
+				if (range) {
+					cellEdits.set(`${rowIndex}:${columnIndex}`, { rowIndex, range, value: values[index] });
+				} else {
+					rewrittenRows.add(rowIndex);
+				}
+			});
+
+			// 足した行は既存の行と同じ区切りで最後に追加する
+			const rowRanges = statement.rowRanges;
+			if (rowRanges && rowRanges.length > 0) {
+				const textEdits: TextEdit[] = [
+					...Array.from(cellEdits.values())
+						.filter(({ rowIndex }) => !rewrittenRows.has(rowIndex))
+						.map(({ range, value }) => ({ range, text: this._formatSQLValue(value) })),
+					...Array.from(rewrittenRows)
+						.filter(rowIndex => rowIndex < existingRowCount)
+						.map(rowIndex => ({ range: rowRanges[rowIndex], text: this._formatRow(rows[rowIndex]) }))
+				];
+				if (rows.length > existingRowCount) {
+					const lastRange = rowRanges[rowRanges.length - 1];
+					const separator = this._rowSeparator(sqlContent, rowRanges);
+					textEdits.push({
+						range: { start: lastRange.end, end: lastRange.end },
+						text: rows.slice(existingRowCount).map(row => separator + this._formatRow(row)).join('')
+					});
+				}
+				this._applyTextEdits(textEdits);
+				return;
 			}
 		} else if (statement.type === 'update' && statement.data) {
-			if (statement.data[rowIndex]) {
-				statement.data[rowIndex][columnIndex] = value;
+			const textEdits: TextEdit[] = [];
+			edits.forEach(({ rowIndex, columnIndex }, index) => {
+				if (statement.data![rowIndex]) {
+					// 1列目はカラム名なので、値ではなく名前として保持する
+					const value = columnIndex === 0 ? sqlValueToText(values[index]) : values[index];
+					statement.data![rowIndex][columnIndex] = value;
+					const range = statement.valueRanges?.[rowIndex]?.[columnIndex];
+					if (range) {
+						textEdits.push({ range, text: typeof value === 'string' ? this._quote(value) : this._formatSQLValue(value) });
+					}
+				}
+			});
+			// 編集した代入の値(またはカラム名)だけを置き換え、SET句の他の部分のコメントや改行を残す
+			if (textEdits.length === edits.length) {
+				this._applyTextEdits(textEdits);
+				return;
 			}
 		}
 
-		const newSQL = this._generateSQLFromData(parsedData);
-		this._updateSQLFile(newSQL);
+		this._applyStatementEdit(statement);
+	}
+
+	// INSERTのセルの値のソース上の範囲(行の値の数が解析結果と合わない場合はなし)
+	private _cellRange(statement: ParsedStatement, rowIndex: number, columnIndex: number): SourceRange | undefined {
+		const ranges = statement.valueRanges?.[rowIndex];
+		return ranges && ranges.length === statement.values?.[rowIndex]?.length ? ranges[columnIndex] : undefined;
 	}
 
 	private _handleAddRow(statementIndex: number) {
@@ -139,7 +537,7 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		}
 
 		const sqlContent = this._currentDocument.getText();
-		const parsedData = this._sqlParser.parseSQL(sqlContent);
+		const parsedData = this._parseDocument(this._currentDocument, sqlContent);
 		
 		if (!parsedData.success || !parsedData.statements[statementIndex]) {
 			return;
@@ -148,21 +546,41 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		const statement = parsedData.statements[statementIndex];
 
 		if (statement.type === 'insert' && statement.columns) {
-			const newRow = new Array(statement.columns.length).fill('');
+			// 新しい行の値はNULL(空文字列は数値やNOT NULLのカラムに合わない)
+			const newRow = statement.columns.map(() => nullValue());
+
+			// 最後の行の後ろに、既存の行と同じ区切り(改行やインデント)で追加する
+			const rowRanges = statement.rowRanges;
+			if (rowRanges && rowRanges.length > 0) {
+				const lastRange = rowRanges[rowRanges.length - 1];
+				const separator = this._rowSeparator(sqlContent, rowRanges);
+				this._applyTextEdits([{
+					range: { start: lastRange.end, end: lastRange.end },
+					text: separator + this._formatRow(newRow)
+				}]);
+				return;
+			}
+
 			if (!statement.values) {
 				statement.values = [];
 			}
 			statement.values.push(newRow);
 		} else if (statement.type === 'update' && statement.columns) {
-			const newRow = [statement.columns[0] || '', ''];
+			const newRow = [statement.columns[0] || '', stringValue('')];
 			if (!statement.data) {
 				statement.data = [];
 			}
 			statement.data.push(newRow);
 		}
 
-		const newSQL = this._generateSQLFromData(parsedData);
-		this._updateSQLFile(newSQL);
+		this._applyStatementEdit(statement);
+	}
+
+	// 既存の行の間の区切り(改行やインデントを含む)。行が1つしかなければ ', '
+	private _rowSeparator(sqlContent: string, rowRanges: SourceRange[]): string {
+		return rowRanges.length > 1
+			? sqlContent.substring(rowRanges[rowRanges.length - 2].end, rowRanges[rowRanges.length - 1].start)
+			: ', ';
 	}
 
 	private _handleDeleteRow(statementIndex: number, rowIndex: number) {
@@ -171,7 +589,7 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		}
 
 		const sqlContent = this._currentDocument.getText();
-		const parsedData = this._sqlParser.parseSQL(sqlContent);
+		const parsedData = this._parseDocument(this._currentDocument, sqlContent);
 		
 		if (!parsedData.success || !parsedData.statements[statementIndex]) {
 			return;
@@ -180,22 +598,36 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		const statement = parsedData.statements[statementIndex];
 
 		if (statement.type === 'insert' && statement.values) {
+			// 行とその区切りだけを削除する
+			const rowRanges = statement.rowRanges;
+			if (rowRanges && rowRanges.length > 1 && rowRanges[rowIndex]) {
+				const range = rowIndex > 0
+					? { start: rowRanges[rowIndex - 1].end, end: rowRanges[rowIndex].end }
+					: { start: rowRanges[0].start, end: rowRanges[1].start };
+				this._applyTextEdits([{ range, text: '' }]);
+				return;
+			}
+
 			statement.values.splice(rowIndex, 1);
 		} else if (statement.type === 'update' && statement.data) {
 			statement.data.splice(rowIndex, 1);
 		}
 
-		const newSQL = this._generateSQLFromData(parsedData);
-		this._updateSQLFile(newSQL);
+		this._applyStatementEdit(statement);
 	}
 
-	private _handleEditWhere(statementIndex: number, whereClause: string) {
-		if (!this._currentDocument) {
+	private async _handleEditWhere(statementIndex: number, whereClause: string) {
+		const document = this._currentDocument;
+		if (!document) {
+			return;
+		}
+		// 確認を待つ間に別のファイルに切り替わったら書き込まない
+		if (!whereClause.trim() && (!await this._confirmWhereRemoval(document, statementIndex) || this._currentDocument !== document)) {
 			return;
 		}
 
-		const sqlContent = this._currentDocument.getText();
-		const parsedData = this._sqlParser.parseSQL(sqlContent);
+		const sqlContent = document.getText();
+		const parsedData = this._parseDocument(document, sqlContent);
 		
 		if (!parsedData.success || !parsedData.statements[statementIndex]) {
 			return;
@@ -206,15 +638,15 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		// WHERE句のバリデーション
 		if (whereClause.trim()) {
 			const tableName = statement.tableName || 'table';
-			const validation = this._sqlParser.validateWhereClause(tableName, whereClause.trim());
+			const validation = this._sqlParser.validateWhereClause(tableName, whereClause.trim(), this._dialect);
 			
 			if (!validation.valid) {
 				// バリデーションエラーを通知
 				vscode.window.showErrorMessage(validation.error || 'WHERE句の構文が正しくありません');
 				
 				// Webviewにもエラーを送信
-				if (this._view) {
-					this._view.webview.postMessage({
+				if (this._webview) {
+					this._webview.postMessage({
 						type: 'whereValidationError',
 						statementIndex: statementIndex,
 						error: validation.error || 'WHERE句の構文が正しくありません'
@@ -227,8 +659,8 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		}
 		
 		// バリデーション成功を通知
-		if (this._view) {
-			this._view.webview.postMessage({
+		if (this._webview) {
+			this._webview.postMessage({
 				type: 'whereValidationSuccess',
 				statementIndex: statementIndex
 			});
@@ -237,91 +669,131 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		// バリデーション成功時のみ更新
 		statement.where = whereClause.trim();
 
-		const newSQL = this._generateSQLFromData(parsedData);
-		this._updateSQLFile(newSQL);
+		this._applyStatementEdit(statement);
 	}
 
-	private _generateSQLFromData(data: ParsedSQLData): string {
-		if (!data.success) {
-			return data.raw;
+	// UPDATE・DELETEのWHERE句を消すと、テーブルのすべての行が対象になる。確認して同意されたときだけ消す
+	private async _confirmWhereRemoval(document: vscode.TextDocument, statementIndex: number): Promise<boolean> {
+		const { parsedData } = this._parsedDocuments.get(document);
+		const statement = parsedData.success ? parsedData.statements[statementIndex] : undefined;
+		if (!statement || (statement.type !== 'update' && statement.type !== 'delete') || !statement.where?.trim()) {
+			return true;
 		}
-	
-		return data.statements.map(statement => {
-			switch (statement.type) {
-				case 'insert':
-					if (statement.tableName && statement.columns && statement.values) {
-						const columnsStr = statement.columns.join(', ');
-						const valuesStr = statement.values.map(row => 
-							`(${row.map(val => this._formatSQLValue(val)).join(', ')})`
-						).join(', ');
-						return `INSERT INTO ${statement.tableName} (${columnsStr}) VALUES ${valuesStr};`;
-					}
-					break;
-				case 'update':
-					if (statement.tableName && statement.data) {
-						const setClause = statement.data.map(([col, val]) => 
-							`${col} = ${this._formatSQLValue(val)}`
-						).join(', ');
-						const whereClause = statement.where ? ` WHERE ${statement.where}` : '';
-						return `UPDATE ${statement.tableName} SET ${setClause}${whereClause};`;
-					}
-					break;
-				case 'delete':
-					if (statement.tableName) {
-						const whereClause = statement.where ? ` WHERE ${statement.where}` : '';
-						return `DELETE FROM ${statement.tableName}${whereClause};`;
-					}
-					break;
-				case 'select':
-					if (statement.tableName && statement.columns) {
-						const columnsStr = statement.columns.join(', ');
-						return `SELECT ${columnsStr} FROM ${statement.tableName};`;
-					}
-					break;
-			}
-			return '';
-		}).filter(sql => sql).join('\n');
+
+		const answer = await vscode.window.showWarningMessage(
+			`WHERE句を削除すると、この${statement.type.toUpperCase()}文は ${statement.tableName} のすべての行が対象になります`,
+			{ modal: true, detail: `削除する条件: ${statement.where.trim()}` },
+			'WHERE句を削除'
+		);
+		return answer === 'WHERE句を削除';
 	}
 
-	private _formatSQLValue(val: any): string {
-		// NULL値の処理
-		if (val === null || val === undefined) {
-			return 'NULL';
+	// INSERT文(またはファイル内の同じテーブルのすべてのINSERT文)の行を指定した形式でクリップボードにコピーする
+	private async _handleExportStatement(statementIndex: number, scope: ExportScope, format: ExportFormat) {
+		if (!this._currentDocument) {
+			return;
 		}
 
-		// 文字列の場合、そのまま返す(既にクォートが含まれている場合)
-		const strVal = String(val).trim();
+		const { parsedData } = this._parsedDocuments.get(this._currentDocument);
+		if (!parsedData.success) {
+			return;
+		}
+		await this._dataExporter.export(this._currentDocument, parsedData.statements, statementIndex, scope, format);
+	}
 
-		// 既にシングルクォートまたはダブルクォートで囲まれている場合
-		if ((strVal.startsWith("'") && strVal.endsWith("'")) || 
-		    (strVal.startsWith('"') && strVal.endsWith('"'))) {
-			// ダブルクォートの場合はシングルクォートに変換
-			if (strVal.startsWith('"') && strVal.endsWith('"')) {
-				const innerValue = strVal.slice(1, -1);
-				return `'${innerValue}'`;
-			}
-			return strVal;
+	// ファイルのCREATE TABLEとINSERTを読み込んだSQLiteでSELECTを実行し、結果をWebviewに送る
+	private async _handlePreviewSelect(statementIndex: number) {
+		if (!this._currentDocument || !this._webview) {
+			return;
 		}
 
-		// 'NULL'という文字列の場合
-		if (strVal.toLowerCase() === 'null') {
-			return 'NULL';
+		const document = this._currentDocument;
+		const { parsedData } = this._parsedDocuments.get(document);
+		const statement = parsedData.statements[statementIndex];
+		if (!parsedData.success || !statement || statement.type !== 'select') {
+			return;
 		}
 
-		// boolean値の処理
-		if (strVal.toLowerCase() === 'true' || strVal.toLowerCase() === 'false') {
-			return strVal.toUpperCase();
+		let result: QueryPreviewResult;
+		try {
+			result = await this._queryPreview.run(document.uri, parsedData.statements, statementIndex);
+		} catch (error) {
+			result = {
+				columns: [],
+				rows: [],
+				truncated: false,
+				warnings: [],
+				error: `SQLiteエンジンを読み込めませんでした: ${error instanceof Error ? error.message : String(error)}`
+			};
 		}
 
-		// 数値の処理
-		if (!isNaN(Number(strVal)) && strVal !== '') {
-			return strVal;
+		this._webview?.postMessage({
+			type: 'previewResult',
+			statementIndex,
+			result
+		});
+	}
+
+	// 1つの文をSQL文字列に変換する(末尾のセミコロンは含まない)
+	private _generateStatementSQL(statement: ParsedStatement): string {
+		switch (statement.type) {
+			case 'insert':
+				if (statement.tableName && statement.columns && statement.values) {
+					const valuesStr = statement.values.map(row => this._formatRow(row)).join(', ');
+					return `INSERT INTO ${this._quote(statement.tableName)} ${this._formatColumnList(statement.columns)} VALUES ${valuesStr}`;
+				}
+				break;
+			case 'update':
+				if (statement.tableName && statement.data && statement.setRange && statement.whereRange) {
+					const setClause = statement.data.map(([col, val]) => 
+						`${this._quote(col)} = ${this._formatSQLValue(val)}`
+					).join(', ');
+					return this._replaceClauses(statement, [
+						{ range: statement.setRange, text: setClause },
+						this._whereEdit(statement, statement.whereRange)
+					]);
+				}
+				// SET句とWHERE句の位置が分からない文は書き換えない(句を落とさないように)
+				return '';
+			case 'delete':
+				if (statement.tableName && statement.whereRange) {
+					return this._replaceClauses(statement, [this._whereEdit(statement, statement.whereRange)]);
+				}
+				return '';
+			case 'select':
+				if (statement.select && statement.whereRange) {
+					return this._replaceClauses(statement, [this._whereEdit(statement, statement.whereRange)]);
+				}
+				break;
 		}
 
-		// その他は文字列としてシングルクォートで囲む
-		// エスケープ処理: シングルクォートを2つにする
-		const escapedValue = strVal.replace(/'/g, "''");
-		return `'${escapedValue}'`;
+		// テーブル表示できない文(raw)は元のテキストをそのまま書き戻す
+		return statement.sql || '';
+	}
+
+	// 文の元のテキストのうち、指定した範囲(ファイル上の位置)だけを置き換える。他の句やコメントは書かれたとおりに残す
+	private _replaceClauses(statement: ParsedStatement, edits: TextEdit[]): string {
+		return applyTextEdits(statement.sql || '', edits, statement.range?.start ?? 0);
+	}
+
+	private _whereEdit(statement: ParsedStatement, whereRange: SourceRange): TextEdit {
+		return whereClauseEdit(statement.sql || '', whereRange, statement.where?.trim() ?? '', statement.range?.start ?? 0);
+	}
+
+	private _quote(identifier: string): string {
+		return quoteIdentifier(identifier, this._dialect);
+	}
+
+	private _formatColumnList(columns: string[]): string {
+		return `(${columns.map(col => this._quote(col)).join(', ')})`;
+	}
+
+	private _formatRow(row: SQLValue[]): string {
+		return `(${row.map(val => this._formatSQLValue(val)).join(', ')})`;
+	}
+
+	private _formatSQLValue(value: SQLValue): string {
+		return formatSQLValue(value, this._dialect);
 	}
 
 	private _handleAddColumn(statementIndex: number) {
@@ -330,7 +802,7 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		}
 
 		const sqlContent = this._currentDocument.getText();
-		const parsedData = this._sqlParser.parseSQL(sqlContent);
+		const parsedData = this._parseDocument(this._currentDocument, sqlContent);
 		
 		if (!parsedData.success || !parsedData.statements[statementIndex]) {
 			return;
@@ -349,16 +821,28 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 			
 			statement.columns.push(newColumnName);
 			
-			// 既存の行データに新しいカラム用の空の値を追加
+			// 既存の行データに新しいカラム用のNULLを追加
 			if (statement.values) {
 				statement.values.forEach(row => {
-					row.push('');
+					row.push(nullValue());
 				});
 			}
+
+			// カラムリストと各行の閉じ括弧の直前に追記する(行内のコメントも残る)
+			if (statement.columnsRange && statement.rowRanges) {
+				const insertBeforeClose = (range: SourceRange, text: string): TextEdit => ({
+					range: { start: range.end - 1, end: range.end - 1 },
+					text
+				});
+				this._applyTextEdits([
+					insertBeforeClose(statement.columnsRange, `, ${this._quote(newColumnName)}`),
+					...statement.rowRanges.map(range => insertBeforeClose(range, `, ${this._formatSQLValue(nullValue())}`))
+				]);
+				return;
+			}
 		}
 
-		const newSQL = this._generateSQLFromData(parsedData);
-		this._updateSQLFile(newSQL);
+		this._applyStatementEdit(statement);
 	}
 
 	private _handleDeleteColumn(statementIndex: number, columnIndex: number) {
@@ -367,7 +851,7 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		}
 
 		const sqlContent = this._currentDocument.getText();
-		const parsedData = this._sqlParser.parseSQL(sqlContent);
+		const parsedData = this._parseDocument(this._currentDocument, sqlContent);
 		
 		if (!parsedData.success || !parsedData.statements[statementIndex]) {
 			return;
@@ -376,6 +860,13 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		const statement = parsedData.statements[statementIndex];
 
 		if (statement.type === 'insert' && statement.columns && columnIndex < statement.columns.length) {
+			// カラム名と各行の値を区切りのカンマごと取り除く(他のカラム名や値は書いたまま残す)
+			const edits = this._removeInsertColumnEdits(statement, columnIndex);
+			if (edits) {
+				this._applyTextEdits(edits);
+				return;
+			}
+
 			// カラムを削除
 			statement.columns.splice(columnIndex, 1);
 			
@@ -387,10 +878,33 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 					}
 				});
 			}
+
+			if (this._applyInsertPartEdits(statement)) {
+				return;
+			}
+		}
+
+		this._applyStatementEdit(statement);
+	}
+
+	private _removeInsertColumnEdits(statement: ParsedStatement, columnIndex: number): TextEdit[] | undefined {
+		const { columns, columnRanges, values } = statement;
+		if (!columns || !values || columnRanges?.length !== columns.length || statement.valueRanges?.length !== values.length) {
+			return undefined;
 		}
 
-		const newSQL = this._generateSQLFromData(parsedData);
-		this._updateSQLFile(newSQL);
+		const edits = [removeListItem(columnRanges, columnIndex)];
+		for (let rowIndex = 0; rowIndex < values.length; rowIndex++) {
+			// 値の足りない行でカラムにあたる値がなければ、その行は変えない
+			if (columnIndex >= values[rowIndex].length) {
+				continue;
+			}
+			if (!this._cellRange(statement, rowIndex, columnIndex)) {
+				return undefined;
+			}
+			edits.push(removeListItem(statement.valueRanges[rowIndex], columnIndex));
+		}
+		return edits;
 	}
 
 	private _handleEditColumnName(statementIndex: number, columnIndex: number, newName: string) {
@@ -399,7 +913,7 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 		}
 
 		const sqlContent = this._currentDocument.getText();
-		const parsedData = this._sqlParser.parseSQL(sqlContent);
+		const parsedData = this._parseDocument(this._currentDocument, sqlContent);
 		
 		if (!parsedData.success || !parsedData.statements[statementIndex]) {
 			return;
@@ -409,23 +923,216 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
 
 		if (statement.type === 'insert' && statement.columns && columnIndex < statement.columns.length) {
 			statement.columns[columnIndex] = newName;
+
+			// 名前を変えたカラムだけを書き換える(他のカラム名は引用符の有無も含めて書いたまま残す)
+			const range = statement.columnRanges?.[columnIndex];
+			if (range && statement.columnRanges!.length === statement.columns.length) {
+				this._applyTextEdits([{ range, text: this._quote(newName) }]);
+				return;
+			}
+			if (statement.columnsRange) {
+				this._applyTextEdits([{
+					range: statement.columnsRange,
+					text: this._formatColumnList(statement.columns)
+				}]);
+				return;
+			}
+		}
+
+		this._applyStatementEdit(statement);
+	}
+
+	private _getCreateTableStatement(statementIndex: number): { statement: ParsedStatement; sqlContent: string } | undefined {
+		if (!this._currentDocument) {
+			return undefined;
+		}
+
+		const sqlContent = this._currentDocument.getText();
+		const parsedData = this._parseDocument(this._currentDocument, sqlContent);
+		const statement = parsedData.statements[statementIndex];
+		if (!parsedData.success || !statement || statement.type !== 'create_table'
+			|| !statement.columnDefinitions || !statement.definitionRanges) {
+			return undefined;
+		}
+
+		return { statement, sqlContent };
+	}
+
+	private _handleEditColumnDefinition(statementIndex: number, columnIndex: number, definition: ColumnDefinition) {
+		const target = this._getCreateTableStatement(statementIndex);
+		const range = target?.statement.definitionRanges?.[columnIndex];
+		if (!target || !range) {
+			return;
+		}
+
+		// 名前と型のないカラム定義は正しいDDLにならないので書き込まない
+		if (!definition.name.trim() || !definition.dataType.trim()) {
+			vscode.window.showErrorMessage('カラム名とデータ型は省略できません');
+			this.refresh();
+			return;
+		}
+
+		// 名前を変えていなければ元の書き方(引用符の有無)のまま残す
+		const original = target.statement.columnDefinitions![columnIndex];
+		const nameText = definition.name.trim() === original.name
+			? /^("(?:[^"]|"")*"|`(?:[^`]|``)*`|\[[^\]]*\]|[^\s(]+)/.exec(target.sqlContent.substring(range.start, range.end))?.[0]
+			: undefined;
+		this._applyTextEdits([{ range, text: this._formatColumnDefinition(definition, nameText) }]);
+	}
+
+	private _handleAddColumnDefinition(statementIndex: number) {
+		const target = this._getCreateTableStatement(statementIndex);
+		if (!target) {
+			return;
+		}
+
+		const { statement, sqlContent } = target;
+		const definitions = statement.columnDefinitions!;
+		const ranges = statement.definitionRanges!;
+		if (ranges.length === 0) {
+			return;
+		}
+
+		let newColumnName = 'column1';
+		let counter = 1;
+		while (definitions.some(definition => definition.name === newColumnName)) {
+			counter++;
+			newColumnName = `column${counter}`;
+		}
+
+		// 既存のカラム定義と同じ改行・インデントで最後のカラム定義の後ろに追加する
+		const lastRange = ranges[ranges.length - 1];
+		let separator = ', ';
+		if (ranges.length > 1) {
+			const between = sqlContent.substring(ranges[ranges.length - 2].end, lastRange.start);
+			if (between.includes('\n')) {
+				separator = ',\n' + between.substring(between.lastIndexOf('\n') + 1);
+			}
+		}
+
+		const definition: ColumnDefinition = {
+			name: newColumnName,
+			dataType: 'VARCHAR(255)',
+			nullable: null,
+			primaryKey: false,
+			unique: false
+		};
+		this._applyTextEdits([{
+			range: { start: lastRange.end, end: lastRange.end },
+			text: separator + this._formatColumnDefinition(definition)
+		}]);
+	}
+
+	private _handleDeleteColumnDefinition(statementIndex: number, columnIndex: number) {
+		const target = this._getCreateTableStatement(statementIndex);
+		const ranges = target?.statement.definitionRanges;
+		if (!ranges || !ranges[columnIndex]) {
+			return;
+		}
+
+		if (ranges.length === 1) {
+			vscode.window.showErrorMessage('テーブルには少なくとも1つのカラムが必要です');
+			return;
 		}
 
-		const newSQL = this._generateSQLFromData(parsedData);
-		this._updateSQLFile(newSQL);
+		// カラム定義とその区切りのカンマだけを削除する
+		const range = columnIndex > 0
+			? { start: ranges[columnIndex - 1].end, end: ranges[columnIndex].end }
+			: { start: ranges[0].start, end: ranges[1].start };
+		this._applyTextEdits([{ range, text: '' }]);
 	}
 
-	private _updateSQLFile(sql: string) {
-		const activeEditor = vscode.window.activeTextEditor;
-		if (activeEditor && activeEditor.document.languageId === 'sql') {
-			const edit = new vscode.WorkspaceEdit();
-			const fullRange = new vscode.Range(
-				activeEditor.document.positionAt(0),
-				activeEditor.document.positionAt(activeEditor.document.getText().length)
-			);
-			edit.replace(activeEditor.document.uri, fullRange, sql);
-			vscode.workspace.applyEdit(edit);
+	private _handleMoveColumnDefinition(statementIndex: number, columnIndex: number, offset: number) {
+		const target = this._getCreateTableStatement(statementIndex);
+		const ranges = target?.statement.definitionRanges;
+		const otherIndex = columnIndex + offset;
+		if (!target || !ranges || !ranges[columnIndex] || !ranges[otherIndex]) {
+			return;
+		}
+
+		// 2つのカラム定義のテキストを入れ替える(間のコメントや改行はそのまま)
+		const textOf = (range: SourceRange) => target.sqlContent.substring(range.start, range.end);
+		this._applyTextEdits([
+			{ range: ranges[columnIndex], text: textOf(ranges[otherIndex]) },
+			{ range: ranges[otherIndex], text: textOf(ranges[columnIndex]) }
+		]);
+	}
+
+	private _formatColumnDefinition(definition: ColumnDefinition, nameText?: string): string {
+		const parts = [nameText ?? this._quote(definition.name.trim()), definition.dataType.trim()];
+		if (definition.nullable === false) {
+			parts.push('NOT NULL');
+		} else if (definition.nullable === true) {
+			parts.push('NULL');
+		}
+		if (definition.defaultValue) {
+			parts.push(`DEFAULT ${definition.defaultValue}`);
 		}
+		if (definition.primaryKey) {
+			parts.push('PRIMARY KEY');
+		}
+		if (definition.unique) {
+			parts.push('UNIQUE');
+		}
+		if (definition.references) {
+			parts.push(`REFERENCES ${definition.references}`);
+		}
+		if (definition.extra) {
+			parts.push(definition.extra);
+		}
+		return parts.join(' ');
+	}
+
+	// 編集した文の範囲だけを置き換える(ファイルの他の部分はそのまま残す)
+	private _applyStatementEdit(statement: ParsedStatement) {
+		if (!statement.range) {
+			return;
+		}
+
+		const sql = this._generateStatementSQL(statement);
+		if (!sql) {
+			vscode.window.showErrorMessage('SET句やWHERE句の位置が分からないため、この変更は書き込みませんでした');
+			return;
+		}
+
+		// 書き換えた文のWHERE句が、意図した条件(WHERE句を編集していなければ元の条件)と同じでなければ書き込まない
+		if (!keepsWhereClause(statement, this._sqlParser.parseSQL(sql, this._dialect))) {
+			vscode.window.showErrorMessage('WHERE句を保持できないため、この変更は書き込みませんでした');
+			return;
+		}
+
+		this._applyTextEdits([{ range: statement.range, text: sql }]);
+	}
+
+	// INSERTのカラムリストと各行を個別に書き換える(行の間のコメントや改行は残す)
+	private _applyInsertPartEdits(statement: ParsedStatement): boolean {
+		if (!statement.columns || !statement.values || !statement.columnsRange || !statement.rowRanges) {
+			return false;
+		}
+
+		const values = statement.values;
+		this._applyTextEdits([
+			{ range: statement.columnsRange, text: this._formatColumnList(statement.columns) },
+			...statement.rowRanges.map((range, index) => ({ range, text: this._formatRow(values[index]) }))
+		]);
+		return true;
+	}
+
+	// 複数の範囲の置き換えを1回の編集(1回のUndo)として適用する
+	private _applyTextEdits(edits: TextEdit[]) {
+		const document = this._currentDocument;
+		if (!document) {
+			return;
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		edits.forEach(({ range, text }) => {
+			edit.replace(document.uri, new vscode.Range(
+				document.positionAt(range.start),
+				document.positionAt(range.end)
+			), text);
+		});
+		vscode.workspace.applyEdit(edit);
 	}
 
 	private _getHtmlForWebview(webview: vscode.Webview) {
@@ -485,10 +1192,157 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
             border-radius: 4px;
             padding: 10px;
         }
+        .statement-comments {
+            margin: 0 0 8px 0;
+            color: var(--vscode-descriptionForeground);
+            font-family: var(--vscode-editor-font-family);
+            white-space: pre-wrap;
+        }
+        .sql-block {
+            margin: 0;
+            padding: 8px;
+            font-family: var(--vscode-editor-font-family);
+            white-space: pre-wrap;
+            background-color: var(--vscode-textCodeBlock-background);
+            border-radius: 4px;
+        }
         .statement-container h4 {
             margin: 0 0 10px 0;
             color: var(--vscode-textLink-foreground);
         }
+        .export-menu {
+            float: right;
+            font-size: 11px;
+            font-weight: normal;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+        }
+        .statement-number {
+            margin-right: 6px;
+            color: var(--vscode-descriptionForeground);
+            font-weight: normal;
+        }
+        .highlighted-statement {
+            outline: 2px solid var(--vscode-focusBorder);
+        }
+        .selected-statement {
+            border-left: 3px solid var(--vscode-focusBorder);
+        }
+        .range-cell {
+            background-color: var(--vscode-editor-selectionBackground);
+        }
+        .range-toolbar {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 6px;
+            margin-bottom: 6px;
+        }
+        .selected-row, .selected-cell {
+            outline: 2px solid var(--vscode-focusBorder);
+            outline-offset: -2px;
+        }
+        .changed-row {
+            background-color: var(--vscode-diffEditor-insertedLineBackground);
+        }
+        .changed-cell {
+            font-weight: bold;
+            background-color: var(--vscode-diffEditor-insertedTextBackground);
+        }
+        .matched-row {
+            outline: 1px solid var(--vscode-editorWarning-foreground);
+            background-color: var(--vscode-editor-findMatchHighlightBackground);
+        }
+        .where-warning {
+            margin-top: 8px;
+            color: var(--vscode-editorWarning-foreground);
+            font-size: 12px;
+        }
+        .where-modes {
+            margin-left: auto;
+            display: flex;
+            gap: 4px;
+        }
+        .where-modes button, .where-add, .where-remove, .where-actions button {
+            background-color: transparent;
+            color: var(--vscode-foreground);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 3px;
+            padding: 1px 6px;
+            font-size: 12px;
+            font-weight: normal;
+            cursor: pointer;
+        }
+        .where-modes button.active, .where-actions .where-apply {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .where-actions {
+            display: flex;
+            gap: 4px;
+            margin-top: 8px;
+        }
+        .where-actions button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .where-remove {
+            color: var(--vscode-errorForeground);
+        }
+        .where-group {
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+            margin-left: 16px;
+            padding-left: 8px;
+            border-left: 2px solid var(--vscode-panel-border);
+        }
+        .where-group.where-root {
+            margin-left: 0;
+            padding-left: 0;
+            border-left: none;
+        }
+        .where-row {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 4px;
+        }
+        .where-row select {
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+        }
+        .where-row .where-value, .where-row .where-raw {
+            width: 140px;
+            padding: 1px 4px;
+            border: 1px solid var(--vscode-input-border);
+            background-color: var(--vscode-input-background);
+            outline: none;
+        }
+        .where-row .where-raw {
+            flex: 1;
+            font-family: var(--vscode-editor-font-family);
+        }
+        .where-keyword {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .where-preview {
+            font-family: var(--vscode-editor-font-family);
+        }
+        .statement-link {
+            background: none;
+            border: none;
+            padding: 0 2px;
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            font-size: 12px;
+        }
+        .statement-link:hover {
+            text-decoration: underline;
+        }
         .table-container {
             margin-top: 10px;
             overflow-x: auto;
@@ -509,6 +1363,74 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
         .table-container::-webkit-scrollbar-thumb:hover {
             background: var(--vscode-scrollbarSlider-activeBackground);
         }
+        .virtual-spacer td {
+            padding: 0;
+            border: none;
+        }
+        .mismatch-row td {
+            background-color: var(--vscode-inputValidation-errorBackground);
+        }
+        .constraint-error {
+            background-color: var(--vscode-inputValidation-errorBackground);
+            outline: 1px solid var(--vscode-inputValidation-errorBorder);
+            outline-offset: -1px;
+        }
+        .orphan-value {
+            outline: 1px dashed var(--vscode-editorWarning-foreground);
+            outline-offset: -1px;
+        }
+        .fk-picker {
+            position: relative;
+            flex: 1;
+        }
+        .fk-picker .cell-input {
+            width: 100%;
+        }
+        .fk-options {
+            position: absolute;
+            top: 100%;
+            left: 0;
+            z-index: 10;
+            min-width: 100%;
+            max-height: 240px;
+            overflow-y: auto;
+            margin: 0;
+            padding: 0;
+            list-style: none;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+        }
+        .fk-options li {
+            display: flex;
+            gap: 8px;
+            padding: 2px 6px;
+            white-space: nowrap;
+            cursor: pointer;
+        }
+        .fk-options li:hover, .fk-options li.active {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+        .fk-options li.fk-note {
+            cursor: default;
+            font-style: italic;
+            color: var(--vscode-descriptionForeground);
+            background-color: transparent;
+        }
+        .fk-label {
+            margin-left: 6px;
+            color: var(--vscode-descriptionForeground);
+            font-size: 0.9em;
+        }
+        .fk-options .fk-label {
+            margin-left: 0;
+        }
+        .missing-cell {
+            color: var(--vscode-errorForeground);
+            font-style: italic;
+            border: 1px dashed var(--vscode-inputValidation-errorBorder);
+        }
         .sql-table {
             width: 100%;
             min-width: max-content;
@@ -553,6 +1475,31 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
             margin: 0;
             outline: 2px solid var(--vscode-focusBorder);
         }
+        .type-badge {
+            margin-left: 6px;
+            padding: 0 4px;
+            border-radius: 3px;
+            font-size: 0.8em;
+            font-weight: normal;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .sql-expression {
+            font-family: var(--vscode-editor-font-family);
+            white-space: pre-wrap;
+        }
+        .expression-value, .expression-input {
+            font-family: var(--vscode-editor-font-family);
+            color: var(--vscode-symbolIcon-functionForeground, var(--vscode-textLink-foreground));
+        }
+        .expression-toggle.active {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .invalid-value {
+            color: var(--vscode-errorForeground);
+            text-decoration: wavy underline;
+        }
         .add-row-btn, .delete-btn {
             background-color: var(--vscode-button-background);
             color: var(--vscode-button-foreground);
@@ -565,6 +1512,9 @@ export class SQLViewerProvider implements vscode.WebviewViewProvider {
         .add-row-btn:hover, .delete-btn:hover {
             background-color: var(--vscode-button-hoverBackground);
         }
+        .add-row-btn.active {
+            outline: 1px solid var(--vscode-focusBorder);
+        }
         .delete-btn {
             background-color: var(--vscode-errorForeground);
             color: white;
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { fillDown, fillSeries, mapRange, pasteToEdits, toCellRange } from '../webview/cellRange';
+import { SQLValue, numberValue, stringValue, nullValue } from '../sqlValue';
+
+suite('cellRange', () => {
+	const values: SQLValue[][] = [
+		[numberValue('1'), stringValue('user01'), stringValue('2024-01-31')],
+		[numberValue('3'), stringValue('x')],
+		[numberValue('5'), stringValue('y'), stringValue('z')]
+	];
+	const cells = (edits: { rowIndex: number; columnIndex: number }[]) => edits.map(edit => [edit.rowIndex, edit.columnIndex]);
+
+	test('fillDown copies the top row and skips cells missing from short rows', () => {
+		const edits = fillDown(values, toCellRange({ row: 0, col: 0 }, { row: 2, col: 2 }));
+		assert.deepStrictEqual(cells(edits), [[1, 0], [1, 1], [2, 0], [2, 1], [2, 2]]);
+		assert.deepStrictEqual(edits.find(edit => edit.rowIndex === 2 && edit.columnIndex === 2)?.value, stringValue('2024-01-31'));
+	});
+
+	test('fillDown leaves columns alone when the top row has no value there', () => {
+		const edits = fillDown(values, toCellRange({ row: 1, col: 2 }, { row: 2, col: 2 }));
+		assert.deepStrictEqual(edits, []);
+	});
+
+	test('fillSeries continues numbers, dates and numbered strings', () => {
+		const edits = fillSeries(values, toCellRange({ row: 0, col: 0 }, { row: 2, col: 2 }));
+		const valueAt = (row: number, col: number) => edits.find(edit => edit.rowIndex === row && edit.columnIndex === col)?.value;
+		assert.deepStrictEqual(valueAt(2, 0), numberValue('5'));
+		assert.deepStrictEqual(valueAt(2, 1), stringValue('user03'));
+		assert.deepStrictEqual(valueAt(2, 2), stringValue('2024-02-02'));
+		assert.strictEqual(valueAt(1, 2), undefined);
+	});
+
+	test('mapRange only touches existing cells', () => {
+		const edits = mapRange(values, toCellRange({ row: 1, col: 1 }, { row: 1, col: 2 }), () => nullValue());
+		assert.deepStrictEqual(cells(edits), [[1, 1]]);
+	});
+
+	test('pasteToEdits drops values beyond the column count and maps columns', () => {
+		const pasted = pasteToEdits([['a', 'b', 'c'], ['d']], { row: 1, col: 1 }, 3, text => stringValue(text));
+		assert.deepStrictEqual(cells(pasted.edits), [[1, 1], [1, 2], [2, 1]]);
+		assert.strictEqual(pasted.droppedValues, 1);
+
+		const mapped = pasteToEdits([['a', 'b']], { row: 0, col: 0 }, 3, text => stringValue(text), [2, -1]);
+		assert.deepStrictEqual(cells(mapped.edits), [[0, 2]]);
+		assert.strictEqual(mapped.droppedValues, 1);
+	});
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { TypeCategory, classifyDataType, getTypeBadge, isQuotedCategory, validateValueType } from '../columnTypes';
+import { SQLValue, booleanValue, expressionValue, nullValue, numberValue, stringValue } from '../sqlValue';
+
+suite('columnTypes', () => {
+	test('classifies declared types across dialects', () => {
+		const categories = ['INT', 'bigint unsigned', 'BIGSERIAL', 'DECIMAL(10, 2)', 'double precision', 'BOOLEAN', 'DATE',
+			'timestamp with time zone', 'TIME', 'NVARCHAR(20)', 'character varying(5)', 'uuid', 'JSONB', 'BLOB']
+			.map(dataType => classifyDataType(dataType).category);
+		assert.deepStrictEqual(categories, ['integer', 'integer', 'integer', 'decimal', 'decimal', 'boolean', 'date',
+			'datetime', 'time', 'string', 'string', 'string', 'json', 'other']);
+		assert.strictEqual(classifyDataType('VARCHAR ( 100 )').maxLength, 100);
+		assert.strictEqual(classifyDataType('character varying(5)').maxLength, 5);
+		assert.strictEqual(classifyDataType('TEXT').maxLength, undefined);
+	});
+
+	test('shortens type names for badges', () => {
+		assert.strictEqual(getTypeBadge(classifyDataType('varchar(100)')), 'VARCHAR(100)');
+		assert.strictEqual(getTypeBadge(classifyDataType('timestamp with time zone')), 'TIMESTAMP');
+		assert.strictEqual(getTypeBadge(classifyDataType('DECIMAL(10, 2)')), 'DECIMAL(10,2)');
+	});
+
+	test('reports values that do not fit the declared type', () => {
+		const problem = (dataType: string, value: SQLValue) => validateValueType(value, classifyDataType(dataType)) !== undefined;
+		assert.deepStrictEqual([
+			problem('INT', numberValue('12')),
+			problem('INT', numberValue('1.5')),
+			problem('INT', booleanValue(true)),
+			problem('DECIMAL', numberValue('1e3')),
+			problem('BOOLEAN', numberValue('1')),
+			problem('BOOLEAN', stringValue('yes')),
+			problem('DATE', stringValue('2024-02-30')),
+			problem('DATE', stringValue('2024-02-29')),
+			problem('DATETIME', stringValue('2024-01-01T10:00:00Z')),
+			problem('TIME', stringValue('25')),
+			problem('VARCHAR(3)', stringValue('日本語')),
+			problem('VARCHAR(3)', stringValue('abcd')),
+			problem('JSON', stringValue('{"a":1}')),
+			problem('JSON', stringValue('{a}'))
+		], [false, true, true, false, false, true, true, false, false, true, false, true, false, true]);
+	});
+
+	test('skips NULL and SQL expressions', () => {
+		assert.strictEqual(validateValueType(nullValue(), classifyDataType('INT')), undefined);
+		assert.strictEqual(validateValueType(expressionValue('NOW()'), classifyDataType('DATE')), undefined);
+	});
+
+	test('quotes text, temporal and JSON types only', () => {
+		const categories: TypeCategory[] = ['string', 'date', 'datetime', 'time', 'json', 'integer', 'decimal', 'boolean', 'other'];
+		assert.deepStrictEqual(categories.map(isQuotedCategory), [true, true, true, true, true, false, false, false, false]);
+	});
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { createImportPlan, inferKind, toSQLValue } from '../csvMapping';
+import { classifyDataType } from '../columnTypes';
+import { booleanValue, nullValue, numberValue, stringValue } from '../sqlValue';
+
+suite('csvMapping type inference', () => {
+	test('infers numbers, booleans and strings from every non-empty value', () => {
+		assert.strictEqual(inferKind(['1', '-2.5', ' 30 ']), 'number');
+		assert.strictEqual(inferKind(['true', 'FALSE']), 'boolean');
+		assert.strictEqual(inferKind(['1', 'abc']), 'string');
+		assert.strictEqual(inferKind([]), 'string');
+	});
+
+	test('numbers with leading zeros stay strings', () => {
+		assert.strictEqual(inferKind(['01234', '5']), 'string');
+		assert.strictEqual(inferKind(['0', '0.5']), 'number');
+	});
+
+	test('empty values and the NULL token do not decide the kind', () => {
+		const plan = createImportPlan([['id', 'flag'], ['1', 'true'], ['', '\\N'], ['\\N', 'false']], true, undefined, undefined, '\\N');
+		assert.deepStrictEqual(plan.columnKinds, ['id: 数値(推定)', 'flag: 真偽値(推定)']);
+		assert.deepStrictEqual(plan.rows, [
+			[numberValue('1'), booleanValue(true)],
+			[nullValue(), nullValue()],
+			[nullValue(), booleanValue(false)]
+		]);
+	});
+
+	test('empty values become empty strings only in string columns', () => {
+		assert.deepStrictEqual(toSQLValue('', '\\N', undefined, 'string'), stringValue(''));
+		assert.deepStrictEqual(toSQLValue('', '\\N', undefined, 'number'), nullValue());
+		assert.deepStrictEqual(toSQLValue('', '', undefined, 'string'), nullValue());
+	});
+
+	test('declared column types take precedence over inference', () => {
+		const text = classifyDataType('VARCHAR(10)');
+		assert.deepStrictEqual(toSQLValue('01234', '', text, 'number'), stringValue('01234'));
+		assert.deepStrictEqual(toSQLValue('NULL', '', text, 'string'), stringValue('NULL'));
+		assert.deepStrictEqual(toSQLValue('42', '', classifyDataType('INT'), 'string'), numberValue('42'));
+		assert.deepStrictEqual(toSQLValue('', '\\N', classifyDataType('INT'), 'string'), nullValue());
+	});
+});
+
+suite('csvMapping column mapping', () => {
+	test('maps header names to INSERT columns case-insensitively and fills the rest with NULL', () => {
+		const plan = createImportPlan(
+			[['NAME', 'extra', 'Id'], ['alice', 'x', '1']],
+			true,
+			{ columns: ['id', 'name', 'note'] },
+			undefined,
+			''
+		);
+		assert.deepStrictEqual(plan.columns, ['id', 'name', 'note']);
+		assert.deepStrictEqual(plan.rows, [[numberValue('1'), stringValue('alice'), nullValue()]]);
+		assert.deepStrictEqual(plan.warnings, [
+			'CSVにないカラムはNULLにします: note',
+			'INSERTにないCSVの列は取り込みません: extra'
+		]);
+	});
+
+	test('refuses a header that shares no name with the INSERT columns', () => {
+		assert.throws(() => createImportPlan([['a'], ['1']], true, { columns: ['id'] }, undefined, ''), /同じ名前がありません/);
+	});
+
+	test('maps columns by position when there is no header', () => {
+		const plan = createImportPlan([['1', 'alice']], false, { columns: ['id', 'name'] }, undefined, '');
+		assert.deepStrictEqual(plan.rows, [[numberValue('1'), stringValue('alice')]]);
+		assert.throws(() => createImportPlan([['1']], false, { columns: ['id', 'name'] }, undefined, ''), /一致しません/);
+	});
+
+	test('uses the table definition for a new INSERT when the widths match', () => {
+		const definitions = [{ name: 'id', dataType: 'INT' }, { name: 'code', dataType: 'CHAR(5)' }];
+		const plan = createImportPlan([['1', '00123']], false, undefined, definitions, '');
+		assert.deepStrictEqual(plan.columns, ['id', 'code']);
+		assert.deepStrictEqual(plan.rows, [[numberValue('1'), stringValue('00123')]]);
+		assert.deepStrictEqual(createImportPlan([['1']], false, undefined, definitions, '').columns, ['column1']);
+	});
+
+	test('warns about short rows and columns beyond the header', () => {
+		const plan = createImportPlan([['a'], ['1', '2'], []], true, undefined, undefined, '');
+		assert.deepStrictEqual(plan.columns, ['a']);
+		assert.deepStrictEqual(plan.warnings, [
+			'見出しより後ろの列は取り込みません(1 列)',
+			'列が足りない 1 行は、足りない値を空欄として扱います'
+		]);
+	});
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { ExportTable, formatExport } from '../dataExport';
+import { booleanValue, expressionValue, nullValue, numberValue, stringValue } from '../sqlValue';
+
+suite('dataExport', () => {
+	const table: ExportTable = {
+		tableName: 'users',
+		columns: ['id', 'name', 'active', 'created at'],
+		rows: [
+			[numberValue('1'), stringValue('Smith, J'), booleanValue(true), expressionValue('NOW()')],
+			[numberValue('12345678901234567890'), stringValue('a|b\nc'), nullValue(), stringValue('2024-01-01')]
+		]
+	};
+
+	test('CSV and TSV quote fields that need it and write NULL as the configured text', () => {
+		assert.strictEqual(formatExport(table, 'csv', '\\N'),
+			'id,name,active,created at\n1,"Smith, J",TRUE,NOW()\n12345678901234567890,"a|b\nc",\\N,2024-01-01\n');
+		assert.strictEqual(formatExport(table, 'tsv', ''), 'id\tname\tactive\tcreated at\n1\tSmith, J\tTRUE\tNOW()\n12345678901234567890\t"a|b\nc"\t\t2024-01-01\n');
+	});
+
+	test('JSON keeps large numbers as strings', () => {
+		assert.deepStrictEqual(JSON.parse(formatExport(table, 'json', '')), [
+			{ id: 1, name: 'Smith, J', active: true, 'created at': 'NOW()' },
+			{ id: '12345678901234567890', name: 'a|b\nc', active: null, 'created at': '2024-01-01' }
+		]);
+	});
+
+	test('Markdown escapes pipes and line breaks', () => {
+		assert.strictEqual(formatExport(table, 'markdown', '').split('\n')[3], '| 12345678901234567890 | a\\|b<br>c | NULL | 2024-01-01 |');
+	});
+
+	test('YAML quotes keys that are not plain names', () => {
+		assert.strictEqual(formatExport(table, 'yaml', ''), [
+			'users:',
+			'  - id: 1',
+			'    name: "Smith, J"',
+			'    active: true',
+			'    "created at": "NOW()"',
+			'  - id: "12345678901234567890"',
+			'    name: "a|b\\nc"',
+			'    active: null',
+			'    "created at": "2024-01-01"',
+			''
+		].join('\n'));
+		assert.strictEqual(formatExport({ ...table, rows: [] }, 'yaml', ''), 'users: []\n');
+	});
+});
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { detectDelimiter, formatDelimited, parseDelimited } from '../delimitedText';
+
+suite('delimitedText', () => {
+	test('parses quoted fields containing delimiters, newlines and quotes', () => {
+		const rows = parseDelimited('id,name,note\r\n1,"Smith, J","say ""hi""\nthen leave"\n', ',');
+		assert.deepStrictEqual(rows, [['id', 'name', 'note'], ['1', 'Smith, J', 'say "hi"\nthen leave']]);
+	});
+
+	test('skips empty lines but keeps empty fields', () => {
+		assert.deepStrictEqual(parseDelimited('a\t\tc\n\n\t\n""\n', '\t'), [['a', '', 'c'], ['', ''], ['']]);
+	});
+
+	test('formatting and parsing give back the same rows', () => {
+		const rows = [['id', 'text'], ['1', 'tab\there'], ['2', 'line\nbreak'], ['3', '"quoted"'], ['4', '']];
+		for (const delimiter of [',', '\t']) {
+			assert.deepStrictEqual(parseDelimited(formatDelimited(rows, delimiter), delimiter), rows);
+		}
+		assert.strictEqual(formatDelimited([['a,b', 'c']], '\t'), 'a,b\tc');
+	});
+
+	test('detects the delimiter from the first line', () => {
+		assert.strictEqual(detectDelimiter('a\tb,c\n1,2,3'), '\t');
+		assert.strictEqual(detectDelimiter('a;b;c,d\n'), ';');
+		assert.strictEqual(detectDelimiter('a,b\n1;2;3;4'), ',');
+	});
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { SQLParser } from '../sqlParser';
+import { foreignKeysOf, parseReference } from '../foreignKeys';
+
+suite('foreignKeys', () => {
+	test('parses a plain table and column', () => {
+		assert.deepStrictEqual(parseReference('users(id) ON DELETE CASCADE'), { table: 'users', columns: ['id'] });
+		assert.deepStrictEqual(parseReference(' users ( id ) '), { table: 'users', columns: ['id'] });
+	});
+
+	test('a reference without columns points at the primary key', () => {
+		assert.deepStrictEqual(parseReference('users'), { table: 'users', columns: [] });
+		assert.deepStrictEqual(parseReference('users ON UPDATE CASCADE'), { table: 'users', columns: [] });
+	});
+
+	test('unquotes quoted names in every dialect style', () => {
+		assert.deepStrictEqual(parseReference('"User Accounts" ("Account ID")'), { table: 'User Accounts', columns: ['Account ID'] });
+		assert.deepStrictEqual(parseReference('`order items`(`item id`)'), { table: 'order items', columns: ['item id'] });
+		assert.deepStrictEqual(parseReference('[dbo].[Users] ([Id])'), { table: 'Users', columns: ['Id'] });
+		assert.deepStrictEqual(parseReference('"say ""hi"""(id)'), { table: 'say "hi"', columns: ['id'] });
+	});
+
+	test('drops the schema of a qualified table', () => {
+		assert.deepStrictEqual(parseReference('app.users(id)'), { table: 'users', columns: ['id'] });
+		assert.deepStrictEqual(parseReference('"app" . "users" ("id")'), { table: 'users', columns: ['id'] });
+		assert.deepStrictEqual(parseReference('db.app.users'), { table: 'users', columns: [] });
+		assert.deepStrictEqual(parseReference('"my.schema".users(id)'), { table: 'users', columns: ['id'] });
+	});
+
+	test('returns every column of a composite key', () => {
+		assert.deepStrictEqual(parseReference('orders (tenant_id, "order id")'), { table: 'orders', columns: ['tenant_id', 'order id'] });
+	});
+
+	test('returns nothing when there is no table name', () => {
+		assert.strictEqual(parseReference(''), undefined);
+		assert.strictEqual(parseReference('(id)'), undefined);
+	});
+
+	test('composite foreign keys are not offered as single-column references', () => {
+		const table = new SQLParser().parseSQL(`
+CREATE TABLE order_items (
+    tenant_id INT REFERENCES tenants (id),
+    order_id INT,
+    product_id INT REFERENCES "app"."products" ("id"),
+    FOREIGN KEY (tenant_id, order_id) REFERENCES orders (tenant_id, id),
+    FOREIGN KEY (order_id) REFERENCES "app".orders (id)
+);`, 'postgresql').statements[0];
+		assert.deepStrictEqual(foreignKeysOf({ columns: table.columnDefinitions!, constraints: table.tableConstraints! }), [
+			{ column: 'tenant_id', referencedTable: 'tenants', referencedColumn: 'id' },
+			{ column: 'product_id', referencedTable: 'products', referencedColumn: 'id' },
+			{ column: 'order_id', referencedTable: 'orders', referencedColumn: 'id' }
+		]);
+	});
+});
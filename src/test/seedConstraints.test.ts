@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { SQLParser } from '../sqlParser';
+import { SQLDialect } from '../sqlDialect';
+import { findConstraintViolations } from '../seedConstraints';
+
+suite('seedConstraints', () => {
+	const parser = new SQLParser();
+	const violationsOf = (sql: string, dialect: SQLDialect = 'mysql') =>
+		findConstraintViolations(parser.parseSQL(sql, dialect).statements, () => undefined)
+			.map(violation => [violation.kind, violation.rowIndex]);
+
+	test('NULL in a plain primary key and a NOT NULL column is reported', () => {
+		const violations = violationsOf(`
+CREATE TABLE users (code VARCHAR(10) PRIMARY KEY, name VARCHAR(50) NOT NULL);
+INSERT INTO users (code, name) VALUES (NULL, 'a'), ('b', NULL);`);
+		assert.deepStrictEqual(violations, [['not_null', 0], ['not_null', 1]]);
+	});
+
+	test('NULL in an auto-generated primary key is allowed', () => {
+		assert.deepStrictEqual(violationsOf(`
+CREATE TABLE users (id INT NOT NULL AUTO_INCREMENT PRIMARY KEY, name VARCHAR(50));
+INSERT INTO users (id, name) VALUES (NULL, 'a');`), []);
+		assert.deepStrictEqual(violationsOf(`
+CREATE TABLE users (id SERIAL PRIMARY KEY, name VARCHAR(50));
+INSERT INTO users (id, name) VALUES (NULL, 'a');`, 'postgresql'), []);
+	});
+
+	test('NULL in a SQLite INTEGER PRIMARY KEY is allowed, but not in a composite key', () => {
+		assert.deepStrictEqual(violationsOf(`
+CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+INSERT INTO users (id, name) VALUES (NULL, 'a');`, 'sqlite'), []);
+		assert.deepStrictEqual(violationsOf(`
+CREATE TABLE members (group_id INTEGER, user_id INTEGER, PRIMARY KEY (group_id, user_id));
+INSERT INTO members (group_id, user_id) VALUES (NULL, 1);`, 'sqlite'), [['not_null', 0]]);
+	});
+
+	test('duplicate keys are reported against the earlier row', () => {
+		const violations = violationsOf(`
+CREATE TABLE users (id INT PRIMARY KEY, email VARCHAR(50) UNIQUE);
+INSERT INTO users (id, email) VALUES (1, 'a@example.com'), (2, 'a@example.com'), (1, 'b@example.com');`);
+		assert.deepStrictEqual(violations, [['duplicate_key', 1], ['duplicate_key', 2]]);
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { detectDialectFromHeader, quoteIdentifier, unquoteIdentifier } from '../sqlDialect';
+
+suite('sqlDialect identifiers', () => {
+	test('leaves plain names unquoted', () => {
+		assert.strictEqual(quoteIdentifier('created_at', 'postgresql'), 'created_at');
+		assert.strictEqual(quoteIdentifier('createdAt', 'mysql'), 'createdAt');
+	});
+
+	test('quotes reserved words and names with special characters', () => {
+		assert.strictEqual(quoteIdentifier('order', 'mysql'), '`order`');
+		assert.strictEqual(quoteIdentifier('first name', 'transactsql'), '[first name]');
+		assert.strictEqual(quoteIdentifier('a"b', 'postgresql'), '"a""b"');
+	});
+
+	test('quotes mixed-case names where unquoted identifiers fold to lower case', () => {
+		assert.strictEqual(quoteIdentifier('createdAt', 'postgresql'), '"createdAt"');
+		assert.strictEqual(quoteIdentifier('Users', 'redshift'), '"Users"');
+	});
+
+	test('quotes any name when asked to keep the quotes', () => {
+		assert.strictEqual(quoteIdentifier('id', 'postgresql', true), '"id"');
+		assert.strictEqual(unquoteIdentifier(quoteIdentifier('a"b', 'postgresql', true)), 'a"b');
+	});
+});
+
+suite('sqlDialect header', () => {
+	test('reads the dialect from a comment before the first statement', () => {
+		assert.strictEqual(detectDialectFromHeader('-- visual-sql: dialect=postgresql\nSELECT 1;'), 'postgresql');
+		assert.strictEqual(detectDialectFromHeader('\uFEFF/* visual-sql: dialect = sqlite */\nSELECT 1;'), 'sqlite');
+	});
+
+	test('looks through the whole leading comment block', () => {
+		const sql = '-- seed data for users\n\n/* generated\n   by hand */\n  -- Visual-SQL: dialect=tsql\nSELECT 1;';
+		assert.strictEqual(detectDialectFromHeader(sql), 'transactsql');
+	});
+
+	test('ignores directives after the first statement', () => {
+		assert.strictEqual(detectDialectFromHeader('SELECT 1;\n-- visual-sql: dialect=postgresql\n'), undefined);
+		assert.strictEqual(detectDialectFromHeader("-- header\nINSERT INTO notes VALUES ('\n-- visual-sql: dialect=sqlite\n');"), undefined);
+	});
+
+	test('ignores directives that do not start the comment', () => {
+		assert.strictEqual(detectDialectFromHeader('/* notes\n-- visual-sql: dialect=sqlite */\nSELECT 1;'), undefined);
+	});
+});
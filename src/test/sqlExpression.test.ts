@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { SQLParser } from '../sqlParser';
+import { SQLDialect } from '../sqlDialect';
+import { SQLValue, nullValue, numberValue, stringValue } from '../sqlValue';
+import { evaluateCondition, evaluateExpression } from '../sqlExpression';
+import { matchWorkspaceRows } from '../webview/stateSimulator';
+
+suite('evaluateCondition', () => {
+	const parser = new SQLParser();
+	const row: Record<string, SQLValue> = { id: numberValue(1), name: stringValue('Alice'), note: nullValue() };
+	const lookup = (column: string) => row[column.toLowerCase()];
+	const conditionOf = (where: string, dialect: SQLDialect = 'postgresql') =>
+		parser.parseSQL(`DELETE FROM t WHERE ${where}`, dialect).statements[0].condition!;
+	const evaluate = (where: string, dialect: SQLDialect = 'postgresql') =>
+		evaluateExpression(conditionOf(where, dialect), lookup);
+
+	test('comparisons with NULL are unknown and do not match', () => {
+		assert.strictEqual(evaluate('note = 1'), null);
+		assert.strictEqual(evaluate('note <> 1'), null);
+		assert.strictEqual(evaluateCondition(conditionOf('note <> 1'), lookup), false);
+		assert.strictEqual(evaluate('note IS NULL'), true);
+		assert.strictEqual(evaluate('id IS NOT NULL'), true);
+	});
+
+	test('NOT, AND and OR follow three-valued logic', () => {
+		assert.strictEqual(evaluate('NOT (note = 1)'), null);
+		assert.strictEqual(evaluate('note = 1 OR id = 1'), true);
+		assert.strictEqual(evaluate('note = 1 AND id = 2'), false);
+		assert.strictEqual(evaluate('note = 1 AND id = 1'), null);
+	});
+
+	test('IN with NULL items is unknown when nothing matches', () => {
+		assert.strictEqual(evaluate('id IN (1, NULL)'), true);
+		assert.strictEqual(evaluate('id IN (2, NULL)'), null);
+		assert.strictEqual(evaluate('id NOT IN (2, NULL)'), null);
+		assert.strictEqual(evaluate('id NOT IN (2, 3)'), true);
+		assert.strictEqual(evaluate('note IN (1)'), null);
+	});
+
+	test('LIKE matches % and _ and escaped wildcards', () => {
+		assert.strictEqual(evaluate("name LIKE 'A%'"), true);
+		assert.strictEqual(evaluate("name LIKE 'Al_ce'"), true);
+		assert.strictEqual(evaluate("name LIKE 'a%'"), false);
+		assert.strictEqual(evaluate("name ILIKE 'a%'"), true);
+		assert.strictEqual(evaluate("name NOT LIKE '%\\%'"), true);
+		assert.strictEqual(evaluate("note LIKE '%'"), null);
+	});
+
+	test('string comparison follows the dialect\'s default collation', () => {
+		assert.strictEqual(evaluate("name = 'alice'"), false);
+		const mysql = (where: string) => evaluateCondition(conditionOf(where, 'mysql'), lookup, { ignoreCase: true });
+		assert.strictEqual(mysql("name = 'alice'"), true);
+		assert.strictEqual(mysql("name IN ('ALICE')"), true);
+		assert.strictEqual(mysql("name LIKE 'al%'"), true);
+	});
+});
+
+suite('matchWorkspaceRows', () => {
+	const parser = new SQLParser();
+	const columns = ['id', 'name'];
+	const rows = [[numberValue(1), stringValue('Alice')], [numberValue(2), stringValue('bob')], [numberValue(3), nullValue()]];
+
+	test('returns the rows the WHERE clause matches, ignoring case where the dialect does', () => {
+		const mysql = parser.parseSQL("UPDATE users SET id = 9 WHERE name = 'alice' OR id >= 2", 'mysql').statements[0];
+		assert.deepStrictEqual(matchWorkspaceRows(mysql, columns, rows, 'mysql').map(row => row[0]), [numberValue(1), numberValue(2), numberValue(3)]);
+		const postgres = parser.parseSQL("DELETE FROM users WHERE name = 'alice'", 'postgresql').statements[0];
+		assert.deepStrictEqual(matchWorkspaceRows(postgres, columns, rows, 'postgresql'), []);
+	});
+
+	test('matches every row without a WHERE clause and rejects unknown columns', () => {
+		const all = parser.parseSQL('DELETE FROM users', 'mysql').statements[0];
+		assert.strictEqual(matchWorkspaceRows(all, columns, rows, 'mysql').length, 3);
+		const unknown = parser.parseSQL('DELETE FROM users WHERE missing = 1', 'mysql').statements[0];
+		assert.throws(() => matchWorkspaceRows(unknown, columns, rows, 'mysql'), /missing/);
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { SQLLexer } from '../sqlLexer';
+
+suite('SQLLexer', () => {
+	const lexer = new SQLLexer();
+	const bodies = (sql: string, delimiterDirectives = true) =>
+		lexer.splitStatements(sql, { delimiterDirectives }).map(statement => sql.slice(statement.range.start, statement.range.end));
+
+	test('splits statements and keeps semicolons inside strings and comments', () => {
+		assert.deepStrictEqual(bodies("SELECT ';'; -- a; b\nSELECT /* ; */ 2;"), ["SELECT ';'", 'SELECT /* ; */ 2']);
+	});
+
+	test('records leading and trailing comments', () => {
+		const [first, second] = lexer.splitStatements('-- seed users\nSELECT 1; -- one\nSELECT 2;');
+		assert.deepStrictEqual(first.leadingComments, ['-- seed users']);
+		assert.deepStrictEqual(first.trailingComments, ['-- one']);
+		assert.deepStrictEqual(second.leadingComments, []);
+	});
+
+	test('handles backslash escapes only when enabled', () => {
+		const sql = "SELECT 'a\\'; SELECT 1';";
+		assert.strictEqual(lexer.splitStatements(sql, { backslashEscapes: true }).length, 1);
+		assert.strictEqual(lexer.splitStatements(sql, { backslashEscapes: false }).length, 2);
+	});
+
+	test('switches the delimiter with DELIMITER between statements', () => {
+		const sql = 'DELIMITER //\nCREATE PROCEDURE p() BEGIN SELECT 1; END//\nDELIMITER ;\nSELECT 2;';
+		assert.deepStrictEqual(bodies(sql), ['CREATE PROCEDURE p() BEGIN SELECT 1; END', 'SELECT 2']);
+	});
+
+	test('does not treat a column named delimiter as a directive', () => {
+		const sql = 'CREATE TABLE t (\n  id INT,\ndelimiter VARCHAR(10)\n);\nSELECT 1;';
+		assert.deepStrictEqual(bodies(sql), ['CREATE TABLE t (\n  id INT,\ndelimiter VARCHAR(10)\n)', 'SELECT 1']);
+	});
+
+	test('ignores DELIMITER when the dialect has no such directive', () => {
+		const sql = 'DELIMITER //\nSELECT 1;';
+		assert.strictEqual(lexer.tokenize(sql, { delimiterDirectives: false }).some(token => token.type === 'directive'), false);
+		assert.strictEqual(lexer.tokenize(sql, { delimiterDirectives: true })[0].type, 'directive');
+	});
+});
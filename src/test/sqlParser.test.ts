@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import { SQLParser } from '../sqlParser';
+import { SQLDialect } from '../sqlDialect';
+import { applyTextEdits, keepsWhereClause, removeListItem, whereClauseEdit } from '../textEdits';
+
+suite('SQLParser source ranges', () => {
+	const parser = new SQLParser();
+
+	test('INSERT value ranges point at each value and skip comments', () => {
+		const sql = "INSERT INTO users (id, name) VALUES (1, /* keep */ 'a'), (2, 'b');";
+		const statement = parser.parseSQL(sql).statements[0];
+		const ranges = statement.valueRanges!;
+		assert.deepStrictEqual(ranges.map(row => row.map(range => sql.slice(range.start, range.end))), [['1', "'a'"], ['2', "'b'"]]);
+
+		const edited = applyTextEdits(sql, [{ range: ranges[0][1], text: "'z'" }]);
+		assert.strictEqual(edited, "INSERT INTO users (id, name) VALUES (1, /* keep */ 'z'), (2, 'b');");
+	});
+
+	test('UPDATE value ranges keep the layout of the other assignments', () => {
+		const sql = 'UPDATE users SET\n  a = 1, -- first\n  b = 2\nWHERE id = 1';
+		const statement = parser.parseSQL(sql).statements[0];
+		const ranges = statement.valueRanges!;
+		assert.deepStrictEqual(ranges.map(([column, value]) => [sql.slice(column.start, column.end), sql.slice(value.start, value.end)]), [['a', '1'], ['b', '2']]);
+
+		const edited = applyTextEdits(sql, [{ range: ranges[1][1], text: '3' }]);
+		assert.strictEqual(edited, 'UPDATE users SET\n  a = 1, -- first\n  b = 3\nWHERE id = 1');
+	});
+
+	test('removing an INSERT column keeps the other names as written', () => {
+		const sql = 'INSERT INTO "Users" ("createdAt", name, note) VALUES (1, \'a\', /* n */ NULL), (2, \'b\', \'x\');';
+		const statement = parser.parseSQL(sql, 'postgresql').statements[0];
+		const edits = [removeListItem(statement.columnRanges!, 1), ...statement.valueRanges!.map(row => removeListItem(row, 1))];
+		assert.strictEqual(applyTextEdits(sql, edits), 'INSERT INTO "Users" ("createdAt", note) VALUES (1, /* n */ NULL), (2, \'x\');');
+
+		const first = [removeListItem(statement.columnRanges!, 0), ...statement.valueRanges!.map(row => removeListItem(row, 0))];
+		assert.strictEqual(applyTextEdits(sql, first), 'INSERT INTO "Users" (name, note) VALUES (\'a\', /* n */ NULL), (\'b\', \'x\');');
+	});
+});
+
+suite('SQLParser statement ranges', () => {
+	const parser = new SQLParser();
+	const sql = "DELIMITER //\nCREATE PROCEDURE p() BEGIN SELECT 1; END//\nDELIMITER ;\n-- seed\nINSERT INTO t (id, name) VALUES (1, 'a'), -- first\n (2);\nUPDATE t SET name = 'b' WHERE id = 1;";
+	const statements = parser.parseSQL(sql, 'mysql').statements;
+	const text = (range: { start: number; end: number }) => sql.slice(range.start, range.end);
+
+	test('locates statements after a DELIMITER block in the file', () => {
+		assert.deepStrictEqual(statements.map(statement => [statement.type, text(statement.range!)]), [
+			['raw', 'CREATE PROCEDURE p() BEGIN SELECT 1; END'],
+			['insert', "INSERT INTO t (id, name) VALUES (1, 'a'), -- first\n (2)"],
+			['update', "UPDATE t SET name = 'b' WHERE id = 1"]
+		]);
+	});
+
+	test('rewriting a short row keeps the comment after the previous row', () => {
+		const insert = statements[1];
+		assert.deepStrictEqual(insert.rowRanges!.map(text), ["(1, 'a')", '(2)']);
+		assert.deepStrictEqual(applyTextEdits(sql, [{ range: insert.rowRanges![1], text: '(2, NULL)' }]).split('\n').slice(4, 6), ["INSERT INTO t (id, name) VALUES (1, 'a'), -- first", ' (2, NULL);']);
+	});
+
+	test('removing a column skips rows that are too short to have it', () => {
+		const insert = statements[1];
+		const edits = [removeListItem(insert.columnRanges!, 1), ...insert.valueRanges!.filter(row => row.length > 1).map(row => removeListItem(row, 1))];
+		assert.strictEqual(applyTextEdits(sql, edits).split('\n').slice(4, 6).join('\n'), 'INSERT INTO t (id) VALUES (1), -- first\n (2);');
+	});
+
+	test('the SET range covers only the assignments of an UPDATE', () => {
+		const update = statements[2];
+		assert.strictEqual(text(update.setRange!), "name = 'b'");
+		assert.strictEqual(text(update.whereRange!), 'WHERE id = 1');
+	});
+});
+
+suite('SQLParser WHERE ranges', () => {
+	const parser = new SQLParser();
+	const editWhere = (sql: string, condition: string, dialect: SQLDialect = 'mysql') => {
+		const statement = parser.parseSQL(sql, dialect).statements[0];
+		return applyTextEdits(sql, [whereClauseEdit(sql, statement.whereRange!, condition)]);
+	};
+
+	test('replaces only the WHERE clause of a SELECT and keeps comments and layout', () => {
+		const sql = 'SELECT id, -- the key\n  name\nFROM users u\nWHERE u.id = 1 /* old */\nORDER BY id';
+		assert.strictEqual(editWhere(sql, 'u.id = 2'), 'SELECT id, -- the key\n  name\nFROM users u\nWHERE u.id = 2 /* old */\nORDER BY id');
+	});
+
+	test('adds a WHERE clause after FROM and JOIN', () => {
+		const sql = 'SELECT * FROM a JOIN b ON a.id = b.a_id -- join\nORDER BY a.id LIMIT 5';
+		assert.strictEqual(editWhere(sql, 'a.id > 1'), 'SELECT * FROM a JOIN b ON a.id = b.a_id WHERE a.id > 1 -- join\nORDER BY a.id LIMIT 5');
+	});
+
+	test('removing the last predicate drops the WHERE keyword', () => {
+		assert.strictEqual(editWhere('DELETE FROM t WHERE id IN (1, 2) ORDER BY id', ''), 'DELETE FROM t ORDER BY id');
+		assert.strictEqual(editWhere('SELECT * FROM t\nWHERE id = 1', ''), 'SELECT * FROM t\n');
+	});
+
+	test('keeps the SET clause and the rest of an UPDATE', () => {
+		const sql = 'UPDATE t SET a = 1 /* keep */ WHERE id = 1 RETURNING *';
+		assert.strictEqual(editWhere(sql, 'id = 2', 'postgresql'), 'UPDATE t SET a = 1 /* keep */ WHERE id = 2 RETURNING *');
+	});
+});
+
+suite('SQLParser WHERE clause preservation', () => {
+	const parser = new SQLParser();
+	const conditions = [
+		'id IN (1,2)',
+		'age BETWEEN 1 AND 9',
+		'NOT (a = 1 OR b = 2)',
+		"CASE WHEN a > 1 THEN 'x' ELSE 'y' END = 'x'",
+		"LOWER(name) = 'alice'",
+		'id IN (SELECT user_id FROM banned WHERE reason IS NOT NULL)'
+	];
+
+	for (const condition of conditions) {
+		test(`regenerates an untouched WHERE ${condition} byte for byte`, () => {
+			for (const sql of [`DELETE FROM t WHERE ${condition}`, `UPDATE t SET a = 1 WHERE  ${condition}`]) {
+				const statement = parser.parseSQL(sql, 'mysql').statements[0];
+				const offset = statement.range!.start;
+				const regenerated = applyTextEdits(statement.sql!, [whereClauseEdit(statement.sql!, statement.whereRange!, statement.where!.trim(), offset)], offset);
+				assert.strictEqual(regenerated, sql);
+				assert.strictEqual(keepsWhereClause(statement, parser.parseSQL(regenerated, 'mysql')), true);
+			}
+		});
+
+		test(`refuses to widen or drop WHERE ${condition}`, () => {
+			const statement = parser.parseSQL(`DELETE FROM t WHERE ${condition}`, 'mysql').statements[0];
+			assert.strictEqual(keepsWhereClause(statement, parser.parseSQL('DELETE FROM t', 'mysql')), false);
+			assert.strictEqual(keepsWhereClause(statement, parser.parseSQL(`DELETE FROM t WHERE ${condition} OR 1 = 1`, 'mysql')), false);
+			assert.strictEqual(keepsWhereClause(statement, parser.parseSQL(`DELETE FROM t WHERE ${condition}; DELETE FROM t`, 'mysql')), false);
+		});
+	}
+});
+
+suite('SQLParser input validation', () => {
+	const parser = new SQLParser();
+
+	test('accepts single-value expressions', () => {
+		for (const expression of ['NOW()', "CONCAT('a', 'b')", '1 + 2', 'DEFAULT', '1 /* one */', '1 -- one\n+ 2']) {
+			assert.strictEqual(parser.validateExpression(expression).valid, true, expression);
+		}
+	});
+
+	test('rejects expressions that would comment out or split the statement', () => {
+		for (const expression of ['1 --', '1 -- one\n', '1 /* x', '1; DROP TABLE t', '1, 2', '1 FROM t', '1 x']) {
+			assert.strictEqual(parser.validateExpression(expression).valid, false, expression);
+		}
+	});
+
+	test('rejects comments and terminators in WHERE clauses', () => {
+		assert.strictEqual(parser.validateWhereClause('t', 'id = 1 /* keep */').valid, true);
+		assert.strictEqual(parser.validateWhereClause('t', 'id = 1 --').valid, false);
+		assert.strictEqual(parser.validateWhereClause('t', 'id = 1; DELETE FROM t').valid, false);
+	});
+});
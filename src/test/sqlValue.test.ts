@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { SQLParser } from '../sqlParser';
+import { SQLDialect, SUPPORTED_DIALECTS, formatSQLValue } from '../sqlDialect';
+import { classifyDataType } from '../columnTypes';
+import { booleanValue, nullValue, numberValue, parseInputValue, stringValue } from '../sqlValue';
+
+suite('SQLValue round trip', () => {
+	const parser = new SQLParser();
+	const literals = ['1.50', "'01234'", 'TRUE', 'NULL', "'NULL'", '1e3', "'it''s'", "DATE '2024-01-01'", '-5'];
+	const dialectLiterals: Partial<Record<SQLDialect, string[]>> = {
+		mysql: ["x'41'", "N'x'", "'a\\'b'"],
+		postgresql: ["E'a\\nb'"],
+		transactsql: ["N'x'"]
+	};
+
+	for (const dialect of SUPPORTED_DIALECTS) {
+		test(`untouched values keep their type and quoting in ${dialect}`, () => {
+			const written = [...literals, ...(dialectLiterals[dialect] ?? [])];
+			const sql = `INSERT INTO t (${written.map((_, index) => `c${index}`).join(', ')}) VALUES (${written.join(', ')})`;
+			const statement = parser.parseSQL(sql, dialect).statements[0];
+			assert.strictEqual(statement.type, 'insert');
+			const row = statement.values![0];
+			assert.deepStrictEqual(row.map(value => formatSQLValue(value, dialect)), written);
+			assert.deepStrictEqual(row.slice(0, 5).map(value => value.kind), ['number', 'string', 'boolean', 'null', 'string']);
+		});
+	}
+
+	test('edited values are written in the dialect\'s literal syntax', () => {
+		assert.strictEqual(formatSQLValue(stringValue("a\\b'c"), 'mysql'), "'a\\\\b''c'");
+		assert.strictEqual(formatSQLValue(stringValue("a\\b'c"), 'postgresql'), "'a\\b''c'");
+		assert.strictEqual(formatSQLValue(booleanValue(true), 'transactsql'), '1');
+		assert.strictEqual(formatSQLValue(booleanValue(false), 'sqlite'), 'FALSE');
+		assert.strictEqual(formatSQLValue(nullValue(), 'mysql'), 'NULL');
+		assert.strictEqual(formatSQLValue(stringValue('NULL'), 'mysql'), "'NULL'");
+	});
+});
+
+suite('parseInputValue', () => {
+	const text = classifyDataType('VARCHAR(20)');
+	const integer = classifyDataType('INT');
+	const flag = classifyDataType('BOOLEAN');
+
+	test('NULL typed into a text column is NULL unless the cell held a string', () => {
+		assert.deepStrictEqual(parseInputValue('NULL', undefined, text), nullValue());
+		assert.deepStrictEqual(parseInputValue('null', nullValue(), text), nullValue());
+		assert.deepStrictEqual(parseInputValue('NULL', stringValue('x'), text), stringValue('NULL'));
+		assert.deepStrictEqual(parseInputValue('01234', undefined, text), stringValue('01234'));
+	});
+
+	test('declared types decide numbers and booleans', () => {
+		assert.deepStrictEqual(parseInputValue(' 1e3 ', undefined, integer), numberValue('1e3'));
+		assert.deepStrictEqual(parseInputValue('abc', undefined, integer), stringValue('abc'));
+		assert.deepStrictEqual(parseInputValue('True', undefined, flag), booleanValue(true));
+		assert.deepStrictEqual(parseInputValue('1', undefined, flag), numberValue('1'));
+	});
+
+	test('without a type the previous kind is kept', () => {
+		assert.deepStrictEqual(parseInputValue('01234', stringValue('x')), stringValue('01234'));
+		assert.deepStrictEqual(parseInputValue('null', stringValue('x')), stringValue('null'));
+		assert.deepStrictEqual(parseInputValue('NULL', numberValue('1')), nullValue());
+		assert.deepStrictEqual(parseInputValue('12', numberValue('1')), numberValue('12'));
+		assert.deepStrictEqual(parseInputValue('01234'), stringValue('01234'));
+		assert.deepStrictEqual(parseInputValue('false', undefined), booleanValue(false));
+	});
+});
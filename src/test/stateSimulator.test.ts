@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { SQLParser } from '../sqlParser';
+import { sqlValueToText } from '../sqlValue';
+import { simulateStatements, SimulationResult } from '../webview/stateSimulator';
+
+suite('stateSimulator', () => {
+	const parser = new SQLParser();
+	const simulate = (sql: string) => simulateStatements(parser.parseSQL(sql, 'mysql').statements);
+	const rowsOf = (result: SimulationResult, tableName: string) =>
+		result.tables.find(table => table.name === tableName)!.rows.map(row => row.values.map(sqlValueToText));
+
+	test('fills omitted columns and DEFAULT with the column default', () => {
+		const result = simulate(`
+CREATE TABLE users (id INT, name VARCHAR(20) DEFAULT 'guest', score INT DEFAULT 10, note TEXT);
+INSERT INTO users (id) VALUES (1);
+INSERT INTO users (id, name, score) VALUES (2, DEFAULT, DEFAULT);`);
+		assert.deepStrictEqual(rowsOf(result, 'users'), [['1', 'guest', '10', 'NULL'], ['2', 'guest', '10', 'NULL']]);
+		assert.deepStrictEqual(result.issues, []);
+	});
+
+	test('evaluates all assignments against the values before the UPDATE', () => {
+		const result = simulate(`
+CREATE TABLE t (id INT, a INT, b INT);
+INSERT INTO t (id, a, b) VALUES (1, 1, 2), (2, 3, 4);
+UPDATE t SET a = b, b = a WHERE id = 1;`);
+		assert.deepStrictEqual(rowsOf(result, 't'), [['1', '2', '1'], ['2', '3', '4']]);
+		const updated = result.tables[0].rows[0];
+		assert.deepStrictEqual([updated.updatedBy, updated.changedColumns], [[2], [1, 2]]);
+		assert.deepStrictEqual(result.matches.get(2)?.rows.map(row => row.values.map(sqlValueToText)), [['1', '1', '2']]);
+	});
+
+	test('reports an UPDATE of an unknown column and leaves the rows alone', () => {
+		const result = simulate(`
+CREATE TABLE t (id INT, a INT);
+INSERT INTO t (id, a) VALUES (1, 1);
+UPDATE t SET missing = 2, a = 5;`);
+		assert.deepStrictEqual(rowsOf(result, 't'), [['1', '1']]);
+		assert.deepStrictEqual(result.issues.map(issue => issue.statementIndex), [2]);
+		assert.match(result.issues[0].message, /missing/);
+	});
+
+	test('reports DML that could not be parsed', () => {
+		const result = simulate(`
+CREATE TABLE t (id INT);
+INSERT INTO t (id) VALUES (1);
+DELETE FROM t WHERE id = = 1;`);
+		assert.deepStrictEqual(result.issues.map(issue => issue.statementIndex), [2]);
+		assert.deepStrictEqual(rowsOf(result, 't'), [['1']]);
+	});
+
+	test('counts deleted rows', () => {
+		const result = simulate(`
+CREATE TABLE t (id INT);
+INSERT INTO t (id) VALUES (1), (2), (3);
+DELETE FROM t WHERE id >= 2;
+DELETE FROM t WHERE id = 9;`);
+		assert.deepStrictEqual(rowsOf(result, 't'), [['1']]);
+		assert.strictEqual(result.tables[0].deletedCount, 2);
+		assert.strictEqual(result.matches.get(3)?.rows.length, 0);
+	});
+});
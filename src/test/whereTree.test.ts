@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { SQLParser } from '../sqlParser';
+import { SQLDialect } from '../sqlDialect';
+import { numberValue } from '../sqlValue';
+import { conditionToTree, replaceNode, treeToSQL, WhereNode } from '../webview/whereTree';
+
+suite('whereTree', () => {
+	const parser = new SQLParser();
+	const parse = (sql: string, dialect: SQLDialect = 'postgresql') => {
+		const statement = parser.parseSQL(sql, dialect).statements[0];
+		return { where: statement.where, tree: conditionToTree(statement.condition, dialect, statement.where) };
+	};
+	const withValue = (node: WhereNode, value: string): WhereNode => {
+		assert.ok(node.kind === 'predicate');
+		return { ...node, values: [numberValue(value)] };
+	};
+
+	test('keeps column names quoted or unquoted as written', () => {
+		const { tree } = parse('DELETE FROM t WHERE "createdAt" = 1 AND updatedAt IS NULL');
+		assert.strictEqual(treeToSQL(tree, 'postgresql'), '"createdAt" = 1 AND updatedAt IS NULL');
+	});
+
+	test('quotes a newly chosen mixed-case column', () => {
+		const { tree } = parse('DELETE FROM t WHERE "createdAt" = 1');
+		const predicate = tree.children[0];
+		assert.ok(predicate.kind === 'predicate');
+		const changed = { ...tree, children: [{ ...predicate, column: 'updatedAt', quoted: undefined }] };
+		assert.strictEqual(treeToSQL(changed, 'postgresql'), '"updatedAt" = 1');
+	});
+
+	test('an untouched tree gives back the original text', () => {
+		const { where, tree } = parse('DELETE FROM t WHERE id = 1 /* keep */\n  AND (status = \'a\' OR status = \'b\') -- note\n  AND "Name" LIKE \'x%\'');
+		assert.strictEqual(treeToSQL(tree, 'postgresql', false, where), where);
+	});
+
+	test('editing one predicate keeps the comments and layout of the others', () => {
+		const { where, tree } = parse('DELETE FROM t WHERE id = 1 /* keep */\n  AND (status = \'a\' OR status = \'b\') -- note\n  AND age BETWEEN 1 AND 9');
+		const edited = replaceNode(tree, [0], withValue(tree.children[0], '2'));
+		assert.strictEqual(treeToSQL(edited, 'postgresql', false, where),
+			'id = 2 /* keep */\n  AND (status = \'a\' OR status = \'b\') -- note\n  AND age BETWEEN 1 AND 9');
+	});
+
+	test('edits inside a parenthesized group keep the rest of the group', () => {
+		const { where, tree } = parse('DELETE FROM t WHERE (a = 1 OR /* b */ b = 2) AND c = 3');
+		const group = tree.children[0];
+		assert.ok(group.kind === 'group');
+		const edited = replaceNode(tree, [0, 1], withValue(group.children[1], '5'));
+		assert.strictEqual(treeToSQL(edited, 'postgresql', false, where), '(a = 1 OR /* b */ b = 5) AND c = 3');
+	});
+
+	test('changing the operator or removing a middle predicate rewrites only the separators', () => {
+		const { where, tree } = parse('SELECT * FROM t WHERE a = 1 AND b = 2 AND NOT c = 3', 'mysql');
+		assert.strictEqual(treeToSQL(replaceNode(tree, [], { ...tree, operator: 'OR' }), 'mysql', false, where), 'a = 1 OR b = 2 OR NOT c = 3');
+		assert.strictEqual(treeToSQL(replaceNode(tree, [1], undefined), 'mysql', false, where), 'a = 1 AND NOT c = 3');
+	});
+
+	test('removing the last predicate leaves no condition', () => {
+		const { where, tree } = parse('DELETE FROM t WHERE id IN (1, 2)');
+		assert.strictEqual(treeToSQL(replaceNode(tree, [0], undefined), 'postgresql', false, where), '');
+	});
+});
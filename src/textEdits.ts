@@ -0,0 +1,53 @@
+// SQLのテキストの部分的な書き換え。SQLParserが返す範囲(SourceRange)を使い、触らない部分(コメントや改行、識別子の書き方)はそのまま残す
+import type { ParsedSQLData, ParsedStatement, SourceRange } from './sqlParser';
+
+export interface TextEdit {
+    range: SourceRange;
+    text: string;
+}
+
+// 重ならない置き換えをまとめて適用する。offsetはtextの先頭がファイルのどこにあたるか
+export function applyTextEdits(text: string, edits: TextEdit[], offset = 0): string {
+    let result = '';
+    let position = 0;
+    [...edits].sort((a, b) => a.range.start - b.range.start).forEach(({ range, text: replacement }) => {
+        result += text.slice(position, range.start - offset) + replacement;
+        position = range.end - offset;
+    });
+    return result + text.slice(position);
+}
+
+// カンマ区切りの並び(カラムリストや行の値)から1項目を区切りのカンマごと取り除く
+export function removeListItem(ranges: SourceRange[], index: number): TextEdit {
+    const range = ranges.length === 1 ? ranges[0]
+        : index > 0 ? { start: ranges[index - 1].end, end: ranges[index].end }
+            : { start: ranges[0].start, end: ranges[1].start };
+    return { range, text: '' };
+}
+
+// WHERE句の範囲(SQLParserのwhereRange)の置き換え。WHERE句がなかった文(空の範囲)には前に空白を入れて足し、
+// 条件が空になったらWHERE句をキーワードごと取り除く
+export function whereClauseEdit(sql: string, whereRange: SourceRange, condition: string, offset = 0): TextEdit {
+    if (whereRange.start === whereRange.end) {
+        return { range: whereRange, text: condition ? ` WHERE ${condition}` : '' };
+    }
+    if (!condition) {
+        // WHERE句の前の空白(改行は残す)も取り除く
+        const spaces = /[ \t]*$/.exec(sql.slice(0, whereRange.start - offset))?.[0].length ?? 0;
+        return { range: { start: whereRange.start - spaces, end: whereRange.end }, text: '' };
+    }
+    // WHERE キーワードとその後ろの空白・コメントは書かれたとおりに残し、条件だけを置き換える
+    const keywordEnd = whereRange.start - offset + 'WHERE'.length;
+    const gap = /^(?:\s+|--[^\n]*\n|\/\*[\s\S]*?\*\/)*/.exec(sql.slice(keywordEnd, whereRange.end - offset))?.[0].length ?? 0;
+    return { range: { start: keywordEnd + gap + offset, end: whereRange.end }, text: condition };
+}
+
+// 書き換えた文(を解析し直した結果)のWHERE句が、意図した条件と同じか。
+// 条件が落ちたり広がったりすると、UPDATE・DELETEが意図しない行まで変更してしまうため、違えば書き込まない
+export function keepsWhereClause(statement: Pick<ParsedStatement, 'type' | 'where'>, regenerated: ParsedSQLData): boolean {
+    if (statement.type !== 'update' && statement.type !== 'delete' && statement.type !== 'select') {
+        return true;
+    }
+    const parsed = regenerated.success && regenerated.statements.length === 1 ? regenerated.statements[0] : undefined;
+    return parsed?.type === statement.type && (parsed.where || '').trim() === (statement.where || '').trim();
+}
@@ -0,0 +1,54 @@
+import React from 'react';
+
+// 拡張機能側(dataExport.ts)の形式と範囲
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'markdown' | 'yaml';
+export type ExportScope = 'statement' | 'table';
+
+interface ExportMenuProps {
+    tableName: string;
+    onExport: (scope: ExportScope, format: ExportFormat) => void;
+}
+
+const FORMAT_LABELS: [ExportFormat, string][] = [
+    ['csv', 'CSV'],
+    ['tsv', 'TSV'],
+    ['json', 'JSON'],
+    ['markdown', 'Markdown'],
+    ['yaml', 'YAML']
+];
+
+// INSERT文の見出しに置く「書き出し」メニュー。選ぶとその形式でクリップボードにコピーする
+export const ExportMenu: React.FC<ExportMenuProps> = React.memo(({ tableName, onExport }) => {
+    const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const [scope, format] = e.target.value.split(':') as [ExportScope, ExportFormat];
+        if (scope && format) {
+            onExport(scope, format);
+        }
+    };
+
+    return (
+        <select
+            className="export-menu"
+            // 値を固定し、選んだ後は未選択に戻す(同じ項目をもう一度選べるように)
+            value=""
+            onChange={handleChange}
+            // 見出しのクリック(テキストエディタで文を選択)にしない
+            onClick={(e) => e.stopPropagation()}
+            title="行をCSV・TSV・JSON・Markdown・YAMLとしてクリップボードにコピーする"
+        >
+            <option value="">書き出し…</option>
+            <optgroup label="この文">
+                {FORMAT_LABELS.map(([format, label]) => (
+                    <option key={format} value={`statement:${format}`}>{label}</option>
+                ))}
+            </optgroup>
+            <optgroup label={`${tableName} のすべてのINSERT`}>
+                {FORMAT_LABELS.map(([format, label]) => (
+                    <option key={format} value={`table:${format}`}>{label}</option>
+                ))}
+            </optgroup>
+        </select>
+    );
+});
+
+ExportMenu.displayName = 'ExportMenu';
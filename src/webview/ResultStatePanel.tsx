@@ -0,0 +1,127 @@
+import React from 'react';
+import { ParsedStatement } from './types';
+import { SimulationResult, SimulatedRow, SimulatedTable } from './stateSimulator';
+import { useVirtualRows } from './useVirtualRows';
+import { SQLValue, sqlValueToText } from '../sqlValue';
+
+interface ResultStatePanelProps {
+    statements: ParsedStatement[];
+    result: SimulationResult;
+    onJumpToStatement: (statementIndex: number) => void;
+}
+
+interface ResultTableProps {
+    table: SimulatedTable;
+    renderValue: (value: SQLValue) => React.ReactNode;
+    renderOrigin: (row: SimulatedRow) => React.ReactNode;
+}
+
+// 1つのテーブルの最終的な行。行数が多ければ見えている範囲だけを描画する
+const ResultTable: React.FC<ResultTableProps> = React.memo(({ table, renderValue, renderOrigin }) => {
+    const virtualRows = useVirtualRows(table.rows.length);
+    const renderSpacer = (height: number) => height > 0 && (
+        <tr className="virtual-spacer" style={{ height }}>
+            <td colSpan={table.columns.length + 1} />
+        </tr>
+    );
+
+    return (
+        <div className="table-container">
+            <table className="sql-table">
+                <thead>
+                    <tr>
+                        {table.columns.map((column, index) => (
+                            <th key={index}>{column}</th>
+                        ))}
+                        <th>由来</th>
+                    </tr>
+                </thead>
+                <tbody ref={virtualRows.bodyRef}>
+                    {renderSpacer(virtualRows.paddingTop)}
+                    {table.rows.slice(virtualRows.start, virtualRows.end).map((row, offset) => (
+                        <tr key={virtualRows.start + offset} className={row.updatedBy.length > 0 ? 'changed-row' : undefined}>
+                            {row.values.map((value, columnIndex) => (
+                                <td key={columnIndex} className={row.changedColumns.includes(columnIndex) ? 'changed-cell' : undefined}>
+                                    {renderValue(value)}
+                                </td>
+                            ))}
+                            <td>{renderOrigin(row)}</td>
+                        </tr>
+                    ))}
+                    {renderSpacer(virtualRows.paddingBottom)}
+                </tbody>
+            </table>
+        </div>
+    );
+});
+
+ResultTable.displayName = 'ResultTable';
+
+// ファイルを上から順に適用した後の、各テーブルの最終的な内容を表示する
+export const ResultStatePanel: React.FC<ResultStatePanelProps> = React.memo(({ statements, result, onJumpToStatement }) => {
+    const renderStatementLink = (statementIndex: number) => {
+        const statement = statements[statementIndex];
+        return (
+            <button
+                key={statementIndex}
+                className="statement-link"
+                onClick={() => onJumpToStatement(statementIndex)}
+                title="この文に移動"
+            >
+                #{statementIndex + 1} {statement?.type.toUpperCase()}
+            </button>
+        );
+    };
+
+    const renderValue = (value: SQLValue) => {
+        if (value.kind === 'expression') {
+            return <span className="expression-value" title="SQL式(評価せずに表示しています)">{value.sql}</span>;
+        }
+        return value.kind === 'null' ? <span className="info-text">NULL</span> : sqlValueToText(value);
+    };
+
+    const renderOrigin = (row: SimulatedRow) => (
+        <>
+            {renderStatementLink(row.insertedBy)}
+            {row.updatedBy.map(statementIndex => (
+                <React.Fragment key={statementIndex}>→ {renderStatementLink(statementIndex)}</React.Fragment>
+            ))}
+        </>
+    );
+
+    return (
+        <>
+            <div className="info-text" style={{ marginBottom: '10px' }}>
+                INSERT・UPDATE・DELETEを上から順に適用した後の内容です。後の文で変更された行と値を強調しています
+            </div>
+            {result.issues.length > 0 && (
+                <div className="error">
+                    <strong>適用できなかった文:</strong>
+                    {result.issues.map(issue => (
+                        <div key={issue.statementIndex}>
+                            {renderStatementLink(issue.statementIndex)} {issue.message}
+                        </div>
+                    ))}
+                </div>
+            )}
+            {result.tables.length === 0 && (
+                <div className="info-text">
+                    INSERTするテーブルがありません
+                </div>
+            )}
+            {result.tables.map(table => (
+                <div key={table.name.toLowerCase()} className="statement-container">
+                    <h4>{table.name}</h4>
+                    <div className="info-text" style={{ marginBottom: '10px' }}>
+                        {table.rows.length} 行{table.deletedCount > 0 && `(削除された行: ${table.deletedCount} 行)`}
+                    </div>
+                    {table.columns.length > 0 && (
+                        <ResultTable table={table} renderValue={renderValue} renderOrigin={renderOrigin} />
+                    )}
+                </div>
+            ))}
+        </>
+    );
+});
+
+ResultStatePanel.displayName = 'ResultStatePanel';
@@ -1,18 +1,18 @@
-import React, { useState, useCallback, useEffect } from 'react';
-
-interface ParsedStatement {
-    type: 'select' | 'insert' | 'update' | 'delete' | 'unknown';
-    tableName?: string;
-    columns?: string[];
-    values?: any[][];
-    where?: any;
-    set?: any;
-    data?: any[][];
-}
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { ParsedStatement } from './types';
+import { ColumnType, TypeCategory, getTypeBadge, validateValueType } from '../columnTypes';
+import { SQLValue, nullValue, stringValue, expressionValue, parseInputValue, sqlValueToText } from '../sqlValue';
+import { CellEdit, CellPosition, CellRange, toCellRange, isInRange, rangeSize, mapRange, fillDown, fillSeries, pasteToEdits } from './cellRange';
+import { parseDelimited, detectDelimiter, formatDelimited } from '../delimitedText';
+import { useVirtualRows } from './useVirtualRows';
+import { ConstraintViolation, valueKey } from '../seedConstraints';
+import { ForeignKeyOptions } from './foreignKeyOptions';
+import { WhereClauseEditor } from './WhereClauseEditor';
+import { SQLDialect, DEFAULT_DIALECT } from '../sqlDialect';
 
 interface SQLTableProps {
     statement: ParsedStatement;
-    onCellEdit: (rowIndex: number, columnIndex: number, value: any) => void;
+    onCellEdit: (rowIndex: number, columnIndex: number, value: SQLValue) => void;
     onAddRow: () => void;
     onDeleteRow: (rowIndex: number) => void;
     onAddColumn: () => void;
@@ -20,19 +20,59 @@ interface SQLTableProps {
     onEditColumnName: (columnIndex: number, newName: string) => void;
     onEditWhere: (whereClause: string) => void;
     validationError?: string;
+    // CREATE TABLEで宣言されたカラムの型(キーは小文字のカラム名)
+    columnTypes?: Record<string, ColumnType>;
+    // 表示のみ(クエリ結果のプレビューなど)。編集用のボタンを出さない
+    readOnly?: boolean;
+    // 強調する行の番号(UPDATE・DELETEのWHERE句に一致した行など)
+    highlightedRows?: Set<number>;
+    // テキストエディタのカーソル位置にある行とセル(colがなければ行全体)
+    selectedCell?: { row: number; col?: number };
+    // セルがクリックされたときに呼ぶ(テキストエディタで値を選択するため)
+    onSelectCell?: (rowIndex: number, columnIndex: number) => void;
+    // 範囲への一括入力。すべてのセルの変更を1回の編集として書き込む
+    onBatchCellEdit?: (edits: CellEdit[]) => void;
+    // 主キー・UNIQUEの重複、NOT NULLのカラムのNULL、ないカラム(この文のもの)
+    constraintViolations?: ConstraintViolation[];
+    // 外部キーのカラムで選べる値(キーは小文字のカラム名)
+    foreignKeys?: Record<string, ForeignKeyOptions>;
+    // WHERE句の条件ビルダーで選べるカラム(文のテーブルのカラム)
+    tableColumns?: string[];
+    dialect?: SQLDialect;
 }
 
-// 値を表示用の文字列に変換するヘルパー関数
-const formatCellValue = (value: any): string => {
-    if (value === null || value === undefined) {
-        return 'NULL';
+// 値を表示用の文字列に変換するヘルパー関数(UPDATEの1列目はカラム名の文字列)
+const formatCellValue = (value: SQLValue | string): string => {
+    return typeof value === 'string' ? value : sqlValueToText(value);
+};
+
+// 同じセルに複数のメッセージがあれば改行でつなげる
+function appendMessage<K>(messages: Map<K, string>, key: K, message: string): void {
+    const existing = messages.get(key);
+    messages.set(key, existing ? `${existing}\n${message}` : message);
+}
+
+// 型に合った入力欄(日付・数値など)で使う値に変換する
+const toInputValue = (text: string, category: TypeCategory): string => {
+    if (text === 'NULL') {
+        return '';
     }
-    if (typeof value === 'boolean') {
-        return value ? 'true' : 'false';
+    if (category === 'datetime') {
+        return text.replace(' ', 'T').slice(0, 19);
     }
-    return String(value);
+    return text;
+};
+
+const fromInputValue = (text: string, category: TypeCategory): string => {
+    return category === 'datetime' ? text.replace('T', ' ') : text;
 };
 
+// 型ごとの専用の入力欄を使う型
+const TYPED_EDITOR_CATEGORIES: TypeCategory[] = ['integer', 'decimal', 'boolean', 'date', 'datetime', 'time'];
+
+// 外部キーの選択肢を一度に表示する数(それ以上は入力して絞り込んでもらう)
+const MAX_FOREIGN_KEY_OPTIONS = 100;
+
 export const SQLTable: React.FC<SQLTableProps> = React.memo(({ 
     statement, 
     onCellEdit, 
@@ -42,39 +82,141 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
     onDeleteColumn,
     onEditColumnName,
     onEditWhere,
-    validationError
+    validationError,
+    columnTypes,
+    readOnly,
+    highlightedRows,
+    selectedCell,
+    onSelectCell,
+    onBatchCellEdit,
+    constraintViolations,
+    foreignKeys,
+    tableColumns,
+    dialect
 }) => {
-    const [editingCell, setEditingCell] = useState<{row: number, col: number} | null>(null);
+    // previous: 編集前の値。入力を同じ種類(文字列・数値など)の値として解釈するために使う
+    const [editingCell, setEditingCell] = useState<{row: number, col: number, previous: SQLValue | string, columnType?: ColumnType} | null>(null);
     const [editValue, setEditValue] = useState<string>('');
+    // literal: 値として編集, expression: SQL式(NOW() など)としてそのまま編集
+    const [editMode, setEditMode] = useState<'literal' | 'expression'>('literal');
     const [editingColumn, setEditingColumn] = useState<number | null>(null);
     const [editColumnValue, setEditColumnValue] = useState<string>('');
-    const [editingWhere, setEditingWhere] = useState<boolean>(false);
-    const [whereValue, setWhereValue] = useState<string>('');
-    const [whereError, setWhereError] = useState<string>('');
-    const [showWhereError, setShowWhereError] = useState<boolean>(false);
+    // 範囲選択(INSERTの表)。クリックしたセルが起点になり、Shift+クリックで範囲を広げる
+    const [rangeAnchor, setRangeAnchor] = useState<CellPosition | null>(null);
+    const [rangeEnd, setRangeEnd] = useState<CellPosition | null>(null);
+    const [bulkValue, setBulkValue] = useState<string>('');
+    // 1行目がカラム名に見える貼り付け。カラムに合わせるか、データとして入れるかを選んでもらう
+    const [pendingPaste, setPendingPaste] = useState<{ rows: string[][]; start: CellPosition; columnMap: number[] } | null>(null);
+    const [pasteMessage, setPasteMessage] = useState<string>('');
+    // 外部キーの選択肢のうち、キーボードで選んでいるもの(-1: なし)
+    const [activeOption, setActiveOption] = useState<number>(-1);
 
-    // 外部からのバリデーションエラーを反映
+    // カーソル位置のセル(または行)が見えるようにスクロールする
+    const selectedRef = useRef<HTMLElement | null>(null);
+    const setSelectedElement = useCallback((element: HTMLElement | null) => {
+        selectedRef.current = element;
+    }, []);
+    // 行数の多いINSERTは、見えている範囲の行だけを描画する
+    const virtualRows = useVirtualRows(statement.type === 'insert' ? statement.values?.length ?? 0 : 0);
     useEffect(() => {
-        if (validationError) {
-            setWhereError(validationError);
-            setShowWhereError(true);
-        } else {
-            setShowWhereError(false);
+        // 描画していない行は、先にその位置までスクロールして描画させる
+        const row = selectedCell?.row;
+        if (row !== undefined && (row < virtualRows.start || row >= virtualRows.end) && virtualRows.scrollToRow(row)) {
+            return;
+        }
+        selectedRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    }, [selectedCell?.row, selectedCell?.col]);
+
+    const getColumnType = useCallback((columnName: string): ColumnType | undefined => {
+        return columnTypes?.[columnName.toLowerCase()];
+    }, [columnTypes]);
+
+    // 制約違反のメッセージ(キーは「行:カラム」、カラムリストの問題はカラムの番号)
+    const { cellProblems, columnProblems } = useMemo(() => {
+        const cells = new Map<string, string>();
+        const columns = new Map<number, string>();
+        constraintViolations?.forEach(violation => violation.columnIndexes.forEach(columnIndex => {
+            if (violation.rowIndex === undefined) {
+                appendMessage(columns, columnIndex, violation.message);
+            } else {
+                appendMessage(cells, `${violation.rowIndex}:${columnIndex}`, violation.message);
+            }
+        }));
+        return { cellProblems: cells, columnProblems: columns };
+    }, [constraintViolations]);
+
+    const getForeignKey = (columnName: string): ForeignKeyOptions | undefined => foreignKeys?.[columnName.toLowerCase()];
+
+    // 参照先のテーブルに一致する行がない外部キーの値。参照先の行がどこにもINSERTされていなければ(データベースにしかないなど)比べない
+    const getOrphanProblem = (value: SQLValue, foreignKey?: ForeignKeyOptions): string | undefined => {
+        const key = valueKey(value);
+        if (!foreignKey || foreignKey.options.length === 0 || key === undefined || foreignKey.optionsByKey.has(key)) {
+            return undefined;
         }
-    }, [validationError]);
+        return `${foreignKey.referencedTable}.${foreignKey.referencedColumn} に値 ${sqlValueToText(value)} の行がありません`;
+    };
+
+    const isSelectedRow = (rowIndex: number) => selectedCell?.row === rowIndex;
+    const isSelectedCell = (rowIndex: number, colIndex: number) => isSelectedRow(rowIndex) && selectedCell?.col === colIndex;
 
-    const handleCellClick = useCallback((rowIndex: number, colIndex: number, currentValue: any) => {
-        setEditingCell({ row: rowIndex, col: colIndex });
+    // 行の強調(WHERE句に一致した行、カーソル位置の行)のクラス名
+    const rowClassName = (rowIndex: number): string | undefined => {
+        const classNames = [
+            highlightedRows?.has(rowIndex) ? 'matched-row' : '',
+            isSelectedRow(rowIndex) && selectedCell?.col === undefined ? 'selected-row' : ''
+        ].filter(Boolean);
+        return classNames.length > 0 ? classNames.join(' ') : undefined;
+    };
+
+    const handleCellClick = useCallback((rowIndex: number, colIndex: number, currentValue: SQLValue | string, columnType?: ColumnType) => {
+        setEditingCell({ row: rowIndex, col: colIndex, previous: currentValue, columnType });
         setEditValue(formatCellValue(currentValue));
-    }, []);
+        setEditMode(typeof currentValue !== 'string' && currentValue.kind === 'expression' ? 'expression' : 'literal');
+        setActiveOption(-1);
+        onSelectCell?.(rowIndex, colIndex);
+    }, [onSelectCell]);
 
     const handleCellSave = useCallback(() => {
         if (editingCell) {
-            onCellEdit(editingCell.row, editingCell.col, editValue);
+            const { previous, columnType } = editingCell;
+            const wasExpression = typeof previous !== 'string' && previous.kind === 'expression';
+            // 内容を変えずに閉じた場合は書き換えない(元の書き方を保つ)
+            if (editValue !== formatCellValue(previous) || wasExpression !== (editMode === 'expression')) {
+                const usesTypedEditor = columnType && TYPED_EDITOR_CATEGORIES.includes(columnType.category);
+                let value: SQLValue;
+                if (typeof previous === 'string') {
+                    value = stringValue(editValue);
+                } else if (editMode === 'expression') {
+                    value = expressionValue(editValue);
+                } else if (usesTypedEditor && editValue === '') {
+                    // 専用の入力欄を空にした場合はNULLとして保存する
+                    value = nullValue();
+                } else {
+                    value = parseInputValue(editValue, previous, columnType);
+                }
+                onCellEdit(editingCell.row, editingCell.col, value);
+            }
             setEditingCell(null);
             setEditValue('');
         }
-    }, [editingCell, editValue, onCellEdit]);
+    }, [editingCell, editValue, editMode, onCellEdit]);
+
+    const handleSetNull = useCallback(() => {
+        if (editingCell) {
+            onCellEdit(editingCell.row, editingCell.col, nullValue());
+            setEditingCell(null);
+            setEditValue('');
+        }
+    }, [editingCell, onCellEdit]);
+
+    // 外部キーの選択肢を選んだときは、参照先の行の値をそのまま(数値・文字列の種類も同じに)書き込む
+    const handlePickOption = useCallback((value: SQLValue) => {
+        if (editingCell) {
+            onCellEdit(editingCell.row, editingCell.col, value);
+            setEditingCell(null);
+            setEditValue('');
+        }
+    }, [editingCell, onCellEdit]);
 
     const handleCellCancel = useCallback(() => {
         setEditingCell(null);
@@ -89,6 +231,215 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
         }
     }, [handleCellSave, handleCellCancel]);
 
+    // 2つ以上のセルを選択しているときだけ範囲として扱う
+    const selectedRange: CellRange | null = rangeAnchor && rangeEnd && rangeSize(toCellRange(rangeAnchor, rangeEnd)) > 1
+        ? toCellRange(rangeAnchor, rangeEnd)
+        : null;
+
+    const handleInsertCellClick = (e: React.MouseEvent, rowIndex: number, colIndex: number, cell: SQLValue, columnType?: ColumnType) => {
+        if (e.shiftKey && rangeAnchor && onBatchCellEdit) {
+            // 範囲を広げるときは編集を始めず、テキストの選択もしない
+            e.preventDefault();
+            setRangeEnd({ row: rowIndex, col: colIndex });
+            return;
+        }
+        setRangeAnchor({ row: rowIndex, col: colIndex });
+        setRangeEnd({ row: rowIndex, col: colIndex });
+        handleCellClick(rowIndex, colIndex, cell, columnType);
+    };
+
+    const clearRange = () => {
+        setRangeAnchor(null);
+        setRangeEnd(null);
+    };
+
+    const applyToRange = (createEdits: (values: SQLValue[][], range: CellRange) => CellEdit[]) => {
+        if (!selectedRange || !statement.values || !onBatchCellEdit) {
+            return;
+        }
+        const edits = createEdits(statement.values, selectedRange);
+        if (edits.length > 0) {
+            onBatchCellEdit(edits);
+        }
+    };
+
+    // 選択範囲のすべてのセルに同じ値を入れる。入力は各カラムの型(または元の値の種類)に合わせて解釈する
+    const handleSetRangeValue = () => {
+        applyToRange((values, range) => mapRange(values, range, (value, _row, col) =>
+            parseInputValue(bulkValue, value, getColumnType(statement.columns?.[col] ?? ''))
+        ));
+    };
+
+    const renderRangeToolbar = () => {
+        if (!selectedRange || !onBatchCellEdit) {
+            return null;
+        }
+        const rows = selectedRange.bottom - selectedRange.top + 1;
+        return (
+            <div className="range-toolbar">
+                <span className="info-text">{rangeSize(selectedRange)} セルを選択中</span>
+                <button
+                    className="add-row-btn"
+                    onClick={() => applyToRange(fillDown)}
+                    disabled={rows < 2}
+                    title="各カラムの先頭の値を下の行にコピーする"
+                >
+                    ↓ 下へコピー
+                </button>
+                <button
+                    className="add-row-btn"
+                    onClick={() => applyToRange(fillSeries)}
+                    disabled={rows < 2}
+                    title="各カラムの先頭の値から連番で埋める(数値、日付、末尾が数字の文字列)。2行目の値との差を増分にする"
+                >
+                    1,2,3 連番で埋める
+                </button>
+                <button
+                    className="add-row-btn"
+                    onClick={() => applyToRange((values, range) => mapRange(values, range, () => nullValue()))}
+                >
+                    NULLにする
+                </button>
+                <input
+                    type="text"
+                    value={bulkValue}
+                    onChange={(e) => setBulkValue(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSetRangeValue()}
+                    className="cell-input"
+                    placeholder="値"
+                    style={{ width: '120px' }}
+                />
+                <button className="add-row-btn" onClick={handleSetRangeValue}>
+                    値を設定
+                </button>
+                <button className="column-delete-btn" onClick={clearRange} title="選択を解除">
+                    ×
+                </button>
+            </div>
+        );
+    };
+
+    // 貼り付けた値を、各カラムの型(または元の値の種類)に合わせて解釈する。専用の入力欄を使う型では空欄をNULLにする
+    const pastedValue = (text: string, row: number, col: number): SQLValue => {
+        const columnType = getColumnType(statement.columns?.[col] ?? '');
+        if (text === '' && columnType && TYPED_EDITOR_CATEGORIES.includes(columnType.category)) {
+            return nullValue();
+        }
+        // 追加する行は、最後の行の同じカラムの値の種類に合わせる
+        const values = statement.values || [];
+        return parseInputValue(text, values[row]?.[col] ?? values[values.length - 1]?.[col], columnType);
+    };
+
+    const applyPaste = (rows: string[][], start: CellPosition, columnMap?: number[]) => {
+        if (!statement.columns || !onBatchCellEdit) {
+            return;
+        }
+        const { edits, droppedValues } = pasteToEdits(rows, start, statement.columns.length, pastedValue, columnMap);
+        if (edits.length > 0) {
+            onBatchCellEdit(edits);
+        }
+        const addedRows = Math.max(0, start.row + rows.length - (statement.values?.length ?? 0));
+        setPasteMessage([
+            `${edits.length} セルに貼り付けました`,
+            addedRows > 0 ? `${addedRows} 行を追加しました` : '',
+            droppedValues > 0 ? `入れるカラムがない ${droppedValues} 個の値を無視しました` : ''
+        ].filter(Boolean).join('。'));
+        setPendingPaste(null);
+    };
+
+    // 表計算ソフトなどからコピーしたTSV・CSVを、選択中のセルを左上として貼り付ける(足りない行は追加する)
+    const handlePaste = (e: React.ClipboardEvent) => {
+        if (!statement.columns || !onBatchCellEdit) {
+            return;
+        }
+        const text = e.clipboardData.getData('text/plain');
+        const target = e.target as HTMLElement;
+        // 1つの値をセルの入力欄に貼り付ける場合は、通常の貼り付けにする
+        if (!text || (target.tagName === 'INPUT' && !/[\t\r\n]/.test(text.replace(/\r?\n$/, '')))) {
+            return;
+        }
+        const start = selectedRange
+            ? { row: selectedRange.top, col: selectedRange.left }
+            : editingCell ?? rangeAnchor;
+        if (!start) {
+            return;
+        }
+        e.preventDefault();
+        setEditingCell(null);
+        setEditValue('');
+
+        const rows = parseDelimited(text, detectDelimiter(text));
+        if (rows.length === 0) {
+            return;
+        }
+        const columnKeys = statement.columns.map(column => String(column).toLowerCase());
+        const columnMap = rows[0].map(field => columnKeys.indexOf(field.trim().toLowerCase()));
+        if (columnMap.some(index => index !== -1)) {
+            setPendingPaste({ rows, start, columnMap });
+            setPasteMessage('');
+            return;
+        }
+        applyPaste(rows, start);
+    };
+
+    // 選択範囲(または選択中のセル)の値をTSVとしてコピーする
+    const handleCopy = (e: React.ClipboardEvent) => {
+        const target = e.target as HTMLInputElement;
+        if (target.tagName === 'INPUT' && target.selectionStart !== target.selectionEnd) {
+            return;
+        }
+        const range = selectedRange ?? (rangeAnchor && toCellRange(rangeAnchor, rangeAnchor));
+        if (!range || !statement.values) {
+            return;
+        }
+        const rows = statement.values
+            .slice(range.top, range.bottom + 1)
+            .map(row => row.slice(range.left, range.right + 1).map(sqlValueToText));
+        e.preventDefault();
+        e.clipboardData.setData('text/plain', formatDelimited(rows, '\t'));
+    };
+
+    const renderPasteBar = () => {
+        if (pendingPaste) {
+            const matched = pendingPaste.columnMap.filter(index => index !== -1).length;
+            return (
+                <div className="range-toolbar">
+                    <span className="info-text">
+                        貼り付けた1行目がカラム名に見えます({pendingPaste.columnMap.length} 列中 {matched} 列が一致)
+                    </span>
+                    <button
+                        className="add-row-btn"
+                        onClick={() => applyPaste(pendingPaste.rows.slice(1), { row: pendingPaste.start.row, col: 0 }, pendingPaste.columnMap)}
+                        title="1行目を見出しとして扱い、同じ名前のカラムに値を入れる"
+                    >
+                        カラムに合わせて貼り付け
+                    </button>
+                    <button
+                        className="add-row-btn"
+                        onClick={() => applyPaste(pendingPaste.rows, pendingPaste.start)}
+                        title="1行目もデータとして、選択中のセルから順に入れる"
+                    >
+                        データとして貼り付け
+                    </button>
+                    <button className="column-delete-btn" onClick={() => setPendingPaste(null)} title="キャンセル">
+                        ×
+                    </button>
+                </div>
+            );
+        }
+        if (pasteMessage) {
+            return (
+                <div className="range-toolbar">
+                    <span className="info-text">{pasteMessage}</span>
+                    <button className="column-delete-btn" onClick={() => setPasteMessage('')} title="閉じる">
+                        ×
+                    </button>
+                </div>
+            );
+        }
+        return null;
+    };
+
     const handleColumnClick = useCallback((columnIndex: number, currentName: string) => {
         setEditingColumn(columnIndex);
         setEditColumnValue(currentName);
@@ -115,43 +466,212 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
         }
     }, [handleColumnSave, handleColumnCancel]);
 
-    const handleWhereClick = useCallback(() => {
-        setEditingWhere(true);
-        setWhereValue(statement.where ? String(statement.where) : '');
-        setWhereError('');
-        setShowWhereError(false);
-    }, [statement.where]);
-
-    const handleWhereSave = useCallback(() => {
-        // 空の場合はそのまま保存
-        if (!whereValue.trim()) {
-            onEditWhere(whereValue.trim());
-            setEditingWhere(false);
-            setWhereError('');
-            setShowWhereError(false);
-            return;
+    // カラムの型に合った入力欄と、NULLにするボタンを表示する
+    const renderCellEditor = (columnType?: ColumnType, foreignKey?: ForeignKeyOptions) => {
+        const category = columnType?.category;
+        const inputTypes: Partial<Record<TypeCategory, string>> = {
+            integer: 'number',
+            decimal: 'number',
+            date: 'date',
+            datetime: 'datetime-local',
+            time: 'time'
+        };
+
+        let editor: React.ReactNode;
+        if (editMode === 'expression') {
+            editor = (
+                <input
+                    type="text"
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onBlur={handleCellSave}
+                    onKeyDown={handleKeyPress}
+                    autoFocus
+                    className="cell-input expression-input"
+                    placeholder="例: NOW()"
+                />
+            );
+        } else if (foreignKey && foreignKey.options.length > 0) {
+            editor = renderForeignKeyPicker(foreignKey);
+        } else if (!category || !TYPED_EDITOR_CATEGORIES.includes(category)) {
+            editor = (
+                <input
+                    type="text"
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onBlur={handleCellSave}
+                    onKeyDown={handleKeyPress}
+                    autoFocus
+                    className="cell-input"
+                />
+            );
+        } else if (category === 'boolean') {
+            editor = (
+                <select
+                    value={editValue.toLowerCase() === 'null' ? '' : editValue.toLowerCase()}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onBlur={handleCellSave}
+                    onKeyDown={handleKeyPress}
+                    autoFocus
+                    className="cell-input"
+                >
+                    <option value="">NULL</option>
+                    <option value="true">TRUE</option>
+                    <option value="false">FALSE</option>
+                </select>
+            );
+        } else {
+            editor = (
+                <input
+                    type={inputTypes[category]}
+                    step={category === 'integer' ? 1 : category === 'decimal' ? 'any' : category === 'date' ? undefined : 1}
+                    value={toInputValue(editValue, category)}
+                    onChange={(e) => setEditValue(fromInputValue(e.target.value, category))}
+                    onBlur={handleCellSave}
+                    onKeyDown={handleKeyPress}
+                    autoFocus
+                    className="cell-input"
+                />
+            );
+        }
+
+        return (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                {editor}
+                <button
+                    className={`column-delete-btn expression-toggle${editMode === 'expression' ? ' active' : ''}`}
+                    style={{ width: 'auto', borderRadius: '3px', padding: '0 4px' }}
+                    // 入力欄のblurで先に保存されないようにする
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => setEditMode(editMode === 'expression' ? 'literal' : 'expression')}
+                    title={editMode === 'expression' ? '値として編集' : 'SQL式(関数呼び出しなど)として編集'}
+                >
+                    ƒx
+                </button>
+                <button
+                    className="column-delete-btn"
+                    style={{ width: 'auto', borderRadius: '3px', padding: '0 4px' }}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={handleSetNull}
+                    title="NULLにする"
+                >
+                    NULL
+                </button>
+            </div>
+        );
+    };
+
+    // 外部キーのカラムの入力欄。参照先の行のキーと表示用のカラムの値で絞り込める一覧を出す
+    const renderForeignKeyPicker = (foreignKey: ForeignKeyOptions) => {
+        // 開いた直後(値を変えていない間)はすべての選択肢を出す
+        const query = editingCell && editValue !== formatCellValue(editingCell.previous) ? editValue.trim().toLowerCase() : '';
+        const matches = query
+            ? foreignKey.options.filter(option =>
+                sqlValueToText(option.value).toLowerCase().includes(query) || option.label?.toLowerCase().includes(query))
+            : foreignKey.options;
+        const shown = matches.slice(0, MAX_FOREIGN_KEY_OPTIONS);
+
+        const handlePickerKeyDown = (e: React.KeyboardEvent) => {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                setActiveOption(prev => e.key === 'ArrowDown' ? Math.min(prev + 1, shown.length - 1) : Math.max(prev - 1, -1));
+            } else if (e.key === 'Enter' && shown[activeOption]) {
+                handlePickOption(shown[activeOption].value);
+            } else {
+                handleKeyPress(e);
+            }
+        };
+
+        return (
+            <div className="fk-picker">
+                <input
+                    type="text"
+                    value={editValue}
+                    onChange={(e) => {
+                        setEditValue(e.target.value);
+                        setActiveOption(-1);
+                    }}
+                    onBlur={handleCellSave}
+                    onKeyDown={handlePickerKeyDown}
+                    autoFocus
+                    className="cell-input"
+                    title={`${foreignKey.referencedTable}.${foreignKey.referencedColumn} の値${foreignKey.displayColumn ? `(${foreignKey.displayColumn} でも検索できます)` : ''}`}
+                />
+                <ul className="fk-options">
+                    {shown.map((option, index) => (
+                        <li
+                            key={index}
+                            className={index === activeOption ? 'active' : undefined}
+                            // 入力欄のblurで先に保存されないようにする
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => handlePickOption(option.value)}
+                        >
+                            <span>{sqlValueToText(option.value)}</span>
+                            {option.label !== undefined && <span className="fk-label">{option.label}</span>}
+                        </li>
+                    ))}
+                    {matches.length > shown.length && (
+                        <li className="fk-note">ほかに {matches.length - shown.length} 件(入力して絞り込めます)</li>
+                    )}
+                    {matches.length === 0 && (
+                        <li className="fk-note">{foreignKey.referencedTable} に一致する行がありません</li>
+                    )}
+                </ul>
+            </div>
+        );
+    };
+
+    // 外部キーの値の横に、参照先の行の表示用のカラムの値(名前など)を添える
+    const renderForeignKeyLabel = (value: SQLValue, foreignKey?: ForeignKeyOptions) => {
+        const key = valueKey(value);
+        const label = key !== undefined ? foreignKey?.optionsByKey.get(key)?.label : undefined;
+        return label !== undefined && <span className="fk-label">{label}</span>;
+    };
+
+    // 値を表示し、宣言された型に合わない値には印を付ける
+    const renderCellValue = (value: SQLValue, columnType?: ColumnType) => {
+        if (value.kind === 'expression') {
+            return (
+                <span className="expression-value" title="SQL式(クリックしてSQLとして編集)">
+                    ƒx {value.sql}
+                </span>
+            );
         }
 
-        // バリデーション要求をVSCodeに送信
-        // 一時的に保存してバリデーション結果を待つ
-        onEditWhere(whereValue);
-        setEditingWhere(false);
-    }, [whereValue, onEditWhere]);
+        const problem = columnType ? validateValueType(value, columnType) : undefined;
+        if (!problem) {
+            return value.kind === 'null' ? <span className="info-text">NULL</span> : formatCellValue(value);
+        }
+        return (
+            <span className="invalid-value" title={problem}>
+                ⚠ {formatCellValue(value)}
+            </span>
+        );
+    };
 
-    const handleWhereCancel = useCallback(() => {
-        setEditingWhere(false);
-        setWhereValue('');
-        setWhereError('');
-        setShowWhereError(false);
-    }, []);
+    const renderTypeBadge = (columnType?: ColumnType) => {
+        if (!columnType) {
+            return null;
+        }
+        return (
+            <span className="type-badge" title={columnType.dataType}>
+                {getTypeBadge(columnType)}
+            </span>
+        );
+    };
 
-    const handleWhereKeyPress = useCallback((e: React.KeyboardEvent) => {
-        if (e.key === 'Enter') {
-            handleWhereSave();
-        } else if (e.key === 'Escape') {
-            handleWhereCancel();
+    // 外部キーのカラムの見出しに参照先のテーブルを示す
+    const renderReferenceBadge = (columnName: string) => {
+        const foreignKey = getForeignKey(columnName);
+        if (!foreignKey) {
+            return null;
         }
-    }, [handleWhereSave, handleWhereCancel]);
+        return (
+            <span className="type-badge" title={`${foreignKey.referencedTable}.${foreignKey.referencedColumn} を参照`}>
+                → {foreignKey.referencedTable}
+            </span>
+        );
+    };
 
     const renderTable = () => {
         switch (statement.type) {
@@ -159,27 +679,122 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
                 return renderInsertTable();
             case 'update':
                 return renderUpdateTable();
-            case 'select':
-                return renderSelectTable();
             case 'delete':
                 return renderDeleteTable();
+            case 'raw':
+                return renderRawBlock();
             default:
                 return <div>未対応のSQLタイプ: {statement.type}</div>;
         }
     };
 
+    // 値の数がカラムリストと合わない行(カラムリストを省略したINSERTは比べない)
+    const isMismatchRow = (row: SQLValue[]): boolean =>
+        !!statement.columns && statement.columns.length > 0 && row.length !== statement.columns.length;
+
+    // INSERTの1行(rowIndexはstatement.valuesでの番号)。値の数がカラム数と合わない行は、補ったり削ったりせずにそのまま表示する
+    const renderInsertRow = (row: SQLValue[], rowIndex: number) => (
+        <tr
+            key={rowIndex}
+            className={[rowClassName(rowIndex), isMismatchRow(row) ? 'mismatch-row' : ''].filter(Boolean).join(' ') || undefined}
+            title={isMismatchRow(row)
+                ? `値が ${row.length} 個ありますが、カラムは ${statement.columns!.length} 個です。テキストエディタのクイックフィックスで修正できます`
+                : undefined}
+            ref={isSelectedRow(rowIndex) && selectedCell?.col === undefined ? setSelectedElement : undefined}
+        >
+            {row.map((cell, colIndex) => {
+                const columnType = getColumnType(statement.columns![colIndex]);
+                const foreignKey = getForeignKey(statement.columns![colIndex]);
+                const orphanProblem = getOrphanProblem(cell, foreignKey);
+                const problem = [cellProblems.get(`${rowIndex}:${colIndex}`), orphanProblem].filter(Boolean).join('\n') || undefined;
+                const problemClassName = cellProblems.has(`${rowIndex}:${colIndex}`) ? 'constraint-error' : orphanProblem ? 'orphan-value' : '';
+                if (readOnly) {
+                    return (
+                        <td key={colIndex} className={problemClassName || undefined} title={problem}>
+                            {renderCellValue(cell, columnType)}
+                            {renderForeignKeyLabel(cell, foreignKey)}
+                        </td>
+                    );
+                }
+                return (
+                    <td 
+                        key={colIndex}
+                        ref={isSelectedCell(rowIndex, colIndex) ? setSelectedElement : undefined}
+                        className={[
+                            'editable-cell',
+                            isSelectedCell(rowIndex, colIndex) ? 'selected-cell' : '',
+                            isInRange(selectedRange, rowIndex, colIndex) ? 'range-cell' : '',
+                            problemClassName
+                        ].filter(Boolean).join(' ')}
+                        title={problem}
+                        onClick={(e) => handleInsertCellClick(e, rowIndex, colIndex, cell, columnType)}
+                    >
+                        {editingCell?.row === rowIndex && editingCell?.col === colIndex ? (
+                            renderCellEditor(columnType, foreignKey)
+                        ) : (
+                            <>
+                                {renderCellValue(cell, columnType)}
+                                {renderForeignKeyLabel(cell, foreignKey)}
+                            </>
+                        )}
+                    </td>
+                );
+            })}
+            {statement.columns!.slice(row.length).map((_, index) => (
+                <td key={`missing-${index}`} className="missing-cell">(値なし)</td>
+            ))}
+            {!readOnly && <td style={{ textAlign: 'center' }}>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', alignItems: 'center' }}>
+                    <button 
+                        onClick={() => onDeleteRow(rowIndex)}
+                        className="column-delete-btn"
+                        title="行を削除"
+                    >
+                        ×
+                    </button>
+                </div>
+            </td>}
+        </tr>
+    );
+
+    // 描画しない行の代わりに置く、同じ高さの空の行
+    const renderSpacer = (height: number, columnSpan: number) => height > 0 && (
+        <tr className="virtual-spacer" style={{ height }}>
+            <td colSpan={columnSpan} />
+        </tr>
+    );
+
     const renderInsertTable = () => {
         if (!statement.columns || !statement.values) {
             return <div>INSERTのデータがありません</div>;
         }
+        const columnSpan = statement.columns.length + (readOnly ? 0 : 1);
 
         return (
-            <div className="table-container">
+            <div
+                className="table-container"
+                // 貼り付け・コピーを受け取れるよう、フォーカスできるようにする
+                tabIndex={readOnly ? undefined : 0}
+                onPaste={readOnly ? undefined : handlePaste}
+                onCopy={readOnly ? undefined : handleCopy}
+            >
+                {renderPasteBar()}
+                {renderRangeToolbar()}
                 <table className="sql-table">
                     <thead>
                         <tr>
-                            {statement.columns.map((col, index) => (
-                                <th key={index} className="editable-cell" style={{ position: 'relative' }}>
+                            {statement.columns.map((col, index) => readOnly ? (
+                                <th key={index} className={columnProblems.has(index) ? 'constraint-error' : undefined} title={columnProblems.get(index)}>
+                                    {col}
+                                    {renderTypeBadge(getColumnType(col))}
+                                    {renderReferenceBadge(col)}
+                                </th>
+                            ) : (
+                                <th
+                                    key={index}
+                                    className={columnProblems.has(index) ? 'editable-cell constraint-error' : 'editable-cell'}
+                                    style={{ position: 'relative' }}
+                                >
                                     <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                                         {editingColumn === index ? (
                                             <input
@@ -196,9 +811,11 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
                                             <div 
                                                 onClick={() => handleColumnClick(index, col)}
                                                 style={{ cursor: 'pointer', flex: 1 }}
-                                                title="クリックしてカラム名を編集"
+                                                title={columnProblems.has(index) ? `${columnProblems.get(index)}\nクリックしてカラム名を編集` : 'クリックしてカラム名を編集'}
                                             >
                                                 {col}
+                                                {renderTypeBadge(getColumnType(col))}
+                                                {renderReferenceBadge(col)}
                                             </div>
                                         )}
                                         <button 
@@ -211,7 +828,7 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
                                     </div>
                                 </th>
                             ))}
-                            <th style={{ textAlign: 'center' }}>
+                            {!readOnly && <th style={{ textAlign: 'center' }}>
                                 <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', alignItems: 'center' }}>
                                     <button 
                                         onClick={onAddColumn}
@@ -222,51 +839,18 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
                                         + カラム
                                     </button>
                                 </div>
-                            </th>
+                            </th>}
                         </tr>
                     </thead>
-                    <tbody>
-                        {statement.values.map((row, rowIndex) => (
-                            <tr key={rowIndex}>
-                                {row.map((cell, colIndex) => (
-                                    <td 
-                                        key={colIndex}
-                                        className="editable-cell"
-                                        onClick={() => handleCellClick(rowIndex, colIndex, cell)}
-                                    >
-                                        {editingCell?.row === rowIndex && editingCell?.col === colIndex ? (
-                                            <input
-                                                type="text"
-                                                value={editValue}
-                                                onChange={(e) => setEditValue(e.target.value)}
-                                                onBlur={handleCellSave}
-                                                onKeyDown={handleKeyPress}
-                                                autoFocus
-                                                className="cell-input"
-                                            />
-                                        ) : (
-                                            formatCellValue(cell)
-                                        )}
-                                    </td>
-                                ))}
-                                <td style={{ textAlign: 'center' }}>
-                                    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', alignItems: 'center' }}>
-                                        <button 
-                                            onClick={() => onDeleteRow(rowIndex)}
-                                            className="column-delete-btn"
-                                            title="行を削除"
-                                        >
-                                            ×
-                                        </button>
-                                    </div>
-                                </td>
-                            </tr>
-                        ))}
+                    <tbody ref={virtualRows.bodyRef}>
+                        {renderSpacer(virtualRows.paddingTop, columnSpan)}
+                        {statement.values.slice(virtualRows.start, virtualRows.end).map((row, offset) => renderInsertRow(row, virtualRows.start + offset))}
+                        {renderSpacer(virtualRows.paddingBottom, columnSpan)}
                     </tbody>
                 </table>
-                <button onClick={onAddRow} className="add-row-btn">
+                {!readOnly && <button onClick={onAddRow} className="add-row-btn">
                     + 行を追加
-                </button>
+                </button>}
             </div>
         );
     };
@@ -305,7 +889,8 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
                             {statement.data.map((row, rowIndex) => (
                                 <tr key={rowIndex}>
                                     <td 
-                                        className="editable-cell"
+                                        ref={isSelectedCell(rowIndex, 0) ? setSelectedElement : undefined}
+                                        className={`editable-cell${isSelectedCell(rowIndex, 0) ? ' selected-cell' : ''}`}
                                         onClick={() => handleCellClick(rowIndex, 0, row[0])}
                                     >
                                         {editingCell?.row === rowIndex && editingCell?.col === 0 ? (
@@ -319,25 +904,21 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
                                                 className="cell-input"
                                             />
                                         ) : (
-                                            formatCellValue(row[0])
+                                            <>
+                                                {formatCellValue(row[0])}
+                                                {renderTypeBadge(getColumnType(String(row[0])))}
+                                            </>
                                         )}
                                     </td>
                                     <td 
-                                        className="editable-cell"
-                                        onClick={() => handleCellClick(rowIndex, 1, row[1])}
+                                        ref={isSelectedCell(rowIndex, 1) ? setSelectedElement : undefined}
+                                        className={`editable-cell${isSelectedCell(rowIndex, 1) ? ' selected-cell' : ''}`}
+                                        onClick={() => handleCellClick(rowIndex, 1, row[1], getColumnType(String(row[0])))}
                                     >
                                         {editingCell?.row === rowIndex && editingCell?.col === 1 ? (
-                                            <input
-                                                type="text"
-                                                value={editValue}
-                                                onChange={(e) => setEditValue(e.target.value)}
-                                                onBlur={handleCellSave}
-                                                onKeyDown={handleKeyPress}
-                                                autoFocus
-                                                className="cell-input"
-                                            />
+                                            renderCellEditor(getColumnType(String(row[0])))
                                         ) : (
-                                            formatCellValue(row[1])
+                                            renderCellValue(row[1], getColumnType(String(row[0])))
                                         )}
                                     </td>
                                     <td style={{ textAlign: 'center' }}>
@@ -364,34 +945,6 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
         );
     };
 
-    const renderSelectTable = () => {
-        if (!statement.columns) {
-            return <div>SELECTのカラム情報がありません</div>;
-        }
-
-        return (
-            <div className="table-container">
-                <table className="sql-table">
-                    <thead>
-                        <tr>
-                            <th>カラム名</th>
-                        </tr>
-                    </thead>
-                    <tbody>
-                        {statement.columns.map((col, index) => (
-                            <tr key={index}>
-                                <td>{col}</td>
-                            </tr>
-                        ))}
-                    </tbody>
-                </table>
-                <div className="info-text">
-                    SELECTは読み取り専用です
-                </div>
-            </div>
-        );
-    };
-
     const renderDeleteTable = () => {
         return (
             <>
@@ -403,110 +956,29 @@ export const SQLTable: React.FC<SQLTableProps> = React.memo(({
         );
     };
 
-    const renderWhereClause = () => {
-        const hasError = showWhereError && whereError;
-        
+    const renderWhereClause = () => (
+        <WhereClauseEditor
+            where={statement.where}
+            condition={statement.condition}
+            columns={tableColumns ?? statement.columns ?? []}
+            columnTypes={columnTypes}
+            dialect={dialect ?? DEFAULT_DIALECT}
+            validationError={validationError}
+            onEditWhere={onEditWhere}
+        />
+    );
+
+    // テーブル表示できない文は元のSQLをそのまま読み取り専用で表示する
+    const renderRawBlock = () => {
         return (
-            <div style={{ 
-                marginTop: '15px', 
-                padding: '10px', 
-                border: hasError ? '2px solid var(--vscode-inputValidation-errorBorder)' : '1px solid var(--vscode-panel-border)', 
-                borderRadius: '4px',
-                backgroundColor: hasError ? 'var(--vscode-inputValidation-errorBackground)' : 'transparent'
-            }}>
-                <div style={{ 
-                    marginBottom: '8px', 
-                    fontWeight: 'bold',
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '8px'
-                }}>
-                    WHERE句:
-                    {hasError && (
-                        <span style={{ 
-                            color: 'var(--vscode-errorForeground)',
-                            fontSize: '12px',
-                            fontWeight: 'normal'
-                        }}>
-                            ⚠️ 構文エラー
-                        </span>
-                    )}
+            <>
+                <pre className="sql-block">{statement.sql}</pre>
+                <div className="info-text">
+                    {statement.parseError
+                        ? `この文は解析できないため、編集せずにそのまま保持します: ${statement.parseError}`
+                        : 'この文はテーブル表示に対応していないため、編集せずにそのまま保持します'}
                 </div>
-                {editingWhere ? (
-                    <>
-                        <input
-                            type="text"
-                            value={whereValue}
-                            onChange={(e) => setWhereValue(e.target.value)}
-                            onBlur={handleWhereSave}
-                            onKeyDown={handleWhereKeyPress}
-                            autoFocus
-                            className="cell-input"
-                            placeholder="例: id = 1 または age > 25"
-                            style={{ 
-                                width: '100%', 
-                                padding: '4px',
-                                borderColor: whereError ? 'var(--vscode-inputValidation-errorBorder)' : undefined
-                            }}
-                        />
-                        {whereError && (
-                            <div style={{ 
-                                color: 'var(--vscode-errorForeground)',
-                                backgroundColor: 'var(--vscode-inputValidation-errorBackground)',
-                                padding: '4px 8px',
-                                marginTop: '4px',
-                                borderRadius: '2px',
-                                fontSize: '12px'
-                            }}>
-                                {whereError}
-                            </div>
-                        )}
-                    </>
-                ) : (
-                    <>
-                        <div 
-                            onClick={handleWhereClick}
-                            style={{ 
-                                cursor: 'pointer', 
-                                padding: '4px',
-                                minHeight: '24px',
-                                backgroundColor: 'var(--vscode-input-background)',
-                                border: hasError ? '2px solid var(--vscode-inputValidation-errorBorder)' : '1px solid var(--vscode-input-border)',
-                                borderRadius: '2px'
-                            }}
-                            title="クリックしてWHERE句を編集"
-                        >
-                            {statement.where || '(クリックして条件を追加)'}
-                        </div>
-                        {hasError && (
-                            <div style={{ 
-                                color: 'var(--vscode-errorForeground)',
-                                backgroundColor: 'var(--vscode-inputValidation-errorBackground)',
-                                padding: '8px',
-                                marginTop: '8px',
-                                borderRadius: '4px',
-                                fontSize: '12px',
-                                fontWeight: 'bold',
-                                display: 'flex',
-                                alignItems: 'flex-start',
-                                gap: '8px'
-                            }}>
-                                <div>
-                                    <div style={{ fontWeight: 'normal' }}>{whereError}</div>
-                                    <div style={{ marginTop: '8px', fontSize: '11px', fontStyle: 'italic', opacity: 0.8 }}>
-                                        クリックして修正してください。このWHERE句は実行できません。
-                                    </div>
-                                </div>
-                            </div>
-                        )}
-                    </>
-                )}
-                {!hasError && (
-                    <div className="info-text" style={{ marginTop: '8px', fontSize: '12px' }}>
-                        例: id = 1, name = 'John', age &gt; 25, status = 'active' AND age &lt; 30
-                    </div>
-                )}
-            </div>
+            </>
         );
     };
 
@@ -1,41 +1,136 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { SQLTable } from './SQLTable';
+import { SchemaTable } from './SchemaTable';
+import { SelectPanel, SelectPreview } from './SelectPanel';
+import { ResultStatePanel } from './ResultStatePanel';
+import { ExportMenu, ExportFormat, ExportScope } from './ExportMenu';
+import { WhereMatchPanel } from './WhereMatchPanel';
+import { simulateStatements } from './stateSimulator';
+import { CellEdit } from './cellRange';
+import { ParsedSQLData, ParsedStatement, StatementRowPatch, ColumnDefinition, TableSchema, InsertedRows } from './types';
+import { SQLValue } from '../sqlValue';
+import { ColumnType, classifyDataType } from '../columnTypes';
+import { ConstraintViolation, findConstraintViolations, rejectsNull } from '../seedConstraints';
+import { ForeignKeyOptions, collectForeignKeyOptions } from './foreignKeyOptions';
+import { normalizeDialect } from '../sqlDialect';
+import { foreignKeysOf } from '../foreignKeys';
 
-interface ParsedSQLData {
-    success: boolean;
-    statements: ParsedStatement[];
-    error?: string;
-    raw: string;
+interface DialectInfo {
+    name: string;
+    label: string;
+    source: 'header' | 'extension' | 'setting' | 'default';
 }
 
-interface ParsedStatement {
-    type: 'select' | 'insert' | 'update' | 'delete' | 'unknown';
-    tableName?: string;
-    columns?: string[];
-    values?: any[][];
-    where?: any;
-    set?: any;
-    data?: any[][];
-}
+// 方言の決まり方を表示用の文字列に変換する
+const DIALECT_SOURCE_LABELS: Record<DialectInfo['source'], string> = {
+    header: 'ファイル先頭のコメント',
+    extension: 'ファイルの拡張子',
+    setting: '設定 visualSql.dialect',
+    default: '既定値'
+};
 
 interface SQLViewerProps {
     vscode: any;
 }
 
+// 文ごとの表に渡すコールバック。文の番号ごとに同じ関数を使い、メモ化した表が他の文の変更で描画し直されないようにする
+interface StatementCallbacks {
+    onCellEdit: (rowIndex: number, columnIndex: number, value: SQLValue) => void;
+    onBatchCellEdit: (edits: CellEdit[]) => void;
+    onAddRow: () => void;
+    onDeleteRow: (rowIndex: number) => void;
+    onAddColumn: () => void;
+    onDeleteColumn: (columnIndex: number) => void;
+    onEditColumnName: (columnIndex: number, newName: string) => void;
+    onEditWhere: (whereClause: string) => void;
+    onSelectCell: (rowIndex: number, columnIndex: number) => void;
+    onEditDefinition: (columnIndex: number, definition: ColumnDefinition) => void;
+    onAddDefinition: () => void;
+    onDeleteDefinition: (columnIndex: number) => void;
+    onMoveDefinition: (columnIndex: number, offset: number) => void;
+    onPreview: () => void;
+    onExport: (scope: ExportScope, format: ExportFormat) => void;
+    onToggleHighlight: () => void;
+}
+
+// 前回の文の行に、変わった行だけを差し替える(変わっていない行は同じオブジェクトのまま使う)
+function applyRowPatch(base: ParsedStatement | undefined, patch: StatementRowPatch): ParsedStatement {
+    const values = (base?.values ?? []).slice(0, patch.rowCount);
+    patch.rows.forEach(([rowIndex, row]) => {
+        values[rowIndex] = row;
+    });
+    return { ...patch.statement, values };
+}
+
 export const SQLViewer: React.FC<SQLViewerProps> = ({ vscode }) => {
     const [data, setData] = useState<ParsedSQLData | null>(null);
     const [fileName, setFileName] = useState<string>('');
+    const [dialect, setDialect] = useState<DialectInfo | null>(null);
     const [loading, setLoading] = useState<boolean>(true);
     const [validationErrors, setValidationErrors] = useState<Map<number, string>>(new Map());
+    // 文の対象テーブルのCREATE TABLE定義(キーは小文字のテーブル名)
+    const [schema, setSchema] = useState<Record<string, TableSchema>>({});
+    // UPDATE・DELETEの対象テーブルに他のファイルでINSERTされた行(キーは小文字のテーブル名)
+    const [workspaceRows, setWorkspaceRows] = useState<Record<string, InsertedRows[]>>({});
+    // INSERTの表で一致する行を強調しているUPDATE・DELETEの文の番号
+    const [highlightedMatch, setHighlightedMatch] = useState<number | null>(null);
+    // SELECTの結果のプレビュー(キーは文の番号)
+    const [previews, setPreviews] = useState<Map<number, SelectPreview>>(new Map());
+    // statements: 文ごとの表示, result: ファイルを適用した後の各テーブルの内容
+    const [viewMode, setViewMode] = useState<'statements' | 'result'>('statements');
+    // 結果の状態から移動してきた文(強調して表示する)
+    const [highlightedStatement, setHighlightedStatement] = useState<number | null>(null);
+    const statementRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+    // テキストエディタのカーソル位置にある文・行・セル
+    const [selection, setSelection] = useState<{ statementIndex?: number; rowIndex?: number; columnIndex?: number }>({});
+
+    // 最後に受け取った文(変わっていない文は、拡張機能側から前回の番号だけが届く)
+    const statementsRef = useRef<ParsedStatement[]>([]);
 
     useEffect(() => {
         // メッセージリスナー
         const handleMessage = (event: MessageEvent) => {
             const message = event.data;
             if (message.type === 'updateData') {
-                setData(message.data);
+                // 変わっていない文は前回のオブジェクトをそのまま使う(メモ化した表を描画し直さないため)
+                const previousStatements = statementsRef.current;
+                const statements = (message.statements as (ParsedStatement | StatementRowPatch | number)[]).map(entry => {
+                    if (typeof entry === 'number') {
+                        return statementsRef.current[entry];
+                    }
+                    return 'base' in entry ? applyRowPatch(statementsRef.current[entry.base], entry) : entry;
+                });
+                statementsRef.current = statements;
+                setData({ ...message.data, statements });
                 setFileName(message.fileName);
+                setDialect(message.dialect || null);
+                setSchema(message.schema || {});
+                setWorkspaceRows(message.workspaceRows || {});
+                // ファイルが変わると結果も文の番号も変わりうるため、プレビューは消す
+                setPreviews(new Map());
+                // WHERE句の検証エラーは変わっていない文のものだけを残し、新しい番号に付け替える
+                setValidationErrors(prev => {
+                    if (prev.size === 0) {
+                        return prev;
+                    }
+                    const errors = new Map<number, string>();
+                    prev.forEach((error, index) => {
+                        const newIndex = statements.indexOf(previousStatements[index]);
+                        if (newIndex !== -1) {
+                            errors.set(newIndex, error);
+                        }
+                    });
+                    return errors;
+                });
                 setLoading(false);
+            } else if (message.type === 'selectionChanged') {
+                setSelection({
+                    statementIndex: message.statementIndex,
+                    rowIndex: message.rowIndex,
+                    columnIndex: message.columnIndex
+                });
+            } else if (message.type === 'previewResult') {
+                setPreviews(prev => new Map(prev).set(message.statementIndex, { loading: false, result: message.result }));
             } else if (message.type === 'whereValidationError') {
                 setValidationErrors(prev => {
                     const newErrors = new Map(prev);
@@ -59,7 +154,7 @@ export const SQLViewer: React.FC<SQLViewerProps> = ({ vscode }) => {
     }, []);
 
     // useCallbackでメモ化してパフォーマンスを向上
-    const handleCellEdit = useCallback((statementIndex: number, rowIndex: number, columnIndex: number, value: any): void => {
+    const handleCellEdit = useCallback((statementIndex: number, rowIndex: number, columnIndex: number, value: SQLValue): void => {
         vscode.postMessage({ 
             type: 'cellEdit', 
             statementIndex, 
@@ -69,6 +164,14 @@ export const SQLViewer: React.FC<SQLViewerProps> = ({ vscode }) => {
         });
     }, [vscode]);
 
+    const handleBatchCellEdit = useCallback((statementIndex: number, edits: CellEdit[]): void => {
+        vscode.postMessage({
+            type: 'batchCellEdit',
+            statementIndex,
+            edits
+        });
+    }, [vscode]);
+
     const handleAddRow = useCallback((statementIndex: number): void => {
         vscode.postMessage({ 
             type: 'addRow', 
@@ -116,6 +219,265 @@ export const SQLViewer: React.FC<SQLViewerProps> = ({ vscode }) => {
         });
     }, [vscode]);
 
+    const handleEditColumnDefinition = useCallback((statementIndex: number, columnIndex: number, definition: ColumnDefinition): void => {
+        vscode.postMessage({
+            type: 'editColumnDefinition',
+            statementIndex,
+            columnIndex,
+            definition
+        });
+    }, [vscode]);
+
+    const handleAddColumnDefinition = useCallback((statementIndex: number): void => {
+        vscode.postMessage({
+            type: 'addColumnDefinition',
+            statementIndex
+        });
+    }, [vscode]);
+
+    const handleDeleteColumnDefinition = useCallback((statementIndex: number, columnIndex: number): void => {
+        vscode.postMessage({
+            type: 'deleteColumnDefinition',
+            statementIndex,
+            columnIndex
+        });
+    }, [vscode]);
+
+    const handleMoveColumnDefinition = useCallback((statementIndex: number, columnIndex: number, offset: number): void => {
+        vscode.postMessage({
+            type: 'moveColumnDefinition',
+            statementIndex,
+            columnIndex,
+            offset
+        });
+    }, [vscode]);
+
+    // テーブルごとの宣言されたカラムの型(キーは小文字のテーブル名・カラム名)。SQLTableの再描画を避けるためメモ化する
+    const columnTypesByTable = useMemo(() => {
+        const result: Record<string, Record<string, ColumnType>> = {};
+        Object.entries(schema).forEach(([tableKey, table]) => {
+            const columnTypes: Record<string, ColumnType> = {};
+            table.columns.forEach(column => {
+                columnTypes[column.name.toLowerCase()] = {
+                    ...classifyDataType(column.dataType),
+                    notNull: rejectsNull(column, table)
+                };
+            });
+            result[tableKey] = columnTypes;
+        });
+        return result;
+    }, [schema]);
+
+    const getColumnTypes = (statement: ParsedStatement): Record<string, ColumnType> | undefined => {
+        return statement.tableName ? columnTypesByTable[statement.tableName.toLowerCase()] : undefined;
+    };
+
+    // WHERE句の条件ビルダーで選べるカラム(キーは小文字のテーブル名)
+    const columnNamesByTable = useMemo(() => {
+        const result: Record<string, string[]> = {};
+        Object.entries(schema).forEach(([tableKey, table]) => {
+            result[tableKey] = table.columns.map(column => column.name);
+        });
+        return result;
+    }, [schema]);
+
+    const getTableColumns = (statement: ParsedStatement): string[] | undefined => {
+        return statement.tableName ? columnNamesByTable[statement.tableName.toLowerCase()] : undefined;
+    };
+
+    // 条件ビルダーが組み立てるWHERE句の識別子・文字列の書き方
+    const dialectName = normalizeDialect(dialect?.name);
+
+    // ファイルを上から順に適用した結果。結果の状態の表示とWHERE句に一致する行の表示に使う
+    const simulation = useMemo(() => {
+        return data?.success ? simulateStatements(data.statements, schema, dialectName) : undefined;
+    }, [data, schema, dialectName]);
+
+    // 主キー・UNIQUE・NOT NULLの違反とないカラム(キーはINSERTの文の番号)。問題パネルと同じ検査を表のセルに表示する
+    const violationsRef = useRef<Map<number, ConstraintViolation[]>>(new Map());
+    const violationsByInsert = useMemo(() => {
+        const violations = new Map<number, ConstraintViolation[]>();
+        if (data?.success) {
+            findConstraintViolations(data.statements, tableName => schema[tableName.toLowerCase()], dialectName).forEach(violation => {
+                const list = violations.get(violation.statementIndex);
+                if (list) {
+                    list.push(violation);
+                } else {
+                    violations.set(violation.statementIndex, [violation]);
+                }
+            });
+        }
+        // 前回と同じ違反は前回の配列を使う(違反の変わらない表を描画し直さないため)
+        violations.forEach((list, statementIndex) => {
+            const previous = violationsRef.current.get(statementIndex);
+            if (previous && JSON.stringify(previous) === JSON.stringify(list)) {
+                violations.set(statementIndex, previous);
+            }
+        });
+        violationsRef.current = violations;
+        return violations;
+    }, [data, schema, dialectName]);
+
+    // INSERTのテーブルごとの、外部キーのカラムで選べる値(キーは小文字のテーブル名・カラム名)
+    const foreignKeyCacheRef = useRef<Map<string, { inputs: unknown[]; options: Record<string, ForeignKeyOptions> }>>(new Map());
+    const foreignKeysByTable = useMemo(() => {
+        const result: Record<string, Record<string, ForeignKeyOptions>> = {};
+        const cache = new Map<string, { inputs: unknown[]; options: Record<string, ForeignKeyOptions> }>();
+        data?.statements.forEach(statement => {
+            const tableKey = statement.tableName?.toLowerCase();
+            if (statement.type === 'insert' && tableKey && !result[tableKey]) {
+                // 参照先のテーブルへのINSERT(変わっていなければ前回と同じオブジェクト)が同じなら、前回の選択肢を使う
+                const table = schema[tableKey];
+                const parents = new Set((table ? foreignKeysOf(table) : []).map(foreignKey => foreignKey.referencedTable.toLowerCase()));
+                const inputs: unknown[] = [
+                    schema,
+                    workspaceRows,
+                    ...data.statements.filter(parent => parent.type === 'insert' && parents.has(parent.tableName?.toLowerCase() ?? ''))
+                ];
+                const cached = foreignKeyCacheRef.current.get(tableKey);
+                const options = cached && cached.inputs.length === inputs.length && cached.inputs.every((input, index) => input === inputs[index])
+                    ? cached.options
+                    : collectForeignKeyOptions(statement.tableName!, data.statements, schema, workspaceRows);
+                cache.set(tableKey, { inputs, options });
+                result[tableKey] = options;
+            }
+        });
+        foreignKeyCacheRef.current = cache;
+        return result;
+    }, [data, schema, workspaceRows]);
+
+    // 強調するINSERTの行(キーはINSERTの文の番号)
+    const highlightedRowsByInsert = useMemo(() => {
+        const rows = new Map<number, Set<number>>();
+        const match = highlightedMatch !== null ? simulation?.matches.get(highlightedMatch) : undefined;
+        match?.rows.forEach(row => {
+            if (!rows.has(row.insertedBy)) {
+                rows.set(row.insertedBy, new Set());
+            }
+            rows.get(row.insertedBy)!.add(row.insertedRow);
+        });
+        return rows;
+    }, [simulation, highlightedMatch]);
+
+    const handleToggleHighlight = useCallback((statementIndex: number): void => {
+        setHighlightedMatch(prev => prev === statementIndex ? null : statementIndex);
+    }, []);
+
+    const handlePreviewSelect = useCallback((statementIndex: number): void => {
+        setPreviews(prev => new Map(prev).set(statementIndex, { loading: true }));
+        vscode.postMessage({
+            type: 'previewSelect',
+            statementIndex
+        });
+    }, [vscode]);
+
+    const handleExport = useCallback((statementIndex: number, scope: ExportScope, format: ExportFormat): void => {
+        vscode.postMessage({
+            type: 'exportStatement',
+            statementIndex,
+            scope,
+            format
+        });
+    }, [vscode]);
+
+    const handleJumpToStatement = useCallback((statementIndex: number): void => {
+        setViewMode('statements');
+        setHighlightedStatement(statementIndex);
+    }, []);
+
+    // 文ごとの表示に切り替わってから、移動先の文までスクロールする
+    useEffect(() => {
+        if (viewMode === 'statements' && highlightedStatement !== null) {
+            statementRefs.current.get(highlightedStatement)?.scrollIntoView({ block: 'start' });
+        }
+    }, [viewMode, highlightedStatement]);
+
+    // カーソルが文の中にあり、表のセルにはない場合は文が見えるようにスクロールする(セルはSQLTableがスクロールする)
+    useEffect(() => {
+        if (viewMode === 'statements' && selection.statementIndex !== undefined && selection.rowIndex === undefined) {
+            statementRefs.current.get(selection.statementIndex)?.scrollIntoView({ block: 'nearest' });
+        }
+    }, [viewMode, selection]);
+
+    // クリックしたセル(または文)をテキストエディタで選択する
+    const handleSelectCell = useCallback((statementIndex: number, rowIndex?: number, columnIndex?: number): void => {
+        setSelection({ statementIndex, rowIndex, columnIndex });
+        vscode.postMessage({
+            type: 'revealCell',
+            statementIndex,
+            rowIndex,
+            columnIndex
+        });
+    }, [vscode]);
+
+    const statementCallbacks = useMemo(() => {
+        const cache = new Map<number, StatementCallbacks>();
+        return (index: number): StatementCallbacks => {
+            let callbacks = cache.get(index);
+            if (!callbacks) {
+                callbacks = {
+                    onCellEdit: (rowIndex, columnIndex, value) => handleCellEdit(index, rowIndex, columnIndex, value),
+                    onBatchCellEdit: (edits) => handleBatchCellEdit(index, edits),
+                    onAddRow: () => handleAddRow(index),
+                    onDeleteRow: (rowIndex) => handleDeleteRow(index, rowIndex),
+                    onAddColumn: () => handleAddColumn(index),
+                    onDeleteColumn: (columnIndex) => handleDeleteColumn(index, columnIndex),
+                    onEditColumnName: (columnIndex, newName) => handleEditColumnName(index, columnIndex, newName),
+                    onEditWhere: (whereClause) => handleEditWhere(index, whereClause),
+                    onSelectCell: (rowIndex, columnIndex) => handleSelectCell(index, rowIndex, columnIndex),
+                    onEditDefinition: (columnIndex, definition) => handleEditColumnDefinition(index, columnIndex, definition),
+                    onAddDefinition: () => handleAddColumnDefinition(index),
+                    onDeleteDefinition: (columnIndex) => handleDeleteColumnDefinition(index, columnIndex),
+                    onMoveDefinition: (columnIndex, offset) => handleMoveColumnDefinition(index, columnIndex, offset),
+                    onPreview: () => handlePreviewSelect(index),
+                    onExport: (scope, format) => handleExport(index, scope, format),
+                    onToggleHighlight: () => handleToggleHighlight(index)
+                };
+                cache.set(index, callbacks);
+            }
+            return callbacks;
+        };
+    }, [
+        handleCellEdit, handleBatchCellEdit, handleAddRow, handleDeleteRow, handleAddColumn, handleDeleteColumn, handleEditColumnName,
+        handleEditWhere, handleSelectCell, handleEditColumnDefinition, handleAddColumnDefinition, handleDeleteColumnDefinition,
+        handleMoveColumnDefinition, handlePreviewSelect, handleExport, handleToggleHighlight
+    ]);
+
+    // カーソル位置の行とセル。カーソルが動かなければ同じオブジェクトを渡す
+    const selectedCell = useMemo(() => {
+        return selection.rowIndex !== undefined ? { row: selection.rowIndex, col: selection.columnIndex } : undefined;
+    }, [selection]);
+
+    const renderViewModeToggle = () => (
+        <div style={{ marginTop: '6px' }}>
+            <button
+                className={`add-row-btn${viewMode === 'statements' ? ' active' : ''}`}
+                onClick={() => setViewMode('statements')}
+            >
+                文ごと
+            </button>
+            <button
+                className={`add-row-btn${viewMode === 'result' ? ' active' : ''}`}
+                onClick={() => setViewMode('result')}
+                title="INSERT・UPDATE・DELETEを上から順に適用した後の各テーブルの内容"
+            >
+                結果の状態
+            </button>
+        </div>
+    );
+
+    const renderDialect = () => {
+        if (!dialect) {
+            return null;
+        }
+        return (
+            <div title={`方言の指定: ${DIALECT_SOURCE_LABELS[dialect.source]}`}>
+                方言: {dialect.label}
+                <span className="info-text"> ({DIALECT_SOURCE_LABELS[dialect.source]})</span>
+            </div>
+        );
+    };
+
     if (loading) {
         return (
             <div className="loading">
@@ -141,6 +503,7 @@ export const SQLViewer: React.FC<SQLViewerProps> = ({ vscode }) => {
                 <div className="header">
                     <h3>Visual SQL</h3>
                     <div>ファイル: {fileName.split('/').pop()}</div>
+                    {renderDialect()}
                 </div>
                 <div className="content">
                     <div className="error">
@@ -158,34 +521,113 @@ export const SQLViewer: React.FC<SQLViewerProps> = ({ vscode }) => {
             <div className="header">
                 <h3>Visual SQL</h3>
                 <div>ファイル: {fileName.split('/').pop()}</div>
+                {renderDialect()}
+                {renderViewModeToggle()}
             </div>
             <div className="content">
-                {data.statements.length === 0 ? (
+                {viewMode === 'result' && simulation ? (
+                    <ResultStatePanel
+                        statements={data.statements}
+                        result={simulation}
+                        onJumpToStatement={handleJumpToStatement}
+                    />
+                ) : data.statements.length === 0 ? (
                     <div className="info-text">
                         SQLが見つかりませんでした
                     </div>
                 ) : (
-                    data.statements.map((statement, index) => (
-                        <div key={index} className="statement-container">
-                            <h4>
-                                {statement.type.toUpperCase()}
-                                {statement.tableName && ` - ${statement.tableName}`}
-                            </h4>
-                            <SQLTable
-                                statement={statement}
-                                onCellEdit={(rowIndex: number, columnIndex: number, value: any) => 
-                                    handleCellEdit(index, rowIndex, columnIndex, value)
-                                }
-                                onAddRow={() => handleAddRow(index)}
-                                onDeleteRow={(rowIndex: number) => handleDeleteRow(index, rowIndex)}
-                                onAddColumn={() => handleAddColumn(index)}
-                                onDeleteColumn={(columnIndex: number) => handleDeleteColumn(index, columnIndex)}
-                                onEditColumnName={(columnIndex: number, newName: string) => handleEditColumnName(index, columnIndex, newName)}
-                                onEditWhere={(whereClause: string) => handleEditWhere(index, whereClause)}
-                                validationError={validationErrors.get(index)}
-                            />
-                        </div>
-                    ))
+                    data.statements.map((statement, index) => {
+                        const callbacks = statementCallbacks(index);
+                        return (
+                            <div
+                                key={index}
+                                ref={element => {
+                                    if (element) {
+                                        statementRefs.current.set(index, element);
+                                    } else {
+                                        statementRefs.current.delete(index);
+                                    }
+                                }}
+                                className={[
+                                    'statement-container',
+                                    highlightedStatement === index ? 'highlighted-statement' : '',
+                                    selection.statementIndex === index ? 'selected-statement' : ''
+                                ].filter(Boolean).join(' ')}
+                            >
+                                {statement.leadingComments && statement.leadingComments.length > 0 && (
+                                    <pre className="statement-comments">{statement.leadingComments.join('\n')}</pre>
+                                )}
+                                <h4 onClick={() => handleSelectCell(index)} title="クリックしてテキストエディタで文を選択" style={{ cursor: 'pointer' }}>
+                                    <span className="statement-number">#{index + 1}</span>
+                                    {statement.type === 'raw' ? statement.keyword : statement.type.replace('_', ' ').toUpperCase()}
+                                    {statement.tableName && ` - ${statement.tableName}`}
+                                    {statement.type === 'insert' && statement.tableName && (
+                                        <ExportMenu
+                                            tableName={statement.tableName}
+                                            onExport={callbacks.onExport}
+                                        />
+                                    )}
+                                </h4>
+                                {statement.trailingComments && statement.trailingComments.length > 0 && (
+                                    <pre className="statement-comments">{statement.trailingComments.join('\n')}</pre>
+                                )}
+                                {statement.type === 'create_table' ? (
+                                    <SchemaTable
+                                        statement={statement}
+                                        onEditDefinition={callbacks.onEditDefinition}
+                                        onAddDefinition={callbacks.onAddDefinition}
+                                        onDeleteDefinition={callbacks.onDeleteDefinition}
+                                        onMoveDefinition={callbacks.onMoveDefinition}
+                                    />
+                                ) : statement.type === 'select' ? (
+                                    <SelectPanel
+                                        statement={statement}
+                                        preview={previews.get(index)}
+                                        onPreview={callbacks.onPreview}
+                                        onEditWhere={callbacks.onEditWhere}
+                                        validationError={validationErrors.get(index)}
+                                        columnTypes={getColumnTypes(statement)}
+                                        tableColumns={getTableColumns(statement)}
+                                        dialect={dialectName}
+                                    />
+                                ) : (
+                                    <>
+                                        <SQLTable
+                                            statement={statement}
+                                            onCellEdit={callbacks.onCellEdit}
+                                            onAddRow={callbacks.onAddRow}
+                                            onDeleteRow={callbacks.onDeleteRow}
+                                            onAddColumn={callbacks.onAddColumn}
+                                            onDeleteColumn={callbacks.onDeleteColumn}
+                                            onEditColumnName={callbacks.onEditColumnName}
+                                            onEditWhere={callbacks.onEditWhere}
+                                            validationError={validationErrors.get(index)}
+                                            columnTypes={getColumnTypes(statement)}
+                                            highlightedRows={highlightedRowsByInsert.get(index)}
+                                            selectedCell={selection.statementIndex === index ? selectedCell : undefined}
+                                            onSelectCell={callbacks.onSelectCell}
+                                            onBatchCellEdit={callbacks.onBatchCellEdit}
+                                            constraintViolations={violationsByInsert.get(index)}
+                                            foreignKeys={statement.tableName ? foreignKeysByTable[statement.tableName.toLowerCase()] : undefined}
+                                            tableColumns={getTableColumns(statement)}
+                                            dialect={dialectName}
+                                        />
+                                        {(statement.type === 'update' || statement.type === 'delete') && statement.tableName && (
+                                            <WhereMatchPanel
+                                                statement={statement}
+                                                match={simulation?.matches.get(index)}
+                                                issue={simulation?.issues.find(issue => issue.statementIndex === index)?.message}
+                                                workspaceRows={workspaceRows[statement.tableName.toLowerCase()]}
+                                                dialect={dialectName}
+                                                highlighted={highlightedMatch === index}
+                                                onToggleHighlight={callbacks.onToggleHighlight}
+                                            />
+                                        )}
+                                    </>
+                                )}
+                            </div>
+                        );
+                    })
                 )}
             </div>
         </div>
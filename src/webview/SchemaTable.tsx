@@ -0,0 +1,202 @@
+import React, { useState, useCallback } from 'react';
+import { ParsedStatement, ColumnDefinition } from './types';
+
+interface SchemaTableProps {
+    statement: ParsedStatement;
+    onEditDefinition: (columnIndex: number, definition: ColumnDefinition) => void;
+    onAddDefinition: () => void;
+    onDeleteDefinition: (columnIndex: number) => void;
+    onMoveDefinition: (columnIndex: number, offset: number) => void;
+}
+
+// テキストで編集する項目
+type TextField = 'name' | 'dataType' | 'defaultValue' | 'references';
+
+const NULLABLE_OPTIONS: { label: string; value: string }[] = [
+    { label: '(指定なし)', value: '' },
+    { label: 'NULL', value: 'null' },
+    { label: 'NOT NULL', value: 'not null' }
+];
+
+const toNullableOption = (nullable: boolean | null): string => {
+    if (nullable === null) {
+        return '';
+    }
+    return nullable ? 'null' : 'not null';
+};
+
+const fromNullableOption = (value: string): boolean | null => {
+    if (value === '') {
+        return null;
+    }
+    return value === 'null';
+};
+
+// CREATE TABLEのカラム定義をグリッドで表示・編集する
+export const SchemaTable: React.FC<SchemaTableProps> = React.memo(({
+    statement,
+    onEditDefinition,
+    onAddDefinition,
+    onDeleteDefinition,
+    onMoveDefinition
+}) => {
+    const [editingField, setEditingField] = useState<{ index: number; field: TextField } | null>(null);
+    const [editValue, setEditValue] = useState<string>('');
+
+    const definitions = statement.columnDefinitions || [];
+
+    const handleFieldClick = useCallback((index: number, field: TextField, currentValue: string | undefined) => {
+        setEditingField({ index, field });
+        setEditValue(currentValue || '');
+    }, []);
+
+    const handleFieldSave = useCallback(() => {
+        if (!editingField) {
+            return;
+        }
+
+        const definition = definitions[editingField.index];
+        const value = editValue.trim();
+        const current = definition[editingField.field] || '';
+        setEditingField(null);
+        setEditValue('');
+
+        if (value === current) {
+            return;
+        }
+        onEditDefinition(editingField.index, {
+            ...definition,
+            [editingField.field]: value === '' && editingField.field !== 'name' && editingField.field !== 'dataType' ? undefined : value
+        });
+    }, [editingField, editValue, definitions, onEditDefinition]);
+
+    const handleFieldCancel = useCallback(() => {
+        setEditingField(null);
+        setEditValue('');
+    }, []);
+
+    const handleKeyPress = useCallback((e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            handleFieldSave();
+        } else if (e.key === 'Escape') {
+            handleFieldCancel();
+        }
+    }, [handleFieldSave, handleFieldCancel]);
+
+    const renderTextCell = (index: number, field: TextField, placeholder: string) => {
+        const value = definitions[index][field];
+        return (
+            <td className="editable-cell" onClick={() => handleFieldClick(index, field, value)}>
+                {editingField?.index === index && editingField?.field === field ? (
+                    <input
+                        type="text"
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onBlur={handleFieldSave}
+                        onKeyDown={handleKeyPress}
+                        autoFocus
+                        className="cell-input"
+                        placeholder={placeholder}
+                    />
+                ) : (
+                    value || <span className="info-text">{placeholder}</span>
+                )}
+            </td>
+        );
+    };
+
+    return (
+        <>
+            <div className="table-container">
+                <table className="sql-table">
+                    <thead>
+                        <tr>
+                            <th>カラム名</th>
+                            <th>データ型</th>
+                            <th>NULL</th>
+                            <th>デフォルト</th>
+                            <th>PK</th>
+                            <th>UNIQUE</th>
+                            <th>参照</th>
+                            <th>その他</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {definitions.map((definition, index) => (
+                            <tr key={index}>
+                                {renderTextCell(index, 'name', 'カラム名')}
+                                {renderTextCell(index, 'dataType', '例: INT')}
+                                <td>
+                                    <select
+                                        value={toNullableOption(definition.nullable)}
+                                        onChange={(e) => onEditDefinition(index, { ...definition, nullable: fromNullableOption(e.target.value) })}
+                                    >
+                                        {NULLABLE_OPTIONS.map(option => (
+                                            <option key={option.value} value={option.value}>{option.label}</option>
+                                        ))}
+                                    </select>
+                                </td>
+                                {renderTextCell(index, 'defaultValue', '(なし)')}
+                                <td style={{ textAlign: 'center' }}>
+                                    <input
+                                        type="checkbox"
+                                        checked={definition.primaryKey}
+                                        onChange={(e) => onEditDefinition(index, { ...definition, primaryKey: e.target.checked })}
+                                    />
+                                </td>
+                                <td style={{ textAlign: 'center' }}>
+                                    <input
+                                        type="checkbox"
+                                        checked={definition.unique}
+                                        onChange={(e) => onEditDefinition(index, { ...definition, unique: e.target.checked })}
+                                    />
+                                </td>
+                                {renderTextCell(index, 'references', '例: users(id)')}
+                                <td className="info-text">{definition.extra}</td>
+                                <td style={{ textAlign: 'center' }}>
+                                    <div style={{ display: 'flex', gap: '2px', justifyContent: 'center' }}>
+                                        <button
+                                            onClick={() => onMoveDefinition(index, -1)}
+                                            className="column-delete-btn"
+                                            title="上へ移動"
+                                            disabled={index === 0}
+                                        >
+                                            ↑
+                                        </button>
+                                        <button
+                                            onClick={() => onMoveDefinition(index, 1)}
+                                            className="column-delete-btn"
+                                            title="下へ移動"
+                                            disabled={index === definitions.length - 1}
+                                        >
+                                            ↓
+                                        </button>
+                                        <button
+                                            onClick={() => onDeleteDefinition(index)}
+                                            className="column-delete-btn"
+                                            title="カラムを削除"
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <button onClick={onAddDefinition} className="add-row-btn">
+                    + カラムを追加
+                </button>
+            </div>
+            {statement.tableConstraints && statement.tableConstraints.length > 0 && (
+                <div style={{ marginTop: '10px' }}>
+                    <div className="info-text">テーブル制約(読み取り専用):</div>
+                    <pre className="sql-block">{statement.tableConstraints.map(constraint => constraint.text).join(',\n')}</pre>
+                </div>
+            )}
+        </>
+    );
+});
+
+SchemaTable.displayName = 'SchemaTable';
@@ -0,0 +1,181 @@
+import React from 'react';
+import { SQLTable } from './SQLTable';
+import { WhereClauseEditor } from './WhereClauseEditor';
+import { ParsedStatement, QueryPreviewResult } from './types';
+import { ColumnType } from '../columnTypes';
+import { SQLDialect, DEFAULT_DIALECT } from '../sqlDialect';
+
+// 結果のプレビューの状態(実行中、または実行結果)
+export interface SelectPreview {
+    loading: boolean;
+    result?: QueryPreviewResult;
+}
+
+interface SelectPanelProps {
+    statement: ParsedStatement;
+    preview?: SelectPreview;
+    onPreview: () => void;
+    onEditWhere: (whereClause: string) => void;
+    validationError?: string;
+    columnTypes?: Record<string, ColumnType>;
+    // WHERE句の条件ビルダーで選べるカラム(FROMの最初のテーブルのカラム)
+    tableColumns?: string[];
+    dialect?: SQLDialect;
+}
+
+// 読み取り専用のSQLTableに渡す、何もしない編集ハンドラー
+const noop = () => undefined;
+
+// SELECT文を句ごとに表示する(WHERE句だけ編集できる)
+export const SelectPanel: React.FC<SelectPanelProps> = React.memo(({
+    statement,
+    preview,
+    onPreview,
+    onEditWhere,
+    validationError,
+    columnTypes,
+    tableColumns,
+    dialect
+}) => {
+    const select = statement.select;
+
+    const renderPreview = () => {
+        const result = preview?.result;
+        return (
+            <div style={{ marginTop: '10px' }}>
+                <button onClick={onPreview} className="add-row-btn" disabled={preview?.loading}>
+                    {preview?.loading ? '実行中...' : '▶ 結果をプレビュー'}
+                </button>
+                {!preview && (
+                    <span className="info-text"> この文より前のCREATE TABLEとINSERTを読み込んだSQLiteで実行します</span>
+                )}
+                {result?.error && (
+                    <div className="error">
+                        <strong>実行エラー:</strong> {result.error}
+                    </div>
+                )}
+                {result && result.warnings.length > 0 && (
+                    <details className="info-text">
+                        <summary>読み込めなかった文があります({result.warnings.length} 件)</summary>
+                        <pre className="sql-block">{result.warnings.join('\n')}</pre>
+                    </details>
+                )}
+                {result && !result.error && (
+                    <>
+                        <div className="info-text">
+                            {result.rows.length} 行{result.truncated && '(以降の行は省略しました)'}
+                        </div>
+                        {result.columns.length > 0 && (
+                            <SQLTable
+                                statement={{ type: 'insert', columns: result.columns, values: result.rows }}
+                                onCellEdit={noop}
+                                onAddRow={noop}
+                                onDeleteRow={noop}
+                                onAddColumn={noop}
+                                onDeleteColumn={noop}
+                                onEditColumnName={noop}
+                                onEditWhere={noop}
+                                readOnly
+                            />
+                        )}
+                    </>
+                )}
+            </div>
+        );
+    };
+
+    // WITHやUNIONを含む文は句に分けられないため、元のSQLをそのまま表示する
+    if (!select) {
+        return (
+            <>
+                <pre className="sql-block">{statement.sql}</pre>
+                <div className="info-text">
+                    WITHやUNIONを含むSELECTは句ごとの表示に対応していないため、そのまま表示します
+                </div>
+                {renderPreview()}
+            </>
+        );
+    }
+
+    // 句の名前と内容(存在する句だけ)
+    const clauses: [string, string | undefined][] = [
+        ['FROM', select.from.length > 0 ? select.from.join(', ') : undefined],
+        ['GROUP BY', select.groupBy.length > 0 ? select.groupBy.join(', ') : undefined],
+        ['HAVING', select.having],
+        ['ORDER BY', select.orderBy.length > 0 ? select.orderBy.join(', ') : undefined],
+        ['LIMIT', select.limit],
+        ...select.extraClauses.map(clause => [clause.keyword, clause.text] as [string, string])
+    ];
+
+    return (
+        <>
+            <div className="table-container">
+                <table className="sql-table">
+                    <thead>
+                        <tr>
+                            <th>式{select.modifiers && <span className="type-badge">{select.modifiers}</span>}</th>
+                            <th>別名</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {select.columns.map((column, index) => (
+                            <tr key={index}>
+                                <td className="sql-expression">{column.expression}</td>
+                                <td>{column.alias}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {select.joins.length > 0 && (
+                <div className="table-container">
+                    <table className="sql-table">
+                        <thead>
+                            <tr>
+                                <th>結合</th>
+                                <th>テーブル</th>
+                                <th>条件</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {select.joins.map((join, index) => (
+                                <tr key={index}>
+                                    <td>{join.kind}</td>
+                                    <td className="sql-expression">{join.table}</td>
+                                    <td className="sql-expression">{join.condition}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <div className="table-container">
+                <table className="sql-table">
+                    <tbody>
+                        {clauses.filter(([, text]) => text !== undefined).map(([keyword, text]) => (
+                            <tr key={keyword}>
+                                <th style={{ width: '1%', whiteSpace: 'nowrap' }}>{keyword}</th>
+                                <td className="sql-expression">{text}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <WhereClauseEditor
+                where={select.where}
+                condition={statement.condition}
+                columns={tableColumns ?? []}
+                columnTypes={columnTypes}
+                dialect={dialect ?? DEFAULT_DIALECT}
+                validationError={validationError}
+                onEditWhere={onEditWhere}
+            />
+            <div className="info-text">
+                SELECTはWHERE句だけを編集できます
+            </div>
+            {renderPreview()}
+        </>
+    );
+});
+
+SelectPanel.displayName = 'SelectPanel';
@@ -0,0 +1,448 @@
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { SQLExpression } from '../sqlExpression';
+import { SQLValue, expressionValue, parseInputValue, sqlValueToText } from '../sqlValue';
+import { SQLDialect } from '../sqlDialect';
+import { ColumnType } from '../columnTypes';
+import {
+    WhereNode,
+    WhereGroup,
+    WherePredicate,
+    PredicateOperator,
+    PREDICATE_OPERATORS,
+    conditionToTree,
+    treeToSQL,
+    isTreeComplete,
+    isListOperator,
+    operatorArity,
+    replaceNode
+} from './whereTree';
+
+interface WhereClauseEditorProps {
+    // WHERE句のテキスト
+    where?: string;
+    // WHERE句の式の木(解析できなかったときはない)
+    condition?: SQLExpression;
+    // カラムの選択肢(文のテーブルのカラム)
+    columns: string[];
+    columnTypes?: Record<string, ColumnType>;
+    dialect: SQLDialect;
+    validationError?: string;
+    onEditWhere: (whereClause: string) => void;
+}
+
+interface CommitInputProps {
+    value: string;
+    placeholder?: string;
+    className?: string;
+    onCommit: (text: string) => void;
+}
+
+// 入力中はSQLに書き込まず、フォーカスが外れたときかEnterで確定する入力欄(Escapeで元に戻す)
+const CommitInput: React.FC<CommitInputProps> = React.memo(({ value, placeholder, className, onCommit }) => {
+    const [text, setText] = useState(value);
+
+    useEffect(() => {
+        setText(value);
+    }, [value]);
+
+    const commit = () => {
+        if (text !== value) {
+            onCommit(text);
+        }
+    };
+
+    return (
+        <input
+            type="text"
+            value={text}
+            placeholder={placeholder}
+            className={className ?? 'cell-input where-value'}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                    commit();
+                } else if (e.key === 'Escape') {
+                    setText(value);
+                }
+            }}
+        />
+    );
+});
+
+CommitInput.displayName = 'CommitInput';
+
+const newPredicate = (column: string): WherePredicate => ({ kind: 'predicate', column, operator: '=', values: [undefined] });
+
+// 演算子を変えたら値の数を合わせる(入力済みの値はできるだけ残す)
+const withOperator = (predicate: WherePredicate, operator: PredicateOperator): WherePredicate => {
+    const count = isListOperator(operator) ? Math.max(predicate.values.length, 1) : operatorArity(operator);
+    const values = Array.from({ length: count }, (_, index) => predicate.values[index]);
+    return { ...predicate, operator, values };
+};
+
+// UPDATE・DELETE・SELECTのWHERE句を、条件ビルダーかテキストで編集する
+export const WhereClauseEditor: React.FC<WhereClauseEditorProps> = React.memo(({
+    where,
+    condition,
+    columns,
+    columnTypes,
+    dialect,
+    validationError,
+    onEditWhere
+}) => {
+    const [editingWhere, setEditingWhere] = useState(false);
+    const [whereValue, setWhereValue] = useState('');
+    const [whereError, setWhereError] = useState('');
+    const [showWhereError, setShowWhereError] = useState(false);
+
+    // WHERE句を解析できなければテキストでだけ編集する
+    const canUseBuilder = !where || condition !== undefined;
+    const [mode, setMode] = useState<'builder' | 'text'>('builder');
+    const activeMode = canUseBuilder ? mode : 'text';
+
+    // 条件ビルダーの編集中の木。SQLが書き換わったら(テキストでの編集を含む)作り直す
+    const initialTree = useMemo(() => conditionToTree(condition, dialect, where), [condition, dialect, where]);
+    const [draft, setDraft] = useState<WhereGroup>(initialTree);
+
+    useEffect(() => {
+        setDraft(initialTree);
+    }, [initialTree]);
+
+    // 外部からのバリデーションエラーを反映
+    useEffect(() => {
+        if (validationError) {
+            setWhereError(validationError);
+            setShowWhereError(true);
+        } else {
+            setShowWhereError(false);
+        }
+    }, [validationError]);
+
+    const handleWhereClick = useCallback(() => {
+        setEditingWhere(true);
+        setWhereValue(where ? String(where) : '');
+        setWhereError('');
+        setShowWhereError(false);
+    }, [where]);
+
+    const handleWhereSave = useCallback(() => {
+        // 空の場合はそのまま保存
+        if (!whereValue.trim()) {
+            onEditWhere(whereValue.trim());
+            setEditingWhere(false);
+            setWhereError('');
+            setShowWhereError(false);
+            return;
+        }
+
+        // バリデーション要求をVSCodeに送信
+        // 一時的に保存してバリデーション結果を待つ
+        onEditWhere(whereValue);
+        setEditingWhere(false);
+    }, [whereValue, onEditWhere]);
+
+    const handleWhereCancel = useCallback(() => {
+        setEditingWhere(false);
+        setWhereValue('');
+        setWhereError('');
+        setShowWhereError(false);
+    }, []);
+
+    const handleWhereKeyPress = useCallback((e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            handleWhereSave();
+        } else if (e.key === 'Escape') {
+            handleWhereCancel();
+        }
+    }, [handleWhereSave, handleWhereCancel]);
+
+    // ビルダーでの変更はまとめて「反映」で書き込む(書き換えていない条件は元のテキストのまま)
+    const draftSQL = useMemo(() => isTreeComplete(draft) ? treeToSQL(draft, dialect, false, where) : undefined, [draft, dialect, where]);
+    const canApply = draftSQL !== undefined && draftSQL !== treeToSQL(initialTree, dialect, false, where);
+
+    const handleApply = useCallback(() => {
+        if (draftSQL !== undefined) {
+            onEditWhere(draftSQL);
+        }
+    }, [draftSQL, onEditWhere]);
+
+    const updateNode = useCallback((path: number[], node: WhereNode | undefined) => {
+        setDraft(current => replaceNode(current, path, node));
+    }, []);
+
+    const parseValue = (text: string, previous: SQLValue | undefined, column: string): SQLValue | undefined => {
+        if (!text.trim()) {
+            return undefined;
+        }
+        // 関数や別のカラムとの比較はSQL式のまま編集する
+        if (previous?.kind === 'expression') {
+            return expressionValue(text.trim());
+        }
+        return parseInputValue(text, previous, columnTypes?.[column.toLowerCase()]);
+    };
+
+    const renderPredicate = (predicate: WherePredicate, path: number[]) => {
+        // テーブルにないカラム(別名付きのカラムなど)も選択肢に残す
+        const selectedColumn = columns.find(column => column.toLowerCase() === predicate.column.toLowerCase()) ?? predicate.column;
+        const columnOptions = columns.includes(selectedColumn) || !selectedColumn ? columns : [selectedColumn, ...columns];
+        const setValue = (index: number, value: SQLValue | undefined) => {
+            const values = [...predicate.values];
+            values[index] = value;
+            updateNode(path, { ...predicate, values });
+        };
+        const removeValue = (index: number) => {
+            updateNode(path, { ...predicate, values: predicate.values.filter((_, i) => i !== index) });
+        };
+
+        return (
+            <div className="where-row">
+                {columnOptions.length > 0 ? (
+                    <select
+                        value={selectedColumn}
+                        onChange={(e) => updateNode(path, { ...predicate, column: e.target.value, quoted: undefined })}
+                        title={predicate.table ? `${predicate.table}.${predicate.column}` : undefined}
+                    >
+                        {!predicate.column && <option value="">(カラム)</option>}
+                        {columnOptions.map(column => <option key={column} value={column}>{column}</option>)}
+                    </select>
+                ) : (
+                    <CommitInput
+                        value={predicate.column}
+                        placeholder="カラム"
+                        onCommit={(text) => updateNode(path, { ...predicate, column: text.trim(), quoted: undefined })}
+                    />
+                )}
+                <select
+                    value={predicate.operator}
+                    onChange={(e) => updateNode(path, withOperator(predicate, e.target.value as PredicateOperator))}
+                >
+                    {PREDICATE_OPERATORS.map(operator => <option key={operator} value={operator}>{operator}</option>)}
+                </select>
+                {predicate.values.map((value, index) => (
+                    <React.Fragment key={index}>
+                        {index > 0 && !isListOperator(predicate.operator) && <span className="where-keyword">AND</span>}
+                        <CommitInput
+                            value={value ? sqlValueToText(value) : ''}
+                            placeholder="値"
+                            onCommit={(text) => setValue(index, parseValue(text, value, predicate.column))}
+                        />
+                        {isListOperator(predicate.operator) && predicate.values.length > 1 && (
+                            <button className="where-remove" onClick={() => removeValue(index)} title="この値を削除">×</button>
+                        )}
+                    </React.Fragment>
+                ))}
+                {isListOperator(predicate.operator) && (
+                    <button className="where-add" onClick={() => updateNode(path, { ...predicate, values: [...predicate.values, undefined] })}>+ 値</button>
+                )}
+                <button className="where-remove" onClick={() => updateNode(path, undefined)} title="この条件を削除">×</button>
+            </div>
+        );
+    };
+
+    const renderNode = (node: WhereNode, path: number[]): React.ReactNode => {
+        switch (node.kind) {
+            case 'predicate':
+                return renderPredicate(node, path);
+            case 'raw':
+                return (
+                    <div className="where-row">
+                        <CommitInput
+                            value={node.sql}
+                            placeholder="SQLの条件"
+                            className="cell-input where-raw"
+                            onCommit={(text) => updateNode(path, { kind: 'raw', sql: text })}
+                        />
+                        <button className="where-remove" onClick={() => updateNode(path, undefined)} title="この条件を削除">×</button>
+                    </div>
+                );
+            case 'group':
+                return (
+                    <div className={path.length === 0 ? 'where-group where-root' : 'where-group'}>
+                        <div className="where-row">
+                            <select
+                                value={node.operator}
+                                onChange={(e) => updateNode(path, { ...node, operator: e.target.value as 'AND' | 'OR' })}
+                                title="グループ内の条件のつなぎ方"
+                            >
+                                <option value="AND">AND(すべて満たす)</option>
+                                <option value="OR">OR(いずれかを満たす)</option>
+                            </select>
+                            <button className="where-add" onClick={() => updateNode(path, { ...node, children: [...node.children, newPredicate(columns[0] ?? '')] })}>+ 条件</button>
+                            <button className="where-add" onClick={() => updateNode(path, { ...node, children: [...node.children, { kind: 'group', operator: node.operator === 'AND' ? 'OR' : 'AND', children: [newPredicate(columns[0] ?? '')] }] })}>+ グループ</button>
+                            {path.length > 0 && (
+                                <button className="where-remove" onClick={() => updateNode(path, undefined)} title="このグループを削除">×</button>
+                            )}
+                        </div>
+                        {node.children.length === 0 && path.length === 0 && (
+                            <div className="info-text" style={{ fontSize: '12px' }}>条件はありません(すべての行が対象になります)</div>
+                        )}
+                        {node.children.map((child, index) => (
+                            <React.Fragment key={index}>
+                                {renderNode(child, [...path, index])}
+                            </React.Fragment>
+                        ))}
+                    </div>
+                );
+        }
+    };
+
+    const renderBuilder = (hasError: string | false) => {
+        return (
+            <>
+                {renderNode(draft, [])}
+                <div className="info-text where-preview" style={{ marginTop: '8px', fontSize: '12px' }}>
+                    {draftSQL !== undefined
+                        ? `WHERE ${draftSQL || '(なし)'}`
+                        : '未入力のカラムや値があります。すべて入力するとSQLに反映できます'}
+                </div>
+                <div className="where-actions">
+                    <button className="where-apply" onClick={handleApply} disabled={!canApply}>反映</button>
+                    <button onClick={() => setDraft(initialTree)} disabled={draft === initialTree}>元に戻す</button>
+                </div>
+                {hasError && (
+                    <div style={{
+                        color: 'var(--vscode-errorForeground)',
+                        backgroundColor: 'var(--vscode-inputValidation-errorBackground)',
+                        padding: '4px 8px',
+                        marginTop: '4px',
+                        borderRadius: '2px',
+                        fontSize: '12px'
+                    }}>
+                        {whereError}
+                    </div>
+                )}
+            </>
+        );
+    };
+
+    const renderText = (hasError: string | false) => (
+        <>
+            {editingWhere ? (
+                <>
+                    <input
+                        type="text"
+                        value={whereValue}
+                        onChange={(e) => setWhereValue(e.target.value)}
+                        onBlur={handleWhereSave}
+                        onKeyDown={handleWhereKeyPress}
+                        autoFocus
+                        className="cell-input"
+                        placeholder="例: id = 1 または age > 25"
+                        style={{
+                            width: '100%',
+                            padding: '4px',
+                            borderColor: whereError ? 'var(--vscode-inputValidation-errorBorder)' : undefined
+                        }}
+                    />
+                    {whereError && (
+                        <div style={{
+                            color: 'var(--vscode-errorForeground)',
+                            backgroundColor: 'var(--vscode-inputValidation-errorBackground)',
+                            padding: '4px 8px',
+                            marginTop: '4px',
+                            borderRadius: '2px',
+                            fontSize: '12px'
+                        }}>
+                            {whereError}
+                        </div>
+                    )}
+                </>
+            ) : (
+                <>
+                    <div
+                        onClick={handleWhereClick}
+                        style={{
+                            cursor: 'pointer',
+                            padding: '4px',
+                            minHeight: '24px',
+                            backgroundColor: 'var(--vscode-input-background)',
+                            border: hasError ? '2px solid var(--vscode-inputValidation-errorBorder)' : '1px solid var(--vscode-input-border)',
+                            borderRadius: '2px'
+                        }}
+                        title="クリックしてWHERE句を編集"
+                    >
+                        {where || '(クリックして条件を追加)'}
+                    </div>
+                    {hasError && (
+                        <div style={{
+                            color: 'var(--vscode-errorForeground)',
+                            backgroundColor: 'var(--vscode-inputValidation-errorBackground)',
+                            padding: '8px',
+                            marginTop: '8px',
+                            borderRadius: '4px',
+                            fontSize: '12px',
+                            fontWeight: 'bold',
+                            display: 'flex',
+                            alignItems: 'flex-start',
+                            gap: '8px'
+                        }}>
+                            <div>
+                                <div style={{ fontWeight: 'normal' }}>{whereError}</div>
+                                <div style={{ marginTop: '8px', fontSize: '11px', fontStyle: 'italic', opacity: 0.8 }}>
+                                    クリックして修正してください。このWHERE句は実行できません。
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+            {!hasError && (
+                <div className="info-text" style={{ marginTop: '8px', fontSize: '12px' }}>
+                    例: id = 1, name = 'John', age &gt; 25, status = 'active' AND age &lt; 30
+                </div>
+            )}
+        </>
+    );
+
+    const hasError = showWhereError && whereError;
+
+    return (
+        <div style={{
+            marginTop: '15px',
+            padding: '10px',
+            border: hasError ? '2px solid var(--vscode-inputValidation-errorBorder)' : '1px solid var(--vscode-panel-border)',
+            borderRadius: '4px',
+            backgroundColor: hasError ? 'var(--vscode-inputValidation-errorBackground)' : 'transparent'
+        }}>
+            <div style={{
+                marginBottom: '8px',
+                fontWeight: 'bold',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px'
+            }}>
+                WHERE句:
+                {hasError && (
+                    <span style={{
+                        color: 'var(--vscode-errorForeground)',
+                        fontSize: '12px',
+                        fontWeight: 'normal'
+                    }}>
+                        ⚠️ 構文エラー
+                    </span>
+                )}
+                <span className="where-modes">
+                    <button
+                        className={activeMode === 'builder' ? 'active' : undefined}
+                        onClick={() => setMode('builder')}
+                        disabled={!canUseBuilder}
+                        title={canUseBuilder ? '条件ビルダーで編集' : 'このWHERE句は条件ビルダーで表せません'}
+                    >
+                        ビルダー
+                    </button>
+                    <button
+                        className={activeMode === 'text' ? 'active' : undefined}
+                        onClick={() => setMode('text')}
+                        title="SQLのテキストで編集"
+                    >
+                        テキスト
+                    </button>
+                </span>
+            </div>
+            {activeMode === 'builder' ? renderBuilder(hasError) : renderText(hasError)}
+        </div>
+    );
+});
+
+WhereClauseEditor.displayName = 'WhereClauseEditor';
@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import { SQLTable } from './SQLTable';
+import { ParsedStatement, InsertedRows } from './types';
+import { StatementMatch, matchWorkspaceRows } from './stateSimulator';
+import { SQLValue, stringValue } from '../sqlValue';
+import { SQLDialect } from '../sqlDialect';
+
+interface WhereMatchPanelProps {
+    statement: ParsedStatement;
+    // このファイルでこの文より前にINSERTされた行のうち、WHERE句に一致したもの
+    match?: StatementMatch;
+    // WHERE句を評価できなかった理由
+    issue?: string;
+    // 他のファイルでINSERTされた行
+    workspaceRows?: InsertedRows[];
+    dialect?: SQLDialect;
+    highlighted: boolean;
+    onToggleHighlight: () => void;
+}
+
+// 読み取り専用のSQLTableに渡す、何もしない編集ハンドラー
+const noop = () => undefined;
+
+const fileNameOf = (uri: string): string => decodeURIComponent(uri.split('/').pop() || uri);
+
+// UPDATE・DELETEのWHERE句に一致する行の数と内容を表示する
+export const WhereMatchPanel: React.FC<WhereMatchPanelProps> = React.memo(({
+    statement,
+    match,
+    issue,
+    workspaceRows,
+    dialect,
+    highlighted,
+    onToggleHighlight
+}) => {
+    // 他のファイルの行はINSERT文ごとに評価する(カラムの並びが文ごとに違うため)
+    const workspaceMatches = useMemo(() => {
+        const matches: { uri: string; columns: string[]; rows: SQLValue[][] }[] = [];
+        let error: string | undefined;
+        (workspaceRows || []).forEach(insert => {
+            try {
+                const rows = matchWorkspaceRows(statement, insert.columns, insert.rows, dialect);
+                if (rows.length > 0) {
+                    matches.push({ uri: insert.uri, columns: insert.columns, rows });
+                }
+            } catch (e) {
+                error = e instanceof Error ? e.message : String(e);
+            }
+        });
+        return { matches, error };
+    }, [statement, workspaceRows, dialect]);
+
+    const renderRows = (key: string, columns: string[], rows: SQLValue[][]) => (
+        <SQLTable
+            key={key}
+            statement={{ type: 'insert', columns, values: rows }}
+            onCellEdit={noop}
+            onAddRow={noop}
+            onDeleteRow={noop}
+            onAddColumn={noop}
+            onDeleteColumn={noop}
+            onEditColumnName={noop}
+            onEditWhere={noop}
+            readOnly
+        />
+    );
+
+    const error = issue || workspaceMatches.error;
+    if (error && !match) {
+        return (
+            <div className="where-warning">
+                ⚠ WHERE句を評価できないため、一致する行を数えられません: {error}
+            </div>
+        );
+    }
+
+    const fileCount = match?.rows.length ?? 0;
+    const workspaceCount = workspaceMatches.matches.reduce((count, matched) => count + matched.rows.length, 0);
+    const hasCondition = Boolean(statement.condition);
+
+    return (
+        <div style={{ marginTop: '10px' }}>
+            {hasCondition && fileCount + workspaceCount === 0 ? (
+                <div className="where-warning">
+                    ⚠ WHERE句に一致する行がありません。値やカラム名に誤りがないか確認してください
+                </div>
+            ) : (
+                <div className="info-text">
+                    {hasCondition ? 'WHERE句に一致する行' : 'WHERE句がないため、すべての行が対象'}:
+                    このファイル {fileCount} 行
+                    {workspaceRows && workspaceRows.length > 0 && `、他のファイル ${workspaceCount} 行`}
+                    {fileCount > 0 && (
+                        <button
+                            className={`add-row-btn${highlighted ? ' active' : ''}`}
+                            style={{ marginLeft: '8px' }}
+                            onClick={onToggleHighlight}
+                            title="INSERTの表で一致する行を強調する"
+                        >
+                            {highlighted ? '強調を解除' : '一致する行を強調'}
+                        </button>
+                    )}
+                </div>
+            )}
+            {error && (
+                <div className="where-warning">⚠ {error}</div>
+            )}
+            {fileCount + workspaceCount > 0 && (
+                <details>
+                    <summary className="info-text">一致する行を表示</summary>
+                    {match && fileCount > 0 && renderRows(
+                        'file',
+                        [...match.columns, '由来'],
+                        match.rows.map(row => [...row.values, stringValue(`#${row.insertedBy + 1} の ${row.insertedRow + 1} 行目`)])
+                    )}
+                    {workspaceMatches.matches.map((matched, index) => renderRows(
+                        `workspace-${index}`,
+                        [...matched.columns, '由来'],
+                        matched.rows.map(row => [...row, stringValue(fileNameOf(matched.uri))])
+                    ))}
+                </details>
+            )}
+        </div>
+    );
+});
+
+WhereMatchPanel.displayName = 'WhereMatchPanel';
@@ -0,0 +1,149 @@
+// 表の範囲選択と、範囲への一括入力(下へコピー・連番)
+import { SQLValue, numberValue, stringValue } from '../sqlValue';
+
+export interface CellPosition {
+    row: number;
+    col: number;
+}
+
+// 2つのセルを角とする矩形の範囲
+export interface CellRange {
+    top: number;
+    bottom: number;
+    left: number;
+    right: number;
+}
+
+// 一括編集の1セル分
+export interface CellEdit {
+    rowIndex: number;
+    columnIndex: number;
+    value: SQLValue;
+}
+
+export function toCellRange(anchor: CellPosition, end: CellPosition): CellRange {
+    return {
+        top: Math.min(anchor.row, end.row),
+        bottom: Math.max(anchor.row, end.row),
+        left: Math.min(anchor.col, end.col),
+        right: Math.max(anchor.col, end.col)
+    };
+}
+
+export function isInRange(range: CellRange | null, row: number, col: number): boolean {
+    return range !== null && row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+}
+
+export function rangeSize(range: CellRange): number {
+    return (range.bottom - range.top + 1) * (range.right - range.left + 1);
+}
+
+// 範囲内のすべてのセルを、元の値から求めた値にする
+export function mapRange(values: SQLValue[][], range: CellRange, map: (value: SQLValue, row: number, col: number) => SQLValue): CellEdit[] {
+    const edits: CellEdit[] = [];
+    for (let row = range.top; row <= range.bottom; row++) {
+        for (let col = range.left; col <= range.right; col++) {
+            const value = values[row]?.[col];
+            if (value !== undefined) {
+                edits.push({ rowIndex: row, columnIndex: col, value: map(value, row, col) });
+            }
+        }
+    }
+    return edits;
+}
+
+// 各カラムの先頭の行の値を、範囲内の下の行にコピーする(先頭の行に値のないカラムはそのまま)
+export function fillDown(values: SQLValue[][], range: CellRange): CellEdit[] {
+    return mapRange(values, { ...range, top: range.top + 1 }, (value, _row, col) => values[range.top]?.[col] ?? value)
+        .filter(edit => values[range.top]?.[edit.columnIndex] !== undefined);
+}
+
+// 各カラムの先頭の値から連番で埋める。2行目も値があればその差を増分にする
+// 数値、日付(YYYY-MM-DD、時刻付きも可)、末尾が数字の文字列(user01 など)に対応し、それ以外は下へコピーする
+export function fillSeries(values: SQLValue[][], range: CellRange): CellEdit[] {
+    const edits: CellEdit[] = [];
+    for (let col = range.left; col <= range.right; col++) {
+        const first = values[range.top]?.[col];
+        if (!first) {
+            continue;
+        }
+        const series = createSeries(first, range.bottom > range.top ? values[range.top + 1]?.[col] : undefined);
+        for (let row = range.top + 1; row <= range.bottom; row++) {
+            if (values[row]?.[col] !== undefined) {
+                edits.push({ rowIndex: row, columnIndex: col, value: series(row - range.top) });
+            }
+        }
+    }
+    return edits;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})([ T].*)?$/;
+const TRAILING_NUMBER_PATTERN = /^(.*?)(\d+)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 先頭からn番目の値を返す関数を作る
+function createSeries(first: SQLValue, second?: SQLValue): (n: number) => SQLValue {
+    if (first.kind === 'number') {
+        const start = Number(first.value);
+        const step = second?.kind === 'number' && second.value !== first.value ? Number(second.value) - start : 1;
+        const decimals = Math.max(decimalPlaces(first.value), second?.kind === 'number' ? decimalPlaces(second.value) : 0);
+        return n => numberValue((start + step * n).toFixed(decimals));
+    }
+
+    if (first.kind === 'string') {
+        const date = first.value.match(DATE_PATTERN);
+        if (date) {
+            const start = Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3]));
+            const secondDate = second?.kind === 'string' ? second.value.match(DATE_PATTERN) : null;
+            const stepDays = secondDate
+                ? Math.round((Date.UTC(Number(secondDate[1]), Number(secondDate[2]) - 1, Number(secondDate[3])) - start) / DAY_MS) || 1
+                : 1;
+            // 時刻の部分はそのまま残す
+            return n => stringValue(new Date(start + stepDays * n * DAY_MS).toISOString().slice(0, 10) + (date[4] || ''));
+        }
+
+        const numbered = first.value.match(TRAILING_NUMBER_PATTERN);
+        if (numbered) {
+            const [, prefix, digits] = numbered;
+            const secondNumbered = second?.kind === 'string' ? second.value.match(TRAILING_NUMBER_PATTERN) : null;
+            const step = secondNumbered && secondNumbered[1] === prefix && secondNumbered[2] !== digits
+                ? Number(secondNumbered[2]) - Number(digits)
+                : 1;
+            // 0埋めの桁数を保つ(user01, user02, ...)
+            return n => stringValue(prefix + String(Number(digits) + step * n).padStart(digits.length, '0'));
+        }
+    }
+
+    return () => first;
+}
+
+function decimalPlaces(text: string): number {
+    const match = text.match(/\.(\d+)$/);
+    return match ? match[1].length : 0;
+}
+
+// 貼り付けたテキストの各行を、startの行から順にセルへの変更にする(表の行数を超えた分は新しい行になる)
+// columnMap: 貼り付けた各列を入れるカラムの番号(-1は入れない)。省略した場合はstartの列から順に入れる
+export function pasteToEdits(
+    rows: string[][],
+    start: CellPosition,
+    columnCount: number,
+    toValue: (text: string, row: number, col: number) => SQLValue,
+    columnMap?: number[]
+): { edits: CellEdit[]; droppedValues: number } {
+    const edits: CellEdit[] = [];
+    // 入れるカラムがなかった値の数
+    let droppedValues = 0;
+    rows.forEach((fields, offset) => {
+        const row = start.row + offset;
+        fields.forEach((text, index) => {
+            const col = columnMap ? columnMap[index] ?? -1 : start.col + index;
+            if (col < 0 || col >= columnCount) {
+                droppedValues++;
+                return;
+            }
+            edits.push({ rowIndex: row, columnIndex: col, value: toValue(text, row, col) });
+        });
+    });
+    return { edits, droppedValues };
+}
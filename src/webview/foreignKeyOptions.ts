@@ -0,0 +1,119 @@
+// 外部キーのカラムのセルで選べる値(参照先のテーブルにINSERTされた行のキー)を集める
+import { ParsedStatement, TableSchema, InsertedRows } from './types';
+import { SQLValue, sqlValueToText, stringValue, numberValue, booleanValue } from '../sqlValue';
+import { foreignKeysOf } from '../foreignKeys';
+import { valueKey } from '../seedConstraints';
+
+export interface ForeignKeyOption {
+    value: SQLValue;
+    // 表示用のカラム(nameなど)の値
+    label?: string;
+}
+
+export interface ForeignKeyOptions {
+    referencedTable: string;
+    referencedColumn: string;
+    // 選択肢の横に表示するカラム
+    displayColumn?: string;
+    options: ForeignKeyOption[];
+    // キーの値(valueKeyの文字列)から親の行の選択肢を引く
+    optionsByKey: Map<string, ForeignKeyOption>;
+}
+
+// 表示用のカラムとして選ぶ名前(前にあるものを優先する)。どれもなければ名前が name で終わるカラム
+const DISPLAY_COLUMN_NAMES = ['name', 'display_name', 'full_name', 'title', 'label', 'username', 'user_name', 'email', 'code'];
+
+// テーブルの外部キーのカラムごとの選択肢(キーは小文字のカラム名)。
+// 参照先の行は、このファイルのINSERTとワークスペースの他のファイルのINSERTから集める
+export function collectForeignKeyOptions(
+    tableName: string,
+    statements: ParsedStatement[],
+    schema: Record<string, TableSchema>,
+    workspaceRows: Record<string, InsertedRows[]>
+): Record<string, ForeignKeyOptions> {
+    const table = schema[tableName.toLowerCase()];
+    const result: Record<string, ForeignKeyOptions> = {};
+    if (!table) {
+        return result;
+    }
+
+    foreignKeysOf(table).forEach(foreignKey => {
+        const parentKey = foreignKey.referencedTable.toLowerCase();
+        const parent = schema[parentKey];
+        const referencedColumn = foreignKey.referencedColumn
+            ?? parent?.columns.find(column => column.primaryKey)?.name
+            ?? parent?.constraints.find(constraint => constraint.kind === 'primary_key')?.columns[0];
+        if (!referencedColumn) {
+            return;
+        }
+
+        const sources: { columns: string[]; rows: SQLValue[][] }[] = [
+            ...statements
+                .filter(statement => statement.type === 'insert' && statement.tableName?.toLowerCase() === parentKey && statement.values)
+                .map(statement => ({
+                    columns: statement.columns && statement.columns.length > 0 ? statement.columns : parent?.columns.map(column => column.name) || [],
+                    rows: statement.values!
+                })),
+            ...(workspaceRows[parentKey] || [])
+        ];
+        const displayColumn = chooseDisplayColumn(parent ? parent.columns.map(column => column.name) : sources[0]?.columns || [], referencedColumn);
+
+        const options: ForeignKeyOption[] = [];
+        const optionsByKey = new Map<string, ForeignKeyOption>();
+        sources.forEach(source => {
+            const keyIndex = indexOf(source.columns, referencedColumn);
+            const displayIndex = displayColumn ? indexOf(source.columns, displayColumn) : -1;
+            if (keyIndex === -1) {
+                return;
+            }
+            source.rows.forEach(row => {
+                const value = row[keyIndex];
+                const key = value && valueKey(value);
+                if (key === undefined || optionsByKey.has(key)) {
+                    return;
+                }
+                const option = { value: withoutSourceText(value), label: displayIndex !== -1 && row[displayIndex] ? sqlValueToText(row[displayIndex]) : undefined };
+                optionsByKey.set(key, option);
+                options.push(option);
+            });
+        });
+
+        result[foreignKey.column.toLowerCase()] = {
+            referencedTable: foreignKey.referencedTable,
+            referencedColumn,
+            displayColumn,
+            options,
+            optionsByKey
+        };
+    });
+    return result;
+}
+
+function chooseDisplayColumn(columns: string[], keyColumn: string): string | undefined {
+    const candidates = columns.filter(column => column.toLowerCase() !== keyColumn.toLowerCase());
+    for (const name of DISPLAY_COLUMN_NAMES) {
+        const found = candidates.find(column => column.toLowerCase() === name);
+        if (found) {
+            return found;
+        }
+    }
+    return candidates.find(column => /name$/i.test(column));
+}
+
+// 元のテキスト(別の方言のファイルのこともある)は持たず、値だけを書き込めるようにする
+function withoutSourceText(value: SQLValue): SQLValue {
+    switch (value.kind) {
+        case 'string':
+            return stringValue(value.value);
+        case 'number':
+            return numberValue(value.value);
+        case 'boolean':
+            return booleanValue(value.value);
+        default:
+            return value;
+    }
+}
+
+function indexOf(columns: string[], column: string): number {
+    return columns.findIndex(candidate => candidate.toLowerCase() === column.toLowerCase());
+}
@@ -0,0 +1,239 @@
+// ファイルのINSERT・UPDATE・DELETEを上から順にメモリ上のテーブルに適用し、最終的な各テーブルの内容を求める
+import { ParsedStatement, TableSchema, ColumnDefinition } from './types';
+import { SQLValue, stringValue, numberValue, booleanValue, nullValue, expressionValue } from '../sqlValue';
+import { EvaluationOptions, evaluateCondition, evaluateExpression, runtimeToSQLValue } from '../sqlExpression';
+import { SQLDialect, DEFAULT_DIALECT, comparesCaseInsensitively } from '../sqlDialect';
+
+export interface SimulatedRow {
+    values: SQLValue[];
+    // 行を挿入した文の番号と、その文の中での行の番号
+    insertedBy: number;
+    insertedRow: number;
+    // 行を変更した文の番号(適用した順)
+    updatedBy: number[];
+    // 後の文で変更されたカラムの番号
+    changedColumns: number[];
+}
+
+export interface SimulatedTable {
+    name: string;
+    columns: string[];
+    rows: SimulatedRow[];
+    // DELETEで削除された行数
+    deletedCount: number;
+}
+
+// 適用できなかった文とその理由
+export interface SimulationIssue {
+    statementIndex: number;
+    message: string;
+}
+
+// UPDATE・DELETEのWHERE句に一致した行(文を適用する直前の値)
+export interface StatementMatch {
+    columns: string[];
+    rows: SimulatedRow[];
+}
+
+export interface SimulationResult {
+    tables: SimulatedTable[];
+    issues: SimulationIssue[];
+    // キーはUPDATE・DELETEの文の番号
+    matches: Map<number, StatementMatch>;
+}
+
+// schema: ファイル内にCREATE TABLEがないテーブルの定義(キーは小文字のテーブル名)
+// dialect: WHERE句で文字列を比べるときの大文字小文字の扱いに使う
+export function simulateStatements(statements: ParsedStatement[], schema: Record<string, TableSchema> = {}, dialect: SQLDialect = DEFAULT_DIALECT): SimulationResult {
+    const options: EvaluationOptions = { ignoreCase: comparesCaseInsensitively(dialect) };
+    const tables = new Map<string, SimulatedTable>();
+    // テーブルごとのカラム定義(DEFAULTの値を求めるため)
+    const definitions = new Map<string, ColumnDefinition[]>();
+    const issues: SimulationIssue[] = [];
+    const matches = new Map<number, StatementMatch>();
+
+    const getTable = (tableName: string): SimulatedTable => {
+        const key = tableName.toLowerCase();
+        let table = tables.get(key);
+        if (!table) {
+            const columns = schema[key]?.columns || [];
+            table = { name: tableName, columns: columns.map(column => column.name), rows: [], deletedCount: 0 };
+            tables.set(key, table);
+            definitions.set(key, columns);
+        }
+        return table;
+    };
+
+    statements.forEach((statement, statementIndex) => {
+        if (statement.type === 'raw' && /^(INSERT|UPDATE|DELETE)$/i.test(statement.keyword || '')) {
+            issues.push({ statementIndex, message: statement.parseError || '文を解析できなかったため、適用しませんでした' });
+            return;
+        }
+        if (!statement.tableName) {
+            return;
+        }
+        try {
+            switch (statement.type) {
+                case 'create_table': {
+                    const key = statement.tableName.toLowerCase();
+                    const columns = statement.columnDefinitions || [];
+                    tables.set(key, { name: statement.tableName, columns: columns.map(column => column.name), rows: [], deletedCount: 0 });
+                    definitions.set(key, columns);
+                    break;
+                }
+                case 'insert': {
+                    const table = getTable(statement.tableName);
+                    applyInsert(table, definitions.get(statement.tableName.toLowerCase()) || [], statement, statementIndex);
+                    break;
+                }
+                case 'update':
+                case 'delete': {
+                    const table = getTable(statement.tableName);
+                    const matched = matchingRows(table, statement, options);
+                    matches.set(statementIndex, {
+                        columns: [...table.columns],
+                        rows: matched.map(row => ({ ...row, values: [...row.values], updatedBy: [...row.updatedBy], changedColumns: [...row.changedColumns] }))
+                    });
+                    if (statement.type === 'update') {
+                        applyUpdate(table, matched, statement, statementIndex, options);
+                    } else {
+                        applyDelete(table, matched);
+                    }
+                    break;
+                }
+            }
+        } catch (error) {
+            issues.push({ statementIndex, message: error instanceof Error ? error.message : String(error) });
+        }
+    });
+
+    return { tables: Array.from(tables.values()), issues, matches };
+}
+
+function applyInsert(table: SimulatedTable, definitions: ColumnDefinition[], statement: ParsedStatement, statementIndex: number): void {
+    const columns = statement.columns && statement.columns.length > 0 ? statement.columns : table.columns;
+    // CREATE TABLEのないテーブルは、INSERTに出てきたカラムを順に加える
+    const positions = columns.map(column => {
+        const position = columnIndex(table, column);
+        if (position !== -1) {
+            return position;
+        }
+        table.columns.push(column);
+        table.rows.forEach(row => row.values.push(nullValue()));
+        return table.columns.length - 1;
+    });
+
+    (statement.values || []).forEach((valueRow, rowIndex) => {
+        const values = table.columns.map(column => defaultValue(definitions, column));
+        positions.forEach((position, index) => {
+            const value = valueRow[index];
+            if (value === undefined) {
+                return;
+            }
+            values[position] = value.kind === 'expression' && /^default$/i.test(value.sql.trim())
+                ? defaultValue(definitions, table.columns[position])
+                : value;
+        });
+        table.rows.push({ values, insertedBy: statementIndex, insertedRow: rowIndex, updatedBy: [], changedColumns: [] });
+    });
+}
+
+function applyUpdate(table: SimulatedTable, matched: SimulatedRow[], statement: ParsedStatement, statementIndex: number, options: EvaluationOptions): void {
+    const assignments = (statement.data || []).map(([column, value], index) => {
+        const position = columnIndex(table, String(column));
+        if (position === -1) {
+            throw new Error(`テーブル ${table.name} にカラム ${column} がありません`);
+        }
+        return { position, value: value as SQLValue, expression: statement.assignments?.[index] };
+    });
+
+    // 評価に失敗した文は途中まで適用しないよう、先に対象の行と新しい値をすべて求める
+    const changes = matched.map(row => ({
+        row,
+        values: assignments.map(({ value, expression }) => {
+            if (value.kind !== 'expression' || !expression) {
+                return value;
+            }
+            // 評価できない式(NOW()など)はSQL式のまま入れる
+            try {
+                return runtimeToSQLValue(evaluateExpression(expression, column => lookup(table, row, column), options));
+            } catch {
+                return value;
+            }
+        })
+    }));
+
+    changes.forEach(({ row, values }) => {
+        assignments.forEach(({ position }, index) => {
+            row.values[position] = values[index];
+            if (!row.changedColumns.includes(position)) {
+                row.changedColumns.push(position);
+            }
+        });
+        row.updatedBy.push(statementIndex);
+    });
+}
+
+function applyDelete(table: SimulatedTable, matched: SimulatedRow[]): void {
+    const deleted = new Set(matched);
+    table.rows = table.rows.filter(row => !deleted.has(row));
+    table.deletedCount += deleted.size;
+}
+
+// WHERE句に合う行(WHERE句がなければすべての行)
+function matchingRows(table: SimulatedTable, statement: ParsedStatement, options: EvaluationOptions): SimulatedRow[] {
+    return filterRows(table.columns, table.rows, row => row.values, statement, options);
+}
+
+// 他のファイルでINSERTされた行のうち、UPDATE・DELETEのWHERE句に一致するもの
+export function matchWorkspaceRows(statement: ParsedStatement, columns: string[], rows: SQLValue[][], dialect: SQLDialect = DEFAULT_DIALECT): SQLValue[][] {
+    return filterRows(columns, rows, row => row, statement, { ignoreCase: comparesCaseInsensitively(dialect) });
+}
+
+function filterRows<T>(columns: string[], rows: T[], valuesOf: (row: T) => SQLValue[], statement: ParsedStatement, options: EvaluationOptions): T[] {
+    const condition = statement.condition;
+    if (!condition) {
+        if (statement.where) {
+            throw new Error('WHERE句を解析できないため、適用しませんでした');
+        }
+        return rows;
+    }
+    return rows.filter(row => evaluateCondition(condition, column => lookupValue(columns, valuesOf(row), column), options));
+}
+
+function lookup(table: SimulatedTable, row: SimulatedRow, column: string): SQLValue | undefined {
+    return lookupValue(table.columns, row.values, column);
+}
+
+function lookupValue(columns: string[], values: SQLValue[], column: string): SQLValue | undefined {
+    const position = findColumn(columns, column);
+    return position === -1 ? undefined : values[position] ?? nullValue();
+}
+
+function columnIndex(table: SimulatedTable, column: string): number {
+    return findColumn(table.columns, column);
+}
+
+function findColumn(columns: string[], column: string): number {
+    const key = column.toLowerCase();
+    return columns.findIndex(name => name.toLowerCase() === key);
+}
+
+// カラムのDEFAULTの値(指定がなければNULL)。リテラル以外の式はSQL式のまま入れる
+function defaultValue(definitions: ColumnDefinition[], column: string): SQLValue {
+    const text = definitions.find(definition => definition.name.toLowerCase() === column.toLowerCase())?.defaultValue?.trim();
+    if (!text || /^null$/i.test(text)) {
+        return nullValue();
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(text)) {
+        return numberValue(text);
+    }
+    if (/^(true|false)$/i.test(text)) {
+        return booleanValue(text.toLowerCase() === 'true');
+    }
+    const quoted = text.match(/^'((?:[^']|'')*)'$/);
+    if (quoted) {
+        return stringValue(quoted[1].replace(/''/g, '\''));
+    }
+    return expressionValue(text);
+}
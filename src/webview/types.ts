@@ -0,0 +1,104 @@
+// 拡張機能側(sqlParser.ts)から受け取るデータの型
+// Webviewはnode-sql-parserを含めずにビルドするため、型をここに定義する
+import { SQLValue } from '../sqlValue';
+import { SQLExpression } from '../sqlExpression';
+
+export interface ParsedSQLData {
+    success: boolean;
+    statements: ParsedStatement[];
+    error?: string;
+    raw: string;
+    dialect?: string;
+}
+
+export interface ColumnDefinition {
+    name: string;
+    dataType: string;
+    nullable: boolean | null;
+    defaultValue?: string;
+    primaryKey: boolean;
+    unique: boolean;
+    references?: string;
+    extra?: string;
+}
+
+export interface TableConstraint {
+    kind: 'primary_key' | 'unique' | 'foreign_key' | 'check' | 'other';
+    columns: string[];
+    references?: string;
+    text: string;
+}
+
+export interface SelectColumn {
+    expression: string;
+    alias?: string;
+}
+
+export interface SelectJoin {
+    kind: string;
+    table: string;
+    condition?: string;
+}
+
+export interface SelectQuery {
+    modifiers?: string;
+    columns: SelectColumn[];
+    from: string[];
+    joins: SelectJoin[];
+    where?: string;
+    groupBy: string[];
+    having?: string;
+    orderBy: string[];
+    limit?: string;
+    extraClauses: { keyword: string; text: string }[];
+}
+
+export interface ParsedStatement {
+    type: 'select' | 'insert' | 'update' | 'delete' | 'create_table' | 'raw';
+    tableName?: string;
+    columns?: string[];
+    values?: SQLValue[][];
+    where?: any;
+    set?: any;
+    data?: any[][];
+    sql?: string;
+    keyword?: string;
+    parseError?: string;
+    leadingComments?: string[];
+    trailingComments?: string[];
+    columnDefinitions?: ColumnDefinition[];
+    tableConstraints?: TableConstraint[];
+    select?: SelectQuery;
+    condition?: SQLExpression;
+    assignments?: SQLExpression[];
+}
+
+// 前回受け取った文(base番目)から変わった行だけが届くINSERT(statementはvalues以外)
+export interface StatementRowPatch {
+    base: number;
+    statement: ParsedStatement;
+    rowCount: number;
+    rows: [number, SQLValue[]][];
+}
+
+export interface TableSchema {
+    name: string;
+    columns: ColumnDefinition[];
+    constraints: TableConstraint[];
+    uri: string;
+}
+
+export interface InsertedRows {
+    tableName: string;
+    columns: string[];
+    rows: SQLValue[][];
+    uri: string;
+}
+
+export interface QueryPreviewResult {
+    columns: string[];
+    rows: SQLValue[][];
+    truncated: boolean;
+    warnings: string[];
+    error?: string;
+}
@@ -0,0 +1,99 @@
+// 行数の多い表で、画面に見えている範囲の行だけを描画する
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// この行数を超える表だけを対象にする(小さな表はすべての行を描画する)
+const VIRTUALIZE_THRESHOLD = 200;
+// 見えている範囲の前後に余分に描画する行数(速くスクロールしたときに空白が見えないように)
+const OVERSCAN_ROWS = 30;
+// 行の高さの初期値。描画した行から測り直す
+const DEFAULT_ROW_HEIGHT = 28;
+
+export interface VirtualRows {
+    // 描画する行の範囲 [start, end)
+    start: number;
+    end: number;
+    // 描画しない行の代わりに上下に置く余白の高さ
+    paddingTop: number;
+    paddingBottom: number;
+    // 行を並べるtbodyに付ける
+    bodyRef: (element: HTMLTableSectionElement | null) => void;
+    // 指定した行までスクロールする(まだ描画していない行にも使える)。すべての行を描画している場合はfalseを返す
+    scrollToRow: (row: number) => boolean;
+}
+
+export function useVirtualRows(rowCount: number): VirtualRows {
+    const enabled = rowCount > VIRTUALIZE_THRESHOLD;
+    const [body, setBody] = useState<HTMLTableSectionElement | null>(null);
+    const [range, setRange] = useState({ start: 0, end: Math.min(rowCount, VIRTUALIZE_THRESHOLD) });
+    const rowHeight = useRef(DEFAULT_ROW_HEIGHT);
+
+    // tbodyの位置と画面の高さから、見えている行を求める(スクロールするのが.contentでもページでもよいように画面の座標で計算する)
+    const update = useCallback(() => {
+        if (!enabled || !body) {
+            return;
+        }
+        const row = body.querySelector<HTMLTableRowElement>('tr:not(.virtual-spacer)');
+        if (row && row.offsetHeight > 0) {
+            rowHeight.current = row.offsetHeight;
+        }
+        const top = body.getBoundingClientRect().top;
+        const first = Math.floor(Math.max(0, -top) / rowHeight.current);
+        const last = Math.ceil(Math.max(0, window.innerHeight - top) / rowHeight.current);
+        const start = Math.max(0, Math.min(rowCount, first - OVERSCAN_ROWS));
+        const end = Math.max(start, Math.min(rowCount, last + OVERSCAN_ROWS));
+        setRange(prev => prev.start === start && prev.end === end ? prev : { start, end });
+    }, [enabled, body, rowCount]);
+
+    useEffect(() => {
+        if (!enabled) {
+            return;
+        }
+        update();
+        // スクロールのたびではなく、描画のタイミングでまとめて計算する
+        let frame = 0;
+        const handleScroll = () => {
+            if (!frame) {
+                frame = requestAnimationFrame(() => {
+                    frame = 0;
+                    update();
+                });
+            }
+        };
+        // 親要素のスクロールも受け取れるよう、キャプチャで登録する
+        window.addEventListener('scroll', handleScroll, true);
+        window.addEventListener('resize', handleScroll);
+        return () => {
+            window.removeEventListener('scroll', handleScroll, true);
+            window.removeEventListener('resize', handleScroll);
+            cancelAnimationFrame(frame);
+        };
+    }, [enabled, update]);
+
+    const scrollToRow = useCallback((row: number): boolean => {
+        if (!enabled || !body) {
+            return false;
+        }
+        const rowTop = body.getBoundingClientRect().top + row * rowHeight.current;
+        if (rowTop >= 0 && rowTop + rowHeight.current <= window.innerHeight) {
+            return true;
+        }
+        // 行が画面の中央に来るように、スクロールできる一番近い親要素を動かす
+        let scroller: HTMLElement | null = body.parentElement;
+        while (scroller && !(scroller.scrollHeight > scroller.clientHeight && /(auto|scroll)/.test(getComputedStyle(scroller).overflowY))) {
+            scroller = scroller.parentElement;
+        }
+        (scroller ?? document.scrollingElement ?? document.documentElement).scrollBy(0, rowTop - window.innerHeight / 2);
+        return true;
+    }, [enabled, body]);
+
+    const start = enabled ? range.start : 0;
+    const end = enabled ? Math.min(range.end, rowCount) : rowCount;
+    return {
+        start,
+        end,
+        paddingTop: start * rowHeight.current,
+        paddingBottom: (rowCount - end) * rowHeight.current,
+        bodyRef: setBody,
+        scrollToRow
+    };
+}
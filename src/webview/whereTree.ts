@@ -0,0 +1,288 @@
+// WHERE句の条件ビルダーで編集する条件の木。SQLParserが作った式の木(SQLExpression)から作り、SQLのテキストに戻す
+import { SQLExpression } from '../sqlExpression';
+import { SQLValue, expressionValue } from '../sqlValue';
+import { SQLDialect, quoteIdentifier, formatSQLValue, usesBackslashEscapes } from '../sqlDialect';
+import { SQLLexer, SourceRange, Token } from '../sqlLexer';
+
+export type PredicateOperator =
+    | '=' | '<>' | '<' | '>' | '<=' | '>='
+    | 'LIKE' | 'NOT LIKE'
+    | 'IN' | 'NOT IN'
+    | 'BETWEEN' | 'NOT BETWEEN'
+    | 'IS NULL' | 'IS NOT NULL';
+
+export const PREDICATE_OPERATORS: PredicateOperator[] = [
+    '=', '<>', '<', '>', '<=', '>=', 'LIKE', 'NOT LIKE', 'IN', 'NOT IN', 'BETWEEN', 'NOT BETWEEN', 'IS NULL', 'IS NOT NULL'
+];
+
+// range: 元のWHERE句のテキストでの位置。edited: 木を作った後に書き換えた条件(書き換えた条件を含むグループも含む)。
+// 書き換えていない条件はSQLに戻すときに元のテキストをそのまま使う(コメントや改行、書き方を残す)
+export type WhereNode =
+    | { kind: 'group'; operator: 'AND' | 'OR'; children: WhereNode[]; range?: SourceRange; edited?: boolean }
+    // カラムと値の比較。未入力の値はundefined
+    // quoted: 元のSQLでカラム名が引用符付きだったか(カラムを選び直したらundefined)
+    | { kind: 'predicate'; table?: string; column: string; quoted?: boolean; operator: PredicateOperator; values: (SQLValue | undefined)[]; range?: SourceRange; edited?: boolean }
+    // ビルダーで表せない条件(NOT、サブクエリ、式どうしの比較など)。SQLのテキストのまま編集する
+    | { kind: 'raw'; sql: string; range?: SourceRange; edited?: boolean };
+
+export type WhereGroup = Extract<WhereNode, { kind: 'group' }>;
+export type WherePredicate = Extract<WhereNode, { kind: 'predicate' }>;
+
+// 式の木の比較演算子(SQLParserは大文字にしている)とビルダーの演算子の対応
+const COMPARISON_OPERATORS: Record<string, PredicateOperator> = {
+    '=': '=', '<>': '<>', '!=': '<>', '<': '<', '>': '>', '<=': '<=', '>=': '>=', 'LIKE': 'LIKE', 'NOT LIKE': 'NOT LIKE'
+};
+
+// 演算子が取る値の数(INとNOT INは1個以上)
+export function operatorArity(operator: PredicateOperator): number {
+    switch (operator) {
+        case 'IS NULL':
+        case 'IS NOT NULL':
+            return 0;
+        case 'BETWEEN':
+        case 'NOT BETWEEN':
+            return 2;
+        default:
+            return 1;
+    }
+}
+
+export function isListOperator(operator: PredicateOperator): boolean {
+    return operator === 'IN' || operator === 'NOT IN';
+}
+
+// WHERE句の式の木から条件の木を作る。いちばん外側は常にグループにする。
+// where(WHERE句のテキスト)を渡すと、各条件に元のテキストでの位置を付ける
+export function conditionToTree(condition: SQLExpression | undefined, dialect: SQLDialect, where?: string): WhereGroup {
+    if (!condition) {
+        return { kind: 'group', operator: 'AND', children: [] };
+    }
+    const lexer = new SQLLexer();
+    const tokens = where === undefined ? undefined : lexer
+        .tokenize(where, { backslashEscapes: usesBackslashEscapes(dialect), delimiterDirectives: false })
+        .filter(token => !lexer.isTrivia(token));
+    const node = toNode(condition, dialect, where, tokens);
+    return node.kind === 'group' ? node : { kind: 'group', operator: 'AND', children: [node], range: node.range };
+}
+
+// tokens: 式にあたる部分のトークン(空白とコメントを除く)。位置が分からなければundefined
+function toNode(expression: SQLExpression, dialect: SQLDialect, where: string | undefined, tokens: Token[] | undefined): WhereNode {
+    const range = tokens && tokens.length > 0 ? { start: tokens[0].start, end: tokens[tokens.length - 1].end } : undefined;
+    if (expression.kind === 'binary' && (expression.operator === 'AND' || expression.operator === 'OR')) {
+        // a AND b AND c は1つのグループにまとめる
+        const operator = expression.operator;
+        const flatten = (part: SQLExpression, partTokens: Token[] | undefined): WhereNode[] => {
+            if (part.kind !== 'binary' || part.operator !== operator) {
+                return [toNode(part, dialect, where, partTokens)];
+            }
+            const [left, right] = (partTokens && splitCondition(partTokens, operator)) ?? [];
+            return [...flatten(part.left, left), ...flatten(part.right, right)];
+        };
+        return { kind: 'group', operator, children: flatten(expression, tokens), range };
+    }
+    const predicate = toPredicate(expression, dialect);
+    if (predicate) {
+        return { ...predicate, range };
+    }
+    return { kind: 'raw', sql: where !== undefined && range ? where.slice(range.start, range.end) : expressionToSQL(expression, dialect), range };
+}
+
+// 「左 AND 右」の条件のトークンを左右に分ける(最後のANDで分ける。全体を囲む括弧、BETWEEN a AND b、CASE式の中は除く)。
+// 式の木と形が合わなければundefined
+function splitCondition(tokens: Token[], operator: 'AND' | 'OR'): [Token[], Token[]] | undefined {
+    const body = unwrapParentheses(tokens);
+    let depth = 0;
+    let pendingBetween = 0;
+    let splitAt = -1;
+    body.forEach((token, index) => {
+        const word = token.type === 'word' ? token.text.toUpperCase() : '';
+        if ((token.type === 'punctuation' && token.text === '(') || word === 'CASE') {
+            depth++;
+        } else if ((token.type === 'punctuation' && token.text === ')') || word === 'END') {
+            depth--;
+        } else if (depth === 0 && word === 'BETWEEN') {
+            pendingBetween++;
+        } else if (depth === 0 && word === 'AND' && pendingBetween > 0) {
+            pendingBetween--;
+        } else if (depth === 0 && word === operator) {
+            splitAt = index;
+        }
+    });
+    if (splitAt <= 0 || splitAt === body.length - 1) {
+        return undefined;
+    }
+    return [body.slice(0, splitAt), body.slice(splitAt + 1)];
+}
+
+// 全体を囲む括弧を外す((a) OR (b) のような、先頭と末尾が別の括弧のものはそのまま)
+function unwrapParentheses(tokens: Token[]): Token[] {
+    let body = tokens;
+    while (body.length >= 2 && body[0].text === '(' && body[body.length - 1].text === ')') {
+        let depth = 0;
+        const closing = body.findIndex(token => {
+            if (token.type === 'punctuation' && token.text === '(') {
+                depth++;
+            } else if (token.type === 'punctuation' && token.text === ')') {
+                depth--;
+            }
+            return depth === 0;
+        });
+        if (closing !== body.length - 1) {
+            break;
+        }
+        body = body.slice(1, -1);
+    }
+    return body;
+}
+
+// 「カラム 演算子 値」の形の条件だけを比較にする
+function toPredicate(expression: SQLExpression, dialect: SQLDialect): WherePredicate | undefined {
+    if (expression.kind !== 'binary' || expression.left.kind !== 'column') {
+        return undefined;
+    }
+    const { table, name: column, quoted } = expression.left;
+    const { operator, right } = expression;
+
+    if ((operator === 'IS' || operator === 'IS NOT') && right.kind === 'value' && right.value.kind === 'null') {
+        return { kind: 'predicate', table, column, quoted, operator: operator === 'IS' ? 'IS NULL' : 'IS NOT NULL', values: [] };
+    }
+    if ((operator === 'IN' || operator === 'NOT IN') && right.kind === 'list' && right.items.length > 0) {
+        return { kind: 'predicate', table, column, quoted, operator, values: right.items.map(item => toOperand(item, dialect)) };
+    }
+    if ((operator === 'BETWEEN' || operator === 'NOT BETWEEN') && right.kind === 'list' && right.items.length === 2) {
+        return { kind: 'predicate', table, column, quoted, operator, values: right.items.map(item => toOperand(item, dialect)) };
+    }
+    if (COMPARISON_OPERATORS[operator] && right.kind !== 'list') {
+        return { kind: 'predicate', table, column, quoted, operator: COMPARISON_OPERATORS[operator], values: [toOperand(right, dialect)] };
+    }
+    return undefined;
+}
+
+// 値はそのまま、それ以外(関数、別のカラムなど)はSQL式として持つ
+function toOperand(expression: SQLExpression, dialect: SQLDialect): SQLValue {
+    return expression.kind === 'value' ? expression.value : expressionValue(expressionToSQL(expression, dialect));
+}
+
+// すべての比較にカラムと値が入っているか(入っていなければSQLにしない)
+export function isTreeComplete(node: WhereNode): boolean {
+    switch (node.kind) {
+        case 'group':
+            return node.children.every(isTreeComplete);
+        case 'predicate':
+            return node.column.trim() !== ''
+                && node.values.every(value => value !== undefined)
+                && (isListOperator(node.operator) ? node.values.length > 0 : node.values.length === operatorArity(node.operator));
+        case 'raw':
+            return node.sql.trim() !== '';
+    }
+}
+
+// 条件の木をWHERE句のテキストにする(条件がなければ空文字列)。
+// compound: 親のグループに他の条件もあるか(ORを含むグループや任意のSQLは括弧で囲む)
+// where: 木を作ったときのWHERE句のテキスト。位置の残っている(書き換えていない)条件は元のテキストのまま使う
+export function treeToSQL(node: WhereNode, dialect: SQLDialect, compound = false, where?: string): string {
+    if (where !== undefined && node.range && !node.edited) {
+        return where.slice(node.range.start, node.range.end);
+    }
+    switch (node.kind) {
+        case 'group': {
+            const children = node.children.filter(child => child.kind !== 'group' || treeToSQL(child, dialect, false, where) !== '');
+            const parts = children.map(child => treeToSQL(child, dialect, children.length > 1, where));
+            // 元のテキストで隣り合っていた条件の間は、コメントや改行を含めて元のまま残す
+            const sql = parts.map((part, index) => {
+                if (index === 0) {
+                    return part;
+                }
+                const separator = where !== undefined ? separatorBetween(children[index - 1], children[index], where, node.operator, dialect) : undefined;
+                return (separator ?? ` ${node.operator} `) + part;
+            }).join('');
+            return compound && parts.length > 1 ? `(${sql})` : sql;
+        }
+        case 'predicate': {
+            const column = columnToSQL(node.table, node.column, node.quoted, dialect);
+            const values = node.values.map(value => value ? formatSQLValue(value, dialect) : '');
+            switch (node.operator) {
+                case 'IS NULL':
+                case 'IS NOT NULL':
+                    return `${column} ${node.operator}`;
+                case 'IN':
+                case 'NOT IN':
+                    return `${column} ${node.operator} (${values.join(', ')})`;
+                case 'BETWEEN':
+                case 'NOT BETWEEN':
+                    return `${column} ${node.operator} ${values[0]} AND ${values[1]}`;
+                default:
+                    return `${column} ${node.operator} ${values[0]}`;
+            }
+        }
+        case 'raw':
+            return compound ? `(${node.sql.trim()})` : node.sql.trim();
+    }
+}
+
+// 2つの条件の間の元のテキストが、空白とコメントとつなぎの演算子だけならそれを返す
+function separatorBetween(previous: WhereNode, next: WhereNode, where: string, operator: 'AND' | 'OR', dialect: SQLDialect): string | undefined {
+    if (!previous.range || !next.range || previous.range.end > next.range.start) {
+        return undefined;
+    }
+    const separator = where.slice(previous.range.end, next.range.start);
+    const lexer = new SQLLexer();
+    const words = lexer
+        .tokenize(separator, { backslashEscapes: usesBackslashEscapes(dialect), delimiterDirectives: false })
+        .filter(token => !lexer.isTrivia(token));
+    return words.length === 1 && words[0].text.toUpperCase() === operator ? separator : undefined;
+}
+
+// カラム名は元のSQLの書き方に合わせる(引用符なしで書かれた名前を囲むと、大文字小文字を区別する別の名前になる)
+function columnToSQL(table: string | undefined, name: string, quoted: boolean | undefined, dialect: SQLDialect): string {
+    const column = quoted === false ? name : quoteIdentifier(name, dialect, quoted);
+    return table ? `${quoteIdentifier(table, dialect)}.${column}` : column;
+}
+
+// 式の木をSQLのテキストに戻す(入れ子の演算は括弧で囲み、優先順位が変わらないようにする)
+export function expressionToSQL(expression: SQLExpression, dialect: SQLDialect): string {
+    const operand = (part: SQLExpression) => part.kind === 'binary' ? `(${expressionToSQL(part, dialect)})` : expressionToSQL(part, dialect);
+    switch (expression.kind) {
+        case 'column':
+            return columnToSQL(expression.table, expression.name, expression.quoted, dialect);
+        case 'value':
+            return formatSQLValue(expression.value, dialect);
+        case 'list':
+            return `(${expression.items.map(item => expressionToSQL(item, dialect)).join(', ')})`;
+        case 'function':
+            return `${expression.name}(${expression.args.map(arg => expressionToSQL(arg, dialect)).join(', ')})`;
+        case 'unary':
+            return /^[A-Z]/.test(expression.operator)
+                ? `${expression.operator} ${operand(expression.operand)}`
+                : `${expression.operator}${operand(expression.operand)}`;
+        case 'binary':
+            if ((expression.operator === 'BETWEEN' || expression.operator === 'NOT BETWEEN') && expression.right.kind === 'list') {
+                const [low, high] = expression.right.items;
+                return `${operand(expression.left)} ${expression.operator} ${operand(low)} AND ${operand(high)}`;
+            }
+            return `${operand(expression.left)} ${expression.operator} ${operand(expression.right)}`;
+        case 'unsupported':
+            return expression.sql;
+    }
+}
+
+// pathの位置(グループの子の番号の並び)の条件を置き換える。nodeがundefinedなら取り除く。空のpathはいちばん外側のグループ。
+// 書き換えた条件とそれを含むグループには印を付け、SQLに戻すときに作り直す
+export function replaceNode(group: WhereGroup, path: number[], node: WhereNode | undefined): WhereGroup {
+    if (path.length === 0) {
+        return node?.kind === 'group' && node !== group ? { ...node, edited: true } : group;
+    }
+    const [index, ...rest] = path;
+    const children = [...group.children];
+    const child = children[index];
+    if (rest.length === 0) {
+        if (!node) {
+            children.splice(index, 1);
+        } else if (node !== child) {
+            children[index] = { ...node, edited: true };
+        }
+    } else if (child?.kind === 'group') {
+        children[index] = replaceNode(child, rest, node);
+    }
+    return { ...group, children, edited: true };
+}